@@ -0,0 +1,85 @@
+// Service worker: keeps the app usable when the backstretch Wi-Fi drops. Data lives in
+// IndexedDB already, so only the app shell and built assets need caching here.
+//
+// - Page loads go to the network first and fall back to the cached shell, so a deploy is picked
+//   up on the next online load.
+// - Built assets under /assets/ have hashed names and never change. The ones in the build's
+//   precache manifest are cached on install, so the first visit is enough to start offline;
+//   later builds' assets are cached the first time a page loads them.
+// - Other same-origin files (icons, manifest) are served from the cache and refreshed behind it.
+// - Cross-origin requests, including the sync API, are left alone.
+
+const CACHE = 'equine-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/favicon.ico'];
+
+// Built assets listed by the precache-manifest plugin in vite.config.ts. Missing outside builds.
+async function builtAssets() {
+  try {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    return response.ok ? await response.json() : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll([...SHELL, ...(await builtAssets())]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch (error) {
+    return (await cache.match('/index.html')) ?? Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const fresh = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  return cached ?? fresh;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,201 @@
+// Local stand-in for the sync REST API (see src/lib/sync.ts). Holds rows shaped by
+// server/schema.sql in memory and saves them to server/data/sync-db.json after each write.
+//
+//   npm run sync-server               listens on http://localhost:8787
+//   SYNC_PORT=9000 npm run sync-server
+//
+// Endpoints, all under /api/sync:
+//   GET  /status                      table row counts and the latest change seq
+//   GET  /changes?since=<seq>&limit=  rows changed after seq, latest version of each
+//   POST /push                        { client_id, changes: [{ table, id, base_version, deleted, record }] }
+//   POST /reset                       drops all data (for tests)
+
+import { createServer } from 'node:http';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const PORT = Number(process.env.SYNC_PORT ?? 8787);
+const DATA_FILE = join(here, 'data', 'sync-db.json');
+const SYNC_COLUMNS = ['row_version', 'row_deleted'];
+const MAX_PAGE = 500;
+
+// Column lists per table, read from the CREATE TABLE statements
+function loadSchema() {
+  const sql = readFileSync(join(here, 'schema.sql'), 'utf8').replace(/--.*$/gm, '');
+  const tables = {};
+  for (const [, name, body] of sql.matchAll(/CREATE TABLE (\w+) \(([\s\S]*?)\);/g)) {
+    if (name === 'sync_changes') continue;
+    tables[name] = body.split(',\n')
+      .map(line => line.trim().split(/\s+/)[0])
+      .filter(column => column && !/^(PRIMARY|UNIQUE|FOREIGN|CONSTRAINT|CHECK)$/i.test(column) && !SYNC_COLUMNS.includes(column));
+  }
+  return tables;
+}
+
+const schema = loadSchema();
+
+function emptyStore() {
+  return { seq: 0, changes: [], tables: Object.fromEntries(Object.keys(schema).map(name => [name, {}])) };
+}
+
+function loadStore() {
+  if (!existsSync(DATA_FILE)) return emptyStore();
+  const stored = JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+  const store = emptyStore();
+  store.seq = stored.seq;
+  store.changes = stored.changes;
+  Object.keys(schema).forEach(name => { store.tables[name] = stored.tables[name] ?? {}; });
+  return store;
+}
+
+let store = loadStore();
+
+function saveStore() {
+  mkdirSync(dirname(DATA_FILE), { recursive: true });
+  writeFileSync(DATA_FILE, JSON.stringify(store));
+}
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const dataOf = row => Object.fromEntries(Object.entries(row).filter(([key]) => !SYNC_COLUMNS.includes(key)));
+
+function checkRecord(table, id, record) {
+  if (!record || typeof record !== 'object') throw new Error('Missing record');
+  if (record.id !== id) throw new Error(`Record id ${record.id} does not match ${id}`);
+  const unknown = Object.keys(record).filter(key => !schema[table].includes(key));
+  if (unknown.length > 0) throw new Error(`Unknown column ${unknown.map(c => `${table}.${c}`).join(', ')}`);
+}
+
+// Applies one change unless the client's base version is stale. A client retrying a write the
+// server already has gets it back as applied.
+function applyChange(clientId, { table, id, base_version: baseVersion, deleted, record }) {
+  if (!schema[table]) return { table, id, status: 'rejected', error: `Unknown table ${table}` };
+  try {
+    if (!deleted) checkRecord(table, id, record);
+  } catch (error) {
+    return { table, id, status: 'rejected', error: error.message };
+  }
+
+  const rows = store.tables[table];
+  const row = rows[id];
+  const serverVersion = row?.row_version ?? 0;
+
+  if (row && serverVersion !== baseVersion) {
+    const same = deleted ? row.row_deleted : !row.row_deleted && JSON.stringify(dataOf(row)) === JSON.stringify(record);
+    if (same) return { table, id, status: 'applied', version: serverVersion };
+    if (baseVersion === 0) {
+      const nextId = Math.max(0, ...Object.keys(rows).map(Number)) + 1;
+      return { table, id, status: 'conflict', reason: 'id_taken', next_id: nextId };
+    }
+    return {
+      table,
+      id,
+      status: 'conflict',
+      reason: 'version_mismatch',
+      server_version: serverVersion,
+      server_deleted: row.row_deleted,
+      server_record: row.row_deleted ? undefined : dataOf(row)
+    };
+  }
+  if (!row && deleted) return { table, id, status: 'applied', version: 0 };
+
+  const version = serverVersion + 1;
+  rows[id] = deleted
+    ? { id, row_version: version, row_deleted: true }
+    : { ...record, row_version: version, row_deleted: false };
+  store.seq += 1;
+  store.changes.push({ seq: store.seq, table_name: table, record_id: id, row_version: version, client_id: clientId, changed_at: new Date().toISOString() });
+  return { table, id, status: 'applied', version };
+}
+
+function pullChanges(since, limit) {
+  const page = store.changes.filter(change => change.seq > since).slice(0, limit);
+  const latest = new Map();
+  page.forEach(change => latest.set(`${change.table_name}:${change.record_id}`, change));
+  const changes = Array.from(latest.values())
+    .sort((a, b) => a.seq - b.seq)
+    .map(change => {
+      const row = store.tables[change.table_name][change.record_id];
+      return {
+        seq: change.seq,
+        table: change.table_name,
+        id: change.record_id,
+        version: row.row_version,
+        deleted: row.row_deleted,
+        record: row.row_deleted ? undefined : dataOf(row)
+      };
+    });
+  const cursor = page.length > 0 ? page[page.length - 1].seq : since;
+  return { changes, cursor, has_more: cursor < store.seq };
+}
+
+async function readBody(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    throw new HttpError(400, 'Body is not valid JSON');
+  }
+}
+
+async function handle(req, url) {
+  const route = `${req.method} ${url.pathname.replace(/\/+$/, '')}`;
+  switch (route) {
+    case 'GET /api/sync/status':
+      return {
+        seq: store.seq,
+        tables: Object.fromEntries(Object.entries(store.tables).map(([name, rows]) =>
+          [name, Object.values(rows).filter(row => !row.row_deleted).length]
+        ))
+      };
+    case 'GET /api/sync/changes': {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      const limit = Math.min(Number(url.searchParams.get('limit') ?? MAX_PAGE), MAX_PAGE);
+      if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'since must be a non-negative integer');
+      return pullChanges(since, limit);
+    }
+    case 'POST /api/sync/push': {
+      const { client_id: clientId, changes } = await readBody(req);
+      if (!clientId || !Array.isArray(changes)) throw new HttpError(400, 'Expected { client_id, changes }');
+      const results = changes.map(change => applyChange(clientId, change));
+      if (results.some(r => r.status === 'applied')) saveStore();
+      return { results, seq: store.seq };
+    }
+    case 'POST /api/sync/reset':
+      store = emptyStore();
+      saveStore();
+      return { seq: 0 };
+    default:
+      throw new HttpError(404, `No route for ${route}`);
+  }
+}
+
+createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  try {
+    const body = await handle(req, url);
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: error.message }));
+  }
+}).listen(PORT, () => {
+  console.log(`Mock sync server on http://localhost:${PORT}/api/sync (${Object.keys(schema).length} tables)`);
+});
@@ -0,0 +1,342 @@
+-- SQL schema for the sync backend (PostgreSQL dialect). Mirrors the interfaces in
+-- src/lib/database.ts, one table per synced EquineDatabase table.
+--
+-- Every table carries two sync columns:
+--   row_version  bumped on each accepted write; clients send the version they last saw
+--   row_deleted  deletes are kept as tombstones so other clients can pull them
+--
+-- Ids are assigned by the clients (IndexedDB auto-increment), so there are no sequences on
+-- the entity tables. References are enforced client-side (src/lib/dataService.ts) and rows
+-- arrive in any order, so there are no FOREIGN KEY constraints.
+--
+-- The mock server (server/mock-sync-server.mjs) reads the column lists below and rejects
+-- records with fields that have no column.
+
+-- Includes password_hash: clients check sign-ins against their synced copy (see src/lib/sync.ts)
+CREATE TABLE users (
+  id INTEGER PRIMARY KEY,
+  username TEXT NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL,
+  password_hash TEXT NOT NULL,
+  must_change_password BOOLEAN,
+  password_changed_at TIMESTAMPTZ,
+  disabled BOOLEAN,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE owners (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  address TEXT,
+  user_id INTEGER,
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE horses (
+  id INTEGER PRIMARY KEY,
+  tracking_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  registration_number TEXT,
+  breed TEXT,
+  color TEXT,
+  age INTEGER,
+  gender TEXT NOT NULL,
+  owner_id INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  current_location_id INTEGER,
+  current_activity TEXT,
+  season_id INTEGER,
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE locations (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  capacity INTEGER NOT NULL,
+  description TEXT,
+  floor_plan JSONB,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE activities (
+  id INTEGER PRIMARY KEY,
+  horse_id INTEGER NOT NULL,
+  activity_type TEXT NOT NULL,
+  location_id INTEGER,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ,
+  notes TEXT,
+  recorded_by INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE races (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  race_date TIMESTAMPTZ NOT NULL,
+  track TEXT NOT NULL,
+  distance TEXT NOT NULL,
+  purse NUMERIC(12, 2),
+  race_type TEXT NOT NULL,
+  status TEXT NOT NULL,
+  min_age INTEGER,
+  max_age INTEGER,
+  entries_close_at TIMESTAMPTZ,
+  drawn_at TIMESTAMPTZ,
+  final_time TEXT,
+  purse_split JSONB,
+  official_at TIMESTAMPTZ,
+  official_by INTEGER,
+  season_id INTEGER,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE race_participants (
+  id INTEGER PRIMARY KEY,
+  race_id INTEGER NOT NULL,
+  horse_id INTEGER NOT NULL,
+  jockey_name TEXT,
+  post_position INTEGER,
+  odds TEXT,
+  order_of_finish INTEGER,
+  beaten_lengths NUMERIC(6, 2),
+  disqualified BOOLEAN,
+  dq_placed_position INTEGER,
+  finish_position INTEGER,
+  purse_earned NUMERIC(12, 2),
+  failed_drug_test_id INTEGER,
+  scratched_at TIMESTAMPTZ,
+  scratch_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE veterinary_records (
+  id INTEGER PRIMARY KEY,
+  horse_id INTEGER NOT NULL,
+  examination_date TIMESTAMPTZ NOT NULL,
+  veterinarian TEXT NOT NULL,
+  diagnosis TEXT,
+  treatment TEXT,
+  medications TEXT,
+  notes TEXT,
+  follow_up_required BOOLEAN NOT NULL,
+  follow_up_date TIMESTAMPTZ,
+  follow_up_completed_at TIMESTAMPTZ,
+  recorded_by INTEGER,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE drug_tests (
+  id INTEGER PRIMARY KEY,
+  horse_id INTEGER NOT NULL,
+  race_id INTEGER,
+  test_date TIMESTAMPTZ NOT NULL,
+  test_type TEXT NOT NULL,
+  status TEXT NOT NULL,
+  substances_tested TEXT,
+  results TEXT,
+  notes TEXT,
+  sample_id TEXT,
+  collected_by TEXT,
+  collected_at TIMESTAMPTZ,
+  lab TEXT,
+  resulted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE custody_handoffs (
+  id INTEGER PRIMARY KEY,
+  drug_test_id INTEGER NOT NULL,
+  from_party TEXT NOT NULL,
+  to_party TEXT NOT NULL,
+  handed_at TIMESTAMPTZ NOT NULL,
+  notes TEXT,
+  recorded_by INTEGER,
+  created_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE medication_administrations (
+  id INTEGER PRIMARY KEY,
+  horse_id INTEGER NOT NULL,
+  substance TEXT NOT NULL,
+  dose TEXT NOT NULL,
+  route TEXT NOT NULL,
+  administered_at TIMESTAMPTZ NOT NULL,
+  administered_by TEXT NOT NULL,
+  veterinary_record_id INTEGER,
+  notes TEXT,
+  recorded_by INTEGER,
+  created_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE withdrawal_rules (
+  id INTEGER PRIMARY KEY,
+  substance TEXT NOT NULL,
+  withdrawal_hours INTEGER NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE owner_charges (
+  id INTEGER PRIMARY KEY,
+  owner_id INTEGER NOT NULL,
+  horse_id INTEGER,
+  charge_type TEXT NOT NULL,
+  description TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL,
+  charge_date TIMESTAMPTZ NOT NULL,
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ,
+  recorded_by INTEGER,
+  created_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE stalls (
+  id INTEGER PRIMARY KEY,
+  location_id INTEGER NOT NULL,
+  stall_number TEXT NOT NULL,
+  size TEXT NOT NULL,
+  features JSONB NOT NULL,
+  out_of_service BOOLEAN NOT NULL,
+  out_of_service_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE location_assignments (
+  id INTEGER PRIMARY KEY,
+  horse_id INTEGER NOT NULL,
+  location_id INTEGER NOT NULL,
+  stall_id INTEGER,
+  assigned_at TIMESTAMPTZ NOT NULL,
+  assigned_until TIMESTAMPTZ,
+  assigned_by INTEGER NOT NULL,
+  notes TEXT,
+  season_id INTEGER,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE incidents (
+  id INTEGER PRIMARY KEY,
+  rule_id TEXT NOT NULL,
+  horse_id INTEGER NOT NULL,
+  severity TEXT NOT NULL,
+  title TEXT NOT NULL,
+  details TEXT NOT NULL,
+  remediation TEXT NOT NULL,
+  status TEXT NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL,
+  cleared_at TIMESTAMPTZ,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by INTEGER,
+  assigned_to INTEGER,
+  resolved_at TIMESTAMPTZ,
+  resolved_by INTEGER,
+  resolution TEXT,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE incident_notes (
+  id INTEGER PRIMARY KEY,
+  incident_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  note TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE racetracks (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  code TEXT,
+  city TEXT,
+  problem_rules JSONB,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE seasons (
+  id INTEGER PRIMARY KEY,
+  racetrack_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  start_date TIMESTAMPTZ NOT NULL,
+  end_date TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE audit_log (
+  id INTEGER PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id INTEGER,
+  action TEXT NOT NULL,
+  user_id INTEGER,
+  username TEXT,
+  before JSONB,
+  after JSONB,
+  timestamp TIMESTAMPTZ NOT NULL,
+  row_version INTEGER NOT NULL DEFAULT 1,
+  row_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+-- Change feed clients pull from. One row per accepted write; seq is the pull cursor.
+CREATE TABLE sync_changes (
+  seq BIGSERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id INTEGER NOT NULL,
+  row_version INTEGER NOT NULL,
+  client_id TEXT NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX sync_changes_record ON sync_changes (table_name, record_id);
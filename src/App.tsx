@@ -4,17 +4,29 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { SeasonProvider } from "@/contexts/SeasonContext";
 import { LoginForm } from "@/components/LoginForm";
+import { ForcedPasswordReset } from "@/components/ChangePasswordForm";
+import { RequirePermission } from "@/components/RequirePermission";
 import { Layout } from "@/components/Layout";
 import { Dashboard } from "@/pages/Dashboard";
 import { CommandCenter } from "@/pages/CommandCenter";
 import { ProblemsView } from "@/pages/ProblemsView";
 import { HorsesPage } from "@/pages/HorsesPage";
+import { HorseDetailPage } from "@/pages/HorseDetailPage";
 import { OwnersPage } from "@/pages/OwnersPage";
+import { StallsPage } from "@/pages/StallsPage";
+import { FloorPlanPage } from "@/pages/FloorPlanPage";
+import { ActivityConsolePage } from "@/pages/ActivityConsolePage";
 import { RacesPage } from "@/pages/RacesPage";
+import { VeterinaryPage } from "@/pages/VeterinaryPage";
+import { DrugTestingPage } from "@/pages/DrugTestingPage";
 import { DataGridPage } from "@/pages/DataGridPage";
 import { ReportsPage } from "@/pages/ReportsPage";
 import SeasonManagementPage from "@/pages/SeasonManagementPage";
+import { UsersPage } from "@/pages/UsersPage";
+import { AuditLogPage } from "@/pages/AuditLogPage";
+import { BackupRestorePage } from "@/pages/BackupRestorePage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -37,21 +49,36 @@ function AppContent() {
     return <LoginForm />;
   }
 
+  if (user.must_change_password) {
+    return <ForcedPasswordReset />;
+  }
+
   return (
-    <Layout>
-      <Routes>
-        <Route path="/" element={<Dashboard />} />
-        <Route path="/command" element={<CommandCenter />} />
-        <Route path="/problems" element={<ProblemsView />} />
-        <Route path="/horses" element={<HorsesPage />} />
-        <Route path="/owners" element={<OwnersPage />} />
-        <Route path="/races" element={<RacesPage />} />
-        <Route path="/data-grid" element={<DataGridPage />} />
-        <Route path="/reports" element={<ReportsPage />} />
-        <Route path="/season-management" element={<SeasonManagementPage />} />
-        <Route path="*" element={<NotFound />} />
-      </Routes>
-    </Layout>
+    <SeasonProvider>
+      <Layout>
+        <Routes>
+          <Route path="/" element={<RequirePermission permission="dashboard:read"><Dashboard /></RequirePermission>} />
+          <Route path="/command" element={<RequirePermission permission="operations:read"><CommandCenter /></RequirePermission>} />
+          <Route path="/problems" element={<RequirePermission permission="operations:read"><ProblemsView /></RequirePermission>} />
+          <Route path="/horses" element={<RequirePermission permission="horses:read"><HorsesPage /></RequirePermission>} />
+          <Route path="/horses/:id" element={<RequirePermission permission="horses:read"><HorseDetailPage /></RequirePermission>} />
+          <Route path="/owners" element={<RequirePermission permission="owners:read"><OwnersPage /></RequirePermission>} />
+          <Route path="/stalls" element={<RequirePermission permission="operations:read"><StallsPage /></RequirePermission>} />
+          <Route path="/activities" element={<RequirePermission permission="horses:read"><ActivityConsolePage /></RequirePermission>} />
+          <Route path="/floor-plan" element={<RequirePermission permission="operations:read"><FloorPlanPage /></RequirePermission>} />
+          <Route path="/races" element={<RequirePermission permission="races:read"><RacesPage /></RequirePermission>} />
+          <Route path="/veterinary" element={<RequirePermission permission="vet:read"><VeterinaryPage /></RequirePermission>} />
+          <Route path="/drug-testing" element={<RequirePermission permission="vet:read"><DrugTestingPage /></RequirePermission>} />
+          <Route path="/data-grid" element={<RequirePermission permission="horses:bulk"><DataGridPage /></RequirePermission>} />
+          <Route path="/reports" element={<RequirePermission permission="reports:read"><ReportsPage /></RequirePermission>} />
+          <Route path="/season-management" element={<RequirePermission permission="seasons:manage"><SeasonManagementPage /></RequirePermission>} />
+          <Route path="/users" element={<RequirePermission permission="users:manage"><UsersPage /></RequirePermission>} />
+          <Route path="/audit" element={<RequirePermission permission="audit:read"><AuditLogPage /></RequirePermission>} />
+          <Route path="/backup" element={<RequirePermission permission="backup:manage"><BackupRestorePage /></RequirePermission>} />
+          <Route path="*" element={<NotFound />} />
+        </Routes>
+      </Layout>
+    </SeasonProvider>
   );
 }
 
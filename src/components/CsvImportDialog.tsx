@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import {
+  commitImport,
+  IMPORT_COLUMNS,
+  ImportAction,
+  importErrorsCsv,
+  ImportPlan,
+  ImportRowPlan,
+  ParsedImportFile,
+  parseImportFile,
+  planImport,
+  REQUIRED_COLUMNS
+} from '@/lib/csvImport';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  skip: 'No change'
+};
+
+const ACTION_VARIANTS: Record<ImportAction, 'default' | 'secondary' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  skip: 'outline'
+};
+
+const describeCounts = (counts: Record<ImportAction, number>) =>
+  `${counts.create} new, ${counts.update} updated, ${counts.skip} unchanged`;
+
+function ActionCell({ action, label }: { action?: ImportAction; label?: string }) {
+  if (!action) return <span className="text-muted-foreground">—</span>;
+  return (
+    <div className="flex items-center gap-2">
+      <Badge variant={ACTION_VARIANTS[action]}>{ACTION_LABELS[action]}</Badge>
+      <span>{label}</span>
+    </div>
+  );
+}
+
+function placementLabel(row: ImportRowPlan): string | undefined {
+  if (!row.placement) return undefined;
+  const { location, stall } = row.placement;
+  return stall ? `${location.name} · Stall ${stall.stall_number}` : location.name;
+}
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+// Horse and owner CSV import: upload, review the dry run, then import everything or nothing
+export function CsvImportDialog({ open, onOpenChange, onImported }: CsvImportDialogProps) {
+  const { user } = useAuth();
+  const { activeSeason, activeRacetrack } = useSeason();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const context = { season: activeSeason ?? undefined, racetrack: activeRacetrack ?? undefined, userId: user?.id ?? 0 };
+
+  useEffect(() => {
+    if (open) return;
+    setFile(null);
+    setParsed(null);
+    setPlan(null);
+    setFileError(null);
+  }, [open]);
+
+  const handleFile = async (selected: File | null) => {
+    setFile(selected);
+    setParsed(null);
+    setPlan(null);
+    setFileError(null);
+    if (!selected) return;
+
+    setIsWorking(true);
+    try {
+      const parsedFile = parseImportFile(await selected.text());
+      setParsed(parsedFile);
+      setPlan(await planImport(parsedFile, context));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setFileError(error instanceof Error ? error.message : 'Failed to read CSV file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const downloadErrors = () => {
+    if (!parsed || !plan) return;
+    const blob = new Blob([importErrorsCsv(parsed, plan)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${(file?.name ?? 'import').replace(/\.csv$/i, '')}-errors.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setIsWorking(true);
+    try {
+      const result = await commitImport(parsed, context);
+      toast({
+        title: "Import Complete",
+        description: `Horses: ${describeCounts(result.horses)}. Owners: ${describeCounts(result.owners)}.`,
+      });
+      onOpenChange(false);
+      onImported?.();
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      toast({
+        title: "Import Error",
+        description: error instanceof Error ? error.message : 'Failed to import CSV data',
+        variant: "destructive"
+      });
+      // Show what changed since the preview, if that is what stopped the import
+      setPlan(await planImport(parsed, context).catch(() => plan));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const optionalColumns = IMPORT_COLUMNS.filter(column => !REQUIRED_COLUMNS.includes(column));
+  const canImport = !!plan && plan.errorRows === 0 && !isWorking;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Horses and Owners</DialogTitle>
+          <DialogDescription>
+            Importing into {activeRacetrack?.name ?? 'no racetrack'} - {activeSeason?.name ?? 'no season'}.
+            Nothing is saved until you review the preview and import; if any row has an error, nothing is imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv"
+              onChange={(e) => handleFile(e.target.files?.[0] || null)}
+              className="cursor-pointer"
+            />
+          </div>
+
+          {!parsed && !fileError && (
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p><span className="font-medium">Required columns:</span> {REQUIRED_COLUMNS.join(', ')}</p>
+              <p><span className="font-medium">Optional:</span> {optionalColumns.join(', ')}</p>
+              <p>
+                Column names are matched without regard to case or punctuation, so HorseName works for horse_name.
+                Owners are matched by email. Horses are matched by tracking_id, or by name and owner within the season.
+                New horses need a gender; status defaults to active. A location places the horse there, in the given
+                stall or the first free one.
+              </p>
+            </div>
+          )}
+
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+
+          {isWorking && !plan && (
+            <div className="flex items-center justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          )}
+
+          {plan && (
+            <>
+              <div className="grid gap-2 text-sm md:grid-cols-2">
+                <p><strong>Horses:</strong> {describeCounts(plan.horses)}</p>
+                <p><strong>Owners:</strong> {describeCounts(plan.owners)}</p>
+                <p><strong>Location assignments:</strong> {plan.placements}</p>
+                <p className={plan.errorRows > 0 ? 'text-destructive font-medium' : ''}>
+                  <strong>Rows with errors:</strong> {plan.errorRows} of {plan.rows.length}
+                </p>
+                {plan.ignoredColumns.length > 0 && (
+                  <p className="md:col-span-2 text-muted-foreground">Ignored columns: {plan.ignoredColumns.join(', ')}</p>
+                )}
+              </div>
+
+              <div className="border rounded max-h-[45vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Owner</TableHead>
+                      <TableHead>Horse</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.rows.map(row => (
+                      <TableRow key={row.row} className={row.errors.length > 0 ? 'bg-destructive/5' : ''}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell><ActionCell action={row.owner?.action} label={row.owner?.name} /></TableCell>
+                        <TableCell>
+                          <ActionCell
+                            action={row.horse?.action}
+                            label={row.horse && `${row.horse.name}${row.horse.tracking_id ? ` (${row.horse.tracking_id})` : ''}`}
+                          />
+                        </TableCell>
+                        <TableCell>{placementLabel(row) ?? <span className="text-muted-foreground">—</span>}</TableCell>
+                        <TableCell className="text-destructive text-sm">
+                          {row.errors.map((error, index) => <p key={index}>{error}</p>)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {plan && plan.errorRows > 0 && (
+            <Button variant="outline" onClick={downloadErrors}>
+              <Download className="h-4 w-4 mr-2" />
+              Download Errors
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            {isWorking && plan ? 'Importing...' : plan ? `Import ${plan.rows.length} Rows` : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
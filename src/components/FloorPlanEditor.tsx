@@ -0,0 +1,331 @@
+import React, { useRef, useState } from 'react';
+import { FloorPlan, FloorPlanShape, Location, Stall } from '@/lib/database';
+import {
+  buildDefaultFloorPlan,
+  cleanFloorPlan,
+  DEFAULT_SHAPE_SIZE,
+  GRID_SIZE,
+  getUnplacedStalls,
+  newShapeKey,
+  saveFloorPlan,
+  SHAPE_KIND_LABELS,
+  snapToGrid,
+  toPlanPoint,
+  ZONE_CLASSES
+} from '@/lib/floorPlan';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Save, Trash2, RotateCcw, LayoutGrid } from 'lucide-react';
+
+interface FloorPlanEditorProps {
+  location: Location;
+  stalls: Stall[]; // Stalls in this location
+  locations: Location[]; // Candidates for zone links
+  onSaved: () => void;
+}
+
+const NO_LINK = 'none';
+
+export function FloorPlanEditor({ location, stalls, locations, onSaved }: FloorPlanEditorProps) {
+  const { toast } = useToast();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const initialPlan = () => location.floor_plan
+    ? cleanFloorPlan(location.floor_plan, stalls, locations)
+    : buildDefaultFloorPlan(location, stalls);
+  const [plan, setPlan] = useState<FloorPlan>(initialPlan);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [dragOffset, setDragOffset] = useState<{ dx: number; dy: number } | null>(null);
+  const [stallToAdd, setStallToAdd] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = plan.shapes.find(s => s.key === selectedKey);
+  const unplacedStalls = getUnplacedStalls(plan, stalls);
+  const stallNumber = (stallId?: number) => stalls.find(s => s.id === stallId)?.stall_number ?? '?';
+  const linkableLocations = locations.filter(l => l.id !== location.id);
+
+  const updateShape = (key: string, changes: Partial<FloorPlanShape>) => {
+    setPlan(current => ({
+      ...current,
+      shapes: current.shapes.map(s => s.key === key ? { ...s, ...changes } : s)
+    }));
+  };
+
+  const addShape = (kind: FloorPlanShape['kind'], stallId?: number) => {
+    const size = DEFAULT_SHAPE_SIZE[kind];
+    const shape: FloorPlanShape = {
+      key: newShapeKey(),
+      kind,
+      x: 0,
+      y: 0,
+      width: Math.min(size.width, plan.width),
+      height: Math.min(size.height, plan.height),
+      stall_id: stallId,
+      label: kind === 'stall' ? undefined : SHAPE_KIND_LABELS[kind]
+    };
+    setPlan(current => ({ ...current, shapes: [...current.shapes, shape] }));
+    setSelectedKey(shape.key);
+  };
+
+  const removeSelected = () => {
+    if (!selectedKey) return;
+    setPlan(current => ({ ...current, shapes: current.shapes.filter(s => s.key !== selectedKey) }));
+    setSelectedKey(null);
+  };
+
+  const startDrag = (event: React.PointerEvent, shape: FloorPlanShape) => {
+    if (!svgRef.current) return;
+    event.stopPropagation();
+    svgRef.current.setPointerCapture(event.pointerId);
+    const point = toPlanPoint(svgRef.current, event.clientX, event.clientY);
+    setSelectedKey(shape.key);
+    setDragOffset({ dx: point.x - shape.x, dy: point.y - shape.y });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (!dragOffset || !selected || !svgRef.current) return;
+    const point = toPlanPoint(svgRef.current, event.clientX, event.clientY);
+    updateShape(selected.key, {
+      x: Math.min(Math.max(0, snapToGrid(point.x - dragOffset.dx)), plan.width - selected.width),
+      y: Math.min(Math.max(0, snapToGrid(point.y - dragOffset.dy)), plan.height - selected.height)
+    });
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await saveFloorPlan(location.id!, plan);
+      toast({
+        title: "Success",
+        description: `Floor plan for ${location.name} saved`,
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Error saving floor plan:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save floor plan',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Zones render first so stalls stay on top
+  const orderedShapes = [...plan.shapes].sort((a, b) => (a.kind === 'stall' ? 1 : 0) - (b.kind === 'stall' ? 1 : 0));
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr_18rem]">
+      <Card>
+        <CardHeader>
+          <CardTitle>Layout: {location.name}</CardTitle>
+          <CardDescription>Drag shapes to arrange them; positions snap to a {GRID_SIZE}-unit grid</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-auto border rounded-md bg-background">
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${plan.width} ${plan.height}`}
+              width={plan.width}
+              height={plan.height}
+              className="touch-none select-none"
+              onPointerMove={moveDrag}
+              onPointerUp={() => setDragOffset(null)}
+              onPointerDown={() => setSelectedKey(null)}
+            >
+              <defs>
+                <pattern id="floor-plan-grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse">
+                  <path d={`M ${GRID_SIZE} 0 L 0 0 0 ${GRID_SIZE}`} fill="none" className="stroke-border" strokeWidth={0.5} />
+                </pattern>
+              </defs>
+              <rect width={plan.width} height={plan.height} fill="url(#floor-plan-grid)" />
+              {orderedShapes.map(shape => (
+                <g key={shape.key} onPointerDown={(e) => startDrag(e, shape)} className="cursor-move">
+                  <rect
+                    x={shape.x}
+                    y={shape.y}
+                    width={shape.width}
+                    height={shape.height}
+                    rx={shape.kind === 'stall' ? 4 : 8}
+                    className={shape.kind === 'stall' ? 'fill-card stroke-foreground' : ZONE_CLASSES[shape.kind]}
+                    strokeWidth={shape.key === selectedKey ? 3 : 1}
+                    strokeDasharray={shape.key === selectedKey ? '6 3' : undefined}
+                  />
+                  <text
+                    x={shape.x + shape.width / 2}
+                    y={shape.y + shape.height / 2}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="fill-foreground text-xs pointer-events-none"
+                  >
+                    {shape.kind === 'stall' ? stallNumber(shape.stall_id) : shape.label}
+                  </text>
+                </g>
+              ))}
+            </svg>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {stalls.length > 0 && (
+              <div className="flex gap-2">
+                <Select value={stallToAdd} onValueChange={setStallToAdd}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={unplacedStalls.length > 0 ? 'Unplaced stall' : 'All stalls placed'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unplacedStalls.map(stall => (
+                      <SelectItem key={stall.id} value={stall.id!.toString()}>Stall {stall.stall_number}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  disabled={!stallToAdd}
+                  onClick={() => {
+                    addShape('stall', parseInt(stallToAdd));
+                    setStallToAdd('');
+                  }}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+              {(['paddock', 'track', 'aisle'] as const).map(kind => (
+                <Button key={kind} variant="outline" size="sm" onClick={() => addShape(kind)}>
+                  {SHAPE_KIND_LABELS[kind].replace(' Zone', '')}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {selected ? (selected.kind === 'stall' ? `Stall ${stallNumber(selected.stall_id)}` : SHAPE_KIND_LABELS[selected.kind]) : 'Plan'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selected ? (
+              <>
+                {selected.kind !== 'stall' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="shape-label">Label</Label>
+                    <Input
+                      id="shape-label"
+                      value={selected.label ?? ''}
+                      onChange={(e) => updateShape(selected.key, { label: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="shape-width">Width</Label>
+                    <Input
+                      id="shape-width"
+                      type="number"
+                      min={GRID_SIZE}
+                      step={GRID_SIZE}
+                      value={selected.width}
+                      onChange={(e) => updateShape(selected.key, { width: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="shape-height">Height</Label>
+                    <Input
+                      id="shape-height"
+                      type="number"
+                      min={GRID_SIZE}
+                      step={GRID_SIZE}
+                      value={selected.height}
+                      onChange={(e) => updateShape(selected.key, { height: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+                {(selected.kind === 'paddock' || selected.kind === 'track') && (
+                  <div className="space-y-2">
+                    <Label>Links to location</Label>
+                    <Select
+                      value={selected.location_id?.toString() ?? NO_LINK}
+                      onValueChange={(value) => updateShape(selected.key, {
+                        location_id: value === NO_LINK ? undefined : parseInt(value)
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_LINK}>{location.name} (this location)</SelectItem>
+                        {linkableLocations.map(l => (
+                          <SelectItem key={l.id} value={l.id!.toString()}>{l.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Horses dropped here on the live map move to this location</p>
+                  </div>
+                )}
+                <Button variant="outline" size="sm" onClick={removeSelected}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove from plan
+                </Button>
+              </>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="plan-width">Width</Label>
+                  <Input
+                    id="plan-width"
+                    type="number"
+                    min={100}
+                    step={GRID_SIZE}
+                    value={plan.width}
+                    onChange={(e) => setPlan({ ...plan, width: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plan-height">Height</Label>
+                  <Input
+                    id="plan-height"
+                    type="number"
+                    min={100}
+                    step={GRID_SIZE}
+                    value={plan.height}
+                    onChange={(e) => setPlan({ ...plan, height: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={save} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Layout
+          </Button>
+          <Button variant="outline" onClick={() => { setPlan(initialPlan()); setSelectedKey(null); }}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Revert
+          </Button>
+          <Button variant="outline" onClick={() => { setPlan(buildDefaultFloorPlan(location, stalls)); setSelectedKey(null); }}>
+            <LayoutGrid className="h-4 w-4 mr-2" />
+            Auto Layout
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
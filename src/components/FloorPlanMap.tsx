@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { FloorPlan, FloorPlanShape, Horse, Location, Stall } from '@/lib/database';
+import { StatusColor } from '@/lib/horseStatus';
+import { findShapeAt, getZoneLocationId, toPlanPoint, ZONE_CLASSES } from '@/lib/floorPlan';
+
+export interface MapHorse {
+  horse: Horse;
+  status: StatusColor;
+  statusText: string;
+}
+
+interface FloorPlanMapProps {
+  location: Location;
+  plan: FloorPlan;
+  stalls: Stall[];
+  stallOccupants: Map<number, MapHorse>; // Keyed by stall id
+  locationOccupants: Map<number, MapHorse[]>; // Horses without a stall, keyed by location id
+  canMove: boolean;
+  onMove: (horse: Horse, target: FloorPlanShape) => void;
+}
+
+const STATUS_CLASSES: Record<StatusColor, string> = {
+  green: 'fill-green-200 stroke-green-600',
+  yellow: 'fill-amber-200 stroke-amber-600',
+  red: 'fill-red-200 stroke-red-600',
+  grey: 'fill-gray-200 stroke-gray-500'
+};
+
+const MARKER_RADIUS = 12;
+
+const initials = (name: string) => name.split(/\s+/).map(part => part[0]).join('').slice(0, 2).toUpperCase();
+
+export function FloorPlanMap({ location, plan, stalls, stallOccupants, locationOccupants, canMove, onMove }: FloorPlanMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<{ horse: Horse; fromKey: string; x: number; y: number } | null>(null);
+
+  const dropTarget = drag ? findShapeAt(plan, drag.x, drag.y) : undefined;
+  const stallFor = (shape: FloorPlanShape) => stalls.find(s => s.id === shape.stall_id);
+
+  const startDrag = (event: React.PointerEvent, horse: Horse, shape: FloorPlanShape) => {
+    if (!canMove || !svgRef.current) return;
+    svgRef.current.setPointerCapture(event.pointerId);
+    setDrag({ horse, fromKey: shape.key, ...toPlanPoint(svgRef.current, event.clientX, event.clientY) });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (!drag || !svgRef.current) return;
+    setDrag({ ...drag, ...toPlanPoint(svgRef.current, event.clientX, event.clientY) });
+  };
+
+  const endDrag = () => {
+    if (!drag) return;
+    if (dropTarget && dropTarget.key !== drag.fromKey) onMove(drag.horse, dropTarget);
+    setDrag(null);
+  };
+
+  const renderStall = (shape: FloorPlanShape) => {
+    const stall = stallFor(shape);
+    const occupant = stall ? stallOccupants.get(stall.id!) : undefined;
+    const className = stall?.out_of_service
+      ? 'fill-muted stroke-muted-foreground'
+      : occupant ? STATUS_CLASSES[occupant.status] : 'fill-card stroke-border';
+
+    return (
+      <g
+        key={shape.key}
+        onPointerDown={occupant ? (e) => startDrag(e, occupant.horse, shape) : undefined}
+        className={occupant && canMove ? 'cursor-grab' : undefined}
+      >
+        <title>
+          {`Stall ${stall?.stall_number}`}
+          {occupant ? `\n${occupant.horse.name}: ${occupant.statusText}` : stall?.out_of_service ? `\nOut of service${stall.out_of_service_reason ? `: ${stall.out_of_service_reason}` : ''}` : '\nVacant'}
+        </title>
+        <rect
+          x={shape.x}
+          y={shape.y}
+          width={shape.width}
+          height={shape.height}
+          rx={4}
+          className={className}
+          strokeWidth={dropTarget?.key === shape.key ? 3 : 1}
+          strokeDasharray={stall?.out_of_service ? '4 2' : undefined}
+        />
+        <text x={shape.x + 4} y={shape.y + 12} className="fill-muted-foreground text-[10px] pointer-events-none">
+          {stall?.stall_number}
+        </text>
+        {occupant && (
+          <text
+            x={shape.x + shape.width / 2}
+            y={shape.y + shape.height / 2 + 6}
+            textAnchor="middle"
+            className="fill-foreground text-xs font-medium pointer-events-none"
+          >
+            {initials(occupant.horse.name)}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const renderZone = (shape: FloorPlanShape) => {
+    const zoneLocationId = getZoneLocationId(location, shape);
+    const horses = zoneLocationId ? locationOccupants.get(zoneLocationId) ?? [] : [];
+    const perRow = Math.max(1, Math.floor((shape.width - 8) / (MARKER_RADIUS * 2 + 4)));
+
+    return (
+      <g key={shape.key}>
+        <rect
+          x={shape.x}
+          y={shape.y}
+          width={shape.width}
+          height={shape.height}
+          rx={8}
+          className={ZONE_CLASSES[shape.kind as keyof typeof ZONE_CLASSES]}
+          strokeWidth={dropTarget?.key === shape.key ? 3 : 1}
+        />
+        <text x={shape.x + 6} y={shape.y + 14} className="fill-muted-foreground text-xs pointer-events-none">
+          {shape.label}{horses.length > 0 ? ` (${horses.length})` : ''}
+        </text>
+        {horses.map((entry, index) => {
+          const cx = shape.x + 8 + MARKER_RADIUS + (index % perRow) * (MARKER_RADIUS * 2 + 4);
+          const cy = shape.y + 22 + MARKER_RADIUS + Math.floor(index / perRow) * (MARKER_RADIUS * 2 + 4);
+          if (cy + MARKER_RADIUS > shape.y + shape.height) return null; // Count in the label covers the overflow
+          return (
+            <g
+              key={entry.horse.id}
+              onPointerDown={(e) => startDrag(e, entry.horse, shape)}
+              className={canMove ? 'cursor-grab' : undefined}
+            >
+              <title>{`${entry.horse.name}: ${entry.statusText}`}</title>
+              <circle cx={cx} cy={cy} r={MARKER_RADIUS} className={STATUS_CLASSES[entry.status]} />
+              <text x={cx} y={cy + 4} textAnchor="middle" className="fill-foreground text-[10px] pointer-events-none">
+                {initials(entry.horse.name)}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+
+  return (
+    <div className="overflow-auto border rounded-md bg-background">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${plan.width} ${plan.height}`}
+        width={plan.width}
+        height={plan.height}
+        className="touch-none select-none"
+        onPointerMove={moveDrag}
+        onPointerUp={endDrag}
+        onPointerCancel={() => setDrag(null)}
+      >
+        {plan.shapes.filter(s => s.kind !== 'stall').map(renderZone)}
+        {plan.shapes.filter(s => s.kind === 'stall').map(renderStall)}
+        {drag && (
+          <g className="pointer-events-none">
+            <circle cx={drag.x} cy={drag.y} r={MARKER_RADIUS + 2} className="fill-primary opacity-70" />
+            <text x={drag.x} y={drag.y - MARKER_RADIUS - 6} textAnchor="middle" className="fill-foreground text-xs font-medium">
+              {drag.horse.name}
+            </text>
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+}
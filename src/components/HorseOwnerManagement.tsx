@@ -8,7 +8,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
+import { ToastAction } from '@/components/ui/toast';
+import { RecentlyRemoved } from '@/components/RecentlyRemoved';
+import { RemovalConfirmDialog } from '@/components/RemovalConfirmDialog';
+import { CsvImportDialog } from '@/components/CsvImportDialog';
+import { restoreHorses, restoreOwners, isActive } from '@/lib/archive';
+import { removeRecords } from '@/lib/dataService';
+import { generateTrackingId } from '@/lib/horses';
 import { Plus, Trash2, Upload, Download, AlertTriangle } from 'lucide-react';
+import { useSeason } from '@/contexts/SeasonContext';
 import { useToast } from '@/hooks/use-toast';
 import Papa from 'papaparse';
 
@@ -20,6 +28,7 @@ interface BulkOperation {
 
 export function HorseOwnerManagement() {
   const { toast } = useToast();
+  const { activeSeason } = useSeason();
   const [horses, setHorses] = useState<Horse[]>([]);
   const [owners, setOwners] = useState<Owner[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
@@ -28,8 +37,9 @@ export function HorseOwnerManagement() {
   const [isAddHorseDialogOpen, setIsAddHorseDialogOpen] = useState(false);
   const [isAddOwnerDialogOpen, setIsAddOwnerDialogOpen] = useState(false);
   const [isBulkDialogOpen, setIsBulkDialogOpen] = useState(false);
-  const [bulkFile, setBulkFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [removedVersion, setRemovedVersion] = useState(0);
+  const [pendingRemoval, setPendingRemoval] = useState<{ table: 'horses' | 'owners'; ids: number[] } | null>(null);
 
   // Form states
   const [newHorse, setNewHorse] = useState<Partial<Horse>>({
@@ -53,13 +63,14 @@ export function HorseOwnerManagement() {
   const loadData = async () => {
     try {
       const [horsesData, ownersData, locationsData] = await Promise.all([
-        db.horses.toArray(),
-        db.owners.toArray(),
+        db.horses.filter(isActive).toArray(),
+        db.owners.filter(isActive).toArray(),
         db.locations.toArray()
       ]);
       setHorses(horsesData);
       setOwners(ownersData);
       setLocations(locationsData);
+      setRemovedVersion(v => v + 1);
     } catch (error) {
       console.error('Error loading data:', error);
       toast({
@@ -74,29 +85,6 @@ export function HorseOwnerManagement() {
     loadData();
   }, []);
 
-  // Generate unique tracking ID for horses
-  const generateTrackingId = async (): Promise<string> => {
-    const year = new Date().getFullYear();
-    let attempts = 0;
-
-    while (attempts < 100) {
-      attempts++;
-      const randomNum = Math.floor(Math.random() * 9999) + 1;
-      const trackingId = `DM${year}${String(randomNum).padStart(4, '0')}`;
-
-      const existing = await db.horses
-        .where('tracking_id')
-        .equals(trackingId)
-        .first();
-
-      if (!existing) {
-        return trackingId;
-      }
-    }
-
-    throw new Error('Failed to generate unique tracking ID after 100 attempts');
-  };
-
   // Validate unique email for owners
   const validateOwnerEmail = async (email: string, excludeId?: number): Promise<boolean> => {
     const existing = await db.owners.where('email').equals(email).first();
@@ -120,6 +108,7 @@ export function HorseOwnerManagement() {
       const horseData: Omit<Horse, 'id'> = {
         ...newHorse as Horse,
         tracking_id: trackingId,
+        season_id: activeSeason?.id,
         created_at: new Date(),
         updated_at: new Date()
       };
@@ -169,9 +158,12 @@ export function HorseOwnerManagement() {
     try {
       const isEmailUnique = await validateOwnerEmail(newOwner.email!);
       if (!isEmailUnique) {
+        const existing = await db.owners.where('email').equals(newOwner.email!).first();
         toast({
           title: "Validation Error",
-          description: "Email address already exists",
+          description: existing && !isActive(existing)
+            ? "Email address belongs to a removed owner. Restore them from Recently Removed instead."
+            : "Email address already exists",
           variant: "destructive"
         });
         return;
@@ -209,16 +201,19 @@ export function HorseOwnerManagement() {
     }
   };
 
-  // Delete selected horses
-  const deleteSelectedHorses = async () => {
-    if (selectedHorses.length === 0) return;
-
+  // Archive selected horses once the removal preview is confirmed
+  const deleteSelectedHorses = async (removedIds: number[]) => {
     setIsLoading(true);
     try {
-      await db.horses.bulkDelete(selectedHorses);
+      await removeRecords('horses', removedIds, 'archive');
       toast({
         title: "Success",
-        description: `${selectedHorses.length} horse(s) deleted successfully`,
+        description: `${removedIds.length} horse(s) removed`,
+        action: (
+          <ToastAction altText="Undo remove" onClick={() => restoreHorses(removedIds).then(loadData)}>
+            Undo
+          </ToastAction>
+        )
       });
       setSelectedHorses([]);
       loadData();
@@ -226,7 +221,7 @@ export function HorseOwnerManagement() {
       console.error('Error deleting horses:', error);
       toast({
         title: "Error",
-        description: "Failed to delete horses",
+        description: error instanceof Error ? error.message : "Failed to remove horses",
         variant: "destructive"
       });
     } finally {
@@ -234,31 +229,19 @@ export function HorseOwnerManagement() {
     }
   };
 
-  // Delete selected owners
-  const deleteSelectedOwners = async () => {
-    if (selectedOwners.length === 0) return;
-
-    // Check if any selected owners have horses
-    const ownersWithHorses = owners.filter(owner => 
-      selectedOwners.includes(owner.id!) && 
-      horses.some(horse => horse.owner_id === owner.id)
-    );
-
-    if (ownersWithHorses.length > 0) {
-      toast({
-        title: "Cannot Delete",
-        description: `${ownersWithHorses.length} owner(s) have horses assigned. Remove horses first.`,
-        variant: "destructive"
-      });
-      return;
-    }
-
+  // Archive selected owners; owners that still have horses are blocked by the referential rules
+  const deleteSelectedOwners = async (removedIds: number[]) => {
     setIsLoading(true);
     try {
-      await db.owners.bulkDelete(selectedOwners);
+      await removeRecords('owners', removedIds, 'archive');
       toast({
         title: "Success",
-        description: `${selectedOwners.length} owner(s) deleted successfully`,
+        description: `${removedIds.length} owner(s) removed`,
+        action: (
+          <ToastAction altText="Undo remove" onClick={() => restoreOwners(removedIds).then(loadData)}>
+            Undo
+          </ToastAction>
+        )
       });
       setSelectedOwners([]);
       loadData();
@@ -266,101 +249,7 @@ export function HorseOwnerManagement() {
       console.error('Error deleting owners:', error);
       toast({
         title: "Error",
-        description: "Failed to delete owners",
-        variant: "destructive"
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Handle bulk CSV import
-  const handleBulkImport = async () => {
-    if (!bulkFile) return;
-
-    setIsLoading(true);
-    try {
-      const text = await bulkFile.text();
-      const result = Papa.parse(text, { header: true, skipEmptyLines: true });
-      
-      if (result.errors.length > 0) {
-        toast({
-          title: "CSV Error",
-          description: "Failed to parse CSV file",
-          variant: "destructive"
-        });
-        return;
-      }
-
-      const data = result.data as any[];
-      const newOwners: Omit<Owner, 'id'>[] = [];
-      const newHorses: Omit<Horse, 'id'>[] = [];
-      const ownerEmailMap = new Map<string, number>();
-
-      // First pass: create owners
-      for (const row of data) {
-        if (row.owner_name && row.owner_email && !ownerEmailMap.has(row.owner_email)) {
-          const isEmailUnique = await validateOwnerEmail(row.owner_email);
-          if (isEmailUnique) {
-            const ownerId = await db.owners.add({
-              name: row.owner_name,
-              email: row.owner_email,
-              phone: row.owner_phone || '',
-              address: row.owner_address || '',
-              created_at: new Date(),
-              updated_at: new Date()
-            });
-            ownerEmailMap.set(row.owner_email, ownerId);
-          }
-        }
-      }
-
-      // Second pass: create horses
-      for (const row of data) {
-        if (row.horse_name && row.owner_email) {
-          let ownerId = ownerEmailMap.get(row.owner_email);
-          
-          if (!ownerId) {
-            // Find existing owner
-            const existingOwner = await db.owners.where('email').equals(row.owner_email).first();
-            if (existingOwner) {
-              ownerId = existingOwner.id!;
-            }
-          }
-
-          if (ownerId) {
-            const trackingId = await generateTrackingId();
-            await db.horses.add({
-              tracking_id: trackingId,
-              name: row.horse_name,
-              registration_number: row.registration_number || '',
-              breed: row.breed || '',
-              color: row.color || '',
-              age: row.age ? parseInt(row.age) : undefined,
-              gender: row.gender || 'gelding',
-              owner_id: ownerId,
-              status: row.status || 'active',
-              current_activity: row.current_activity || '',
-              created_at: new Date(),
-              updated_at: new Date()
-            });
-          }
-        }
-      }
-
-      toast({
-        title: "Success",
-        description: "Bulk import completed successfully",
-      });
-      
-      setIsBulkDialogOpen(false);
-      setBulkFile(null);
-      loadData();
-    } catch (error) {
-      console.error('Error during bulk import:', error);
-      toast({
-        title: "Error",
-        description: "Failed to import data",
+        description: error instanceof Error ? error.message : "Failed to remove owners",
         variant: "destructive"
       });
     } finally {
@@ -384,7 +273,7 @@ export function HorseOwnerManagement() {
         gender: horse.gender,
         status: horse.status,
         current_activity: horse.current_activity,
-        current_location: location?.name || '',
+        location: location?.name || '',
         owner_name: owner?.name || '',
         owner_email: owner?.email || '',
         owner_phone: owner?.phone || '',
@@ -418,41 +307,11 @@ export function HorseOwnerManagement() {
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </Button>
-          <Dialog open={isBulkDialogOpen} onOpenChange={setIsBulkDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline">
-                <Upload className="h-4 w-4 mr-2" />
-                Bulk Import
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Bulk Import from CSV</DialogTitle>
-                <DialogDescription>
-                  Upload a CSV file with columns: horse_name, owner_name, owner_email, registration_number, breed, etc.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="bulk-file">CSV File</Label>
-                  <Input
-                    id="bulk-file"
-                    type="file"
-                    accept=".csv"
-                    onChange={(e) => setBulkFile(e.target.files?.[0] || null)}
-                  />
-                </div>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setIsBulkDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleBulkImport} disabled={!bulkFile || isLoading}>
-                  Import
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+          <Button variant="outline" onClick={() => setIsBulkDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Bulk Import
+          </Button>
+          <CsvImportDialog open={isBulkDialogOpen} onOpenChange={setIsBulkDialogOpen} onImported={loadData} />
         </div>
       </div>
 
@@ -594,25 +453,25 @@ export function HorseOwnerManagement() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Trash2 className="h-5 w-5" />
-              Bulk Delete
+              Bulk Remove
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-2">
             <Button 
               variant="destructive" 
               className="w-full" 
-              onClick={deleteSelectedHorses}
+              onClick={() => setPendingRemoval({ table: 'horses', ids: [...selectedHorses] })}
               disabled={selectedHorses.length === 0 || isLoading}
             >
-              Delete {selectedHorses.length} Horse(s)
+              Remove {selectedHorses.length} Horse(s)
             </Button>
             <Button 
               variant="outline" 
               className="w-full" 
-              onClick={deleteSelectedOwners}
+              onClick={() => setPendingRemoval({ table: 'owners', ids: [...selectedOwners] })}
               disabled={selectedOwners.length === 0 || isLoading}
             >
-              Delete {selectedOwners.length} Owner(s)
+              Remove {selectedOwners.length} Owner(s)
             </Button>
           </CardContent>
         </Card>
@@ -691,6 +550,20 @@ export function HorseOwnerManagement() {
           </div>
         </CardContent>
       </Card>
+
+      <RecentlyRemoved refreshKey={removedVersion} onRestored={loadData} />
+
+      <RemovalConfirmDialog
+        open={!!pendingRemoval}
+        onOpenChange={(open) => !open && setPendingRemoval(null)}
+        table={pendingRemoval?.table || 'horses'}
+        ids={pendingRemoval?.ids || []}
+        mode="archive"
+        title={pendingRemoval?.table === 'owners' ? 'Remove Owners' : 'Remove Horses'}
+        onConfirm={() => pendingRemoval!.table === 'owners'
+          ? deleteSelectedOwners(pendingRemoval!.ids)
+          : deleteSelectedHorses(pendingRemoval!.ids)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { format, formatDistanceStrict } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { useLiveData } from '@/hooks/useLiveData';
+import { db, Horse, Incident, IncidentNote, User } from '@/lib/database';
+import {
+  acknowledgeIncident,
+  addIncidentNote,
+  assignIncident,
+  getSlaStatus,
+  INCIDENT_STATUS_LABELS,
+  resolveIncident
+} from '@/lib/incidents';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+const UNASSIGNED = 'unassigned';
+
+interface IncidentDialogProps {
+  incident: Incident | null; // Dialog is open while an incident is set
+  horse?: Horse;
+  users: User[];
+  onClose: () => void;
+}
+
+// Full record of one incident: SLA, assignment, notes and resolution
+export function IncidentDialog({ incident, horse, users, onClose }: IncidentDialogProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [note, setNote] = useState('');
+  const [resolution, setResolution] = useState('');
+  const canManage = can('incidents:manage');
+
+  const { data: notes = [] } = useLiveData(async (): Promise<IncidentNote[]> => incident
+    ? (await db.incident_notes.where('incident_id').equals(incident.id!).sortBy('created_at')).reverse()
+    : [], [incident?.id]);
+
+  useEffect(() => {
+    setNote('');
+    setResolution('');
+  }, [incident?.id]);
+
+  if (!incident) return null;
+
+  const runAction = async (action: () => Promise<unknown>, success: string, close = false) => {
+    try {
+      await action();
+      toast({
+        title: "Success",
+        description: success,
+      });
+      if (close) onClose();
+    } catch (error) {
+      console.error('Error updating incident:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update incident',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const saveNote = () => runAction(async () => {
+    await addIncidentNote(incident.id!, user!.id!, note);
+    setNote('');
+  }, 'Note added');
+
+  const userName = (id?: number) => users.find(u => u.id === id)?.username ?? 'Unknown user';
+  const resolved = incident.status === 'resolved';
+  const sla = getSlaStatus(incident);
+
+  return (
+    <Dialog open={!!incident} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {incident.title}
+            <Badge variant={incident.severity === 'critical' ? 'destructive' : 'secondary'}>{incident.severity}</Badge>
+            <Badge variant="outline">{INCIDENT_STATUS_LABELS[incident.status]}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {horse ? `${horse.name} (${horse.tracking_id})` : `Horse ${incident.horse_id}`} · detected {format(incident.detected_at, 'MMM d, HH:mm')}
+            {incident.cleared_at && ` · no longer detected since ${format(incident.cleared_at, 'MMM d, HH:mm')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div>
+            <p>{incident.details}</p>
+            <p className="text-muted-foreground mt-1">{incident.remediation}</p>
+          </div>
+
+          <div className="grid gap-2 md:grid-cols-2">
+            <p>
+              <strong>SLA:</strong>{' '}
+              {sla.stage === 'done'
+                ? (sla.breached ? 'Missed' : 'Met')
+                : `${sla.stage === 'acknowledge' ? 'Acknowledge' : 'Resolve'} by ${format(sla.due_at, 'MMM d, HH:mm')}${sla.breached ? ' (overdue)' : ''}`}
+            </p>
+            {incident.acknowledged_at && (
+              <p>
+                <strong>Acknowledged:</strong> {userName(incident.acknowledged_by)} after {formatDistanceStrict(incident.detected_at, incident.acknowledged_at)}
+              </p>
+            )}
+            {resolved && (
+              <p>
+                <strong>Resolved:</strong> {userName(incident.resolved_by)} after {formatDistanceStrict(incident.detected_at, incident.resolved_at!)}
+              </p>
+            )}
+            {resolved && <p className="md:col-span-2"><strong>Resolution:</strong> {incident.resolution}</p>}
+          </div>
+
+          {!resolved && (
+            <div className="space-y-2">
+              <Label>Assigned To</Label>
+              <Select
+                value={incident.assigned_to?.toString() ?? UNASSIGNED}
+                onValueChange={(value) => runAction(
+                  () => assignIncident(incident.id!, value === UNASSIGNED ? undefined : parseInt(value)),
+                  value === UNASSIGNED ? 'Incident unassigned' : `Assigned to ${userName(parseInt(value))}`
+                )}
+                disabled={!canManage}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {users.map(u => (
+                    <SelectItem key={u.id} value={u.id!.toString()}>{u.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            {canManage && (
+              <div className="flex gap-2">
+                <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="What has been done so far..." rows={2} />
+                <Button variant="outline" onClick={saveNote} disabled={!note.trim()}>Add</Button>
+              </div>
+            )}
+            {notes.length === 0 ? (
+              <p className="text-muted-foreground">No notes yet.</p>
+            ) : (
+              <div className="divide-y border rounded">
+                {notes.map(n => (
+                  <div key={n.id} className="p-2">
+                    <p>{n.note}</p>
+                    <p className="text-xs text-muted-foreground">{userName(n.user_id)} · {format(n.created_at, 'MMM d, HH:mm')}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {!resolved && canManage && (
+            <div className="space-y-2">
+              <Label htmlFor="resolution">Resolution</Label>
+              <Textarea
+                id="resolution"
+                value={resolution}
+                onChange={(e) => setResolution(e.target.value)}
+                placeholder="How was the problem resolved?"
+                rows={2}
+              />
+              {!incident.cleared_at && (
+                <p className="text-xs text-muted-foreground">
+                  The problem is still being detected. If it has not been fixed, a new incident opens as soon as this one is resolved.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          {!resolved && canManage && !incident.acknowledged_at && (
+            <Button variant="outline" onClick={() => runAction(() => acknowledgeIncident(incident.id!, user!.id!), 'Incident acknowledged')}>
+              Acknowledge
+            </Button>
+          )}
+          {!resolved && canManage && (
+            <Button
+              onClick={() => runAction(() => resolveIncident(incident.id!, user!.id!, resolution), 'Incident resolved', true)}
+              disabled={!resolution.trim()}
+            >
+              Resolve
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
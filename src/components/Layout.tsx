@@ -1,8 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { Permission } from '@/lib/permissions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ChangePasswordForm } from '@/components/ChangePasswordForm';
+import { SyncStatusBadge } from '@/components/SyncStatusBadge';
+import { useToast } from '@/hooks/use-toast';
 import { 
   House as Horse, 
   LogOut, 
@@ -14,7 +22,16 @@ import {
   Database,
   FileText,
   Activity,
-  Settings
+  Settings,
+  KeyRound,
+  UserCog,
+  ScrollText,
+  Stethoscope,
+  FlaskConical,
+  Warehouse,
+  Map as MapIcon,
+  Timer,
+  DatabaseBackup
 } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
@@ -25,23 +42,33 @@ interface LayoutProps {
 
 export function Layout({ children }: LayoutProps) {
   const { user, logout } = useAuth();
+  const { seasons, racetracks, activeSeason, setActiveSeasonId } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
   const location = useLocation();
 
-  const navigation = [
-    { name: 'Dashboard', href: '/', icon: Home, roles: ['admin', 'owner', 'viewer'] },
-    { name: 'Command Center', href: '/command', icon: Activity, roles: ['admin', 'viewer'] },
-    { name: 'Problems', href: '/problems', icon: AlertTriangle, roles: ['admin', 'viewer'] },
-    { name: 'Horses', href: '/horses', icon: Horse, roles: ['admin', 'owner', 'viewer'] },
-    { name: 'Owners', href: '/owners', icon: Users, roles: ['admin'] },
-    { name: 'Races', href: '/races', icon: Calendar, roles: ['admin', 'viewer'] },
-    { name: 'Data Grid', href: '/data-grid', icon: Database, roles: ['admin'] },
-    { name: 'Reports', href: '/reports', icon: FileText, roles: ['admin', 'owner', 'viewer'] },
-    { name: 'Season Management', href: '/season-management', icon: Settings, roles: ['admin'] },
+  const navigation: { name: string; href: string; icon: typeof Home; permission: Permission }[] = [
+    { name: 'Dashboard', href: '/', icon: Home, permission: 'dashboard:read' },
+    { name: 'Command Center', href: '/command', icon: Activity, permission: 'operations:read' },
+    { name: 'Problems', href: '/problems', icon: AlertTriangle, permission: 'operations:read' },
+    { name: 'Horses', href: '/horses', icon: Horse, permission: 'horses:read' },
+    { name: 'Owners', href: '/owners', icon: Users, permission: 'owners:read' },
+    { name: 'Activities', href: '/activities', icon: Timer, permission: 'horses:read' },
+    { name: 'Stalls', href: '/stalls', icon: Warehouse, permission: 'operations:read' },
+    { name: 'Floor Plan', href: '/floor-plan', icon: MapIcon, permission: 'operations:read' },
+    { name: 'Races', href: '/races', icon: Calendar, permission: 'races:read' },
+    { name: 'Veterinary', href: '/veterinary', icon: Stethoscope, permission: 'vet:read' },
+    { name: 'Drug Testing', href: '/drug-testing', icon: FlaskConical, permission: 'vet:read' },
+    { name: 'Data Grid', href: '/data-grid', icon: Database, permission: 'horses:bulk' },
+    { name: 'Reports', href: '/reports', icon: FileText, permission: 'reports:read' },
+    { name: 'Season Management', href: '/season-management', icon: Settings, permission: 'seasons:manage' },
+    { name: 'Users', href: '/users', icon: UserCog, permission: 'users:manage' },
+    { name: 'Audit Log', href: '/audit', icon: ScrollText, permission: 'audit:read' },
+    { name: 'Backup & Restore', href: '/backup', icon: DatabaseBackup, permission: 'backup:manage' },
   ];
 
-  const filteredNavigation = navigation.filter(item => 
-    item.roles.includes(user?.role || 'viewer')
-  );
+  const filteredNavigation = navigation.filter(item => can(item.permission));
 
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
@@ -66,10 +93,52 @@ export function Layout({ children }: LayoutProps) {
           </div>
           
           <div className="ml-auto flex items-center space-x-4">
+            <Select
+              value={activeSeason?.id?.toString() || ''}
+              onValueChange={(value) => setActiveSeasonId(parseInt(value))}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id!.toString()}>
+                    {racetracks.find(r => r.id === season.racetrack_id)?.name || 'Unknown'} - {season.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <SyncStatusBadge />
             <Badge variant={getRoleBadgeVariant(user?.role || '')}>
               {user?.role?.toUpperCase()}
             </Badge>
             <span className="text-sm text-muted-foreground">{user?.username}</span>
+            <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Password
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Change Password</DialogTitle>
+                  <DialogDescription>
+                    Other signed-in sessions for your account will be signed out.
+                  </DialogDescription>
+                </DialogHeader>
+                <ChangePasswordForm
+                  onSuccess={() => {
+                    setIsPasswordDialogOpen(false);
+                    toast({
+                      title: "Password Changed",
+                      description: "Your password has been updated",
+                    });
+                  }}
+                  onCancel={() => setIsPasswordDialogOpen(false)}
+                />
+              </DialogContent>
+            </Dialog>
             <Button variant="outline" size="sm" onClick={logout}>
               <LogOut className="h-4 w-4 mr-2" />
               Logout
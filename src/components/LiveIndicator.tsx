@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface LiveIndicatorProps {
+  isLive: boolean;
+  updatedAt?: Date;
+}
+
+// Shows that a view follows database changes as they happen
+export function LiveIndicator({ isLive, updatedAt }: LiveIndicatorProps) {
+  return (
+    <div
+      className="flex items-center gap-2 text-sm text-muted-foreground"
+      title={updatedAt ? `Last change received ${updatedAt.toLocaleTimeString()}` : undefined}
+    >
+      <span className="relative flex h-2.5 w-2.5">
+        {isLive && <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75" />}
+        <span className={`relative inline-flex rounded-full h-2.5 w-2.5 ${isLive ? 'bg-green-500' : 'bg-gray-400'}`} />
+      </span>
+      {isLive ? 'Live' : updatedAt ? 'Updates paused' : 'Connecting...'}
+    </div>
+  );
+}
@@ -1,11 +1,16 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { db, Horse, Location, LocationAssignment, Owner } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+import { getCurrentAssignments } from '@/lib/stalls';
+import { useLiveData } from '@/hooks/useLiveData';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Search, MapPin, Home, Activity, Car } from 'lucide-react';
+import { LiveIndicator } from '@/components/LiveIndicator';
 
 interface HorseLocation extends Horse {
   owner?: Owner;
@@ -22,111 +27,90 @@ interface LocationMapProps {
 }
 
 export function LocationMap({ filterByOwner, filterByLocation, filterByStatus }: LocationMapProps) {
-  const [horsesWithLocations, setHorsesWithLocations] = useState<HorseLocation[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
-  const [owners, setOwners] = useState<Owner[]>([]);
-  const [filteredHorses, setFilteredHorses] = useState<HorseLocation[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  
   // Filters
   const [searchTerm, setSearchTerm] = useState('');
   const [ownerFilter, setOwnerFilter] = useState<string>(filterByOwner?.toString() || 'all');
   const [locationFilter, setLocationFilter] = useState<string>(filterByLocation?.toString() || 'all');
   const [statusFilter, setStatusFilter] = useState<string>(filterByStatus || 'all');
 
-  const loadData = async () => {
-    setIsLoading(true);
-    try {
-      const [horsesData, locationsData, ownersData, assignments] = await Promise.all([
-        db.horses.toArray(),
-        db.locations.toArray(),
-        db.owners.toArray(),
-        db.location_assignments.toArray()
-      ]);
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    const [horsesData, locationsData, ownersData, assignments, stalls] = await Promise.all([
+      db.horses.filter(isActive).toArray(),
+      db.locations.toArray(),
+      db.owners.filter(isActive).toArray(),
+      db.location_assignments.toArray(),
+      db.stalls.toArray()
+    ]);
 
-      // Create enhanced horse data with location info
-      const enhancedHorses: HorseLocation[] = horsesData.map(horse => {
-        const owner = ownersData.find(o => o.id === horse.owner_id);
-        const currentAssignment = assignments
-          .filter(a => a.horse_id === horse.id && (!a.assigned_until || a.assigned_until > new Date()))
-          .sort((a, b) => b.assigned_at.getTime() - a.assigned_at.getTime())[0];
-        
-        const location = currentAssignment ? 
-          locationsData.find(l => l.id === currentAssignment.location_id) : undefined;
+    const currentAssignments = getCurrentAssignments(assignments);
 
-        // Generate stall number based on location and assignment
-        const stallNumber = currentAssignment ? 
-          `${location?.name}-${String(currentAssignment.id).padStart(3, '0')}` : undefined;
+    // Create enhanced horse data with location info
+    const enhancedHorses: HorseLocation[] = horsesData.map(horse => {
+      const owner = ownersData.find(o => o.id === horse.owner_id);
+      const currentAssignment = currentAssignments.get(horse.id!);
+      
+      const location = currentAssignment ? 
+        locationsData.find(l => l.id === currentAssignment.location_id) : undefined;
 
-        // Determine location status based on current activity and location type
-        let locationStatus: HorseLocation['locationStatus'] = 'stalled';
-        if (horse.current_activity) {
-          switch (horse.current_activity) {
-            case 'racing': locationStatus = 'racing'; break;
-            case 'training': locationStatus = 'training'; break;
-            case 'walking': locationStatus = 'walking'; break;
-            case 'medical': locationStatus = 'medical'; break;
-            case 'transport': locationStatus = 'transport'; break;
-            default: locationStatus = 'stalled';
-          }
-        }
+      const stallNumber = stalls.find(s => s.id === currentAssignment?.stall_id)?.stall_number;
 
-        return {
-          ...horse,
-          owner,
-          location,
-          currentAssignment,
-          stallNumber,
-          locationStatus
-        };
-      });
+      // Determine location status based on current activity and location type
+      let locationStatus: HorseLocation['locationStatus'] = 'stalled';
+      if (horse.current_activity) {
+        switch (horse.current_activity) {
+          case 'racing': locationStatus = 'racing'; break;
+          case 'training': locationStatus = 'training'; break;
+          case 'walking': locationStatus = 'walking'; break;
+          case 'medical': locationStatus = 'medical'; break;
+          case 'transport': locationStatus = 'transport'; break;
+          default: locationStatus = 'stalled';
+        }
+      }
 
-      setHorsesWithLocations(enhancedHorses);
-      setFilteredHorses(enhancedHorses);
-      setLocations(locationsData);
-      setOwners(ownersData);
-    } catch (error) {
-      console.error('Error loading location data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+      return {
+        ...horse,
+        owner,
+        location,
+        currentAssignment,
+        stallNumber,
+        locationStatus
+      };
+    });
 
-  useEffect(() => {
-    loadData();
+    return { horses: enhancedHorses, locations: locationsData, owners: ownersData };
   }, []);
 
-  useEffect(() => {
-    let filtered = horsesWithLocations;
+  const horsesWithLocations: HorseLocation[] = data?.horses ?? [];
+  const locations: Location[] = data?.locations ?? [];
+  const owners: Owner[] = data?.owners ?? [];
 
-    // Apply search filter
-    if (searchTerm) {
-      filtered = filtered.filter(horse =>
-        horse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        horse.tracking_id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        horse.owner?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        horse.location?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        horse.stallNumber?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+  let filteredHorses = horsesWithLocations;
 
-    // Apply owner filter
-    if (ownerFilter !== 'all') {
-      filtered = filtered.filter(horse => horse.owner_id === parseInt(ownerFilter));
-    }
+  // Apply search filter
+  if (searchTerm) {
+    filteredHorses = filteredHorses.filter(horse =>
+      horse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      horse.tracking_id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      horse.owner?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      horse.location?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      horse.stallNumber?.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+  }
 
-    // Apply location filter
-    if (locationFilter !== 'all') {
-      filtered = filtered.filter(horse => horse.location?.id === parseInt(locationFilter));
-    }
+  // Apply owner filter
+  if (ownerFilter !== 'all') {
+    filteredHorses = filteredHorses.filter(horse => horse.owner_id === parseInt(ownerFilter));
+  }
 
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(horse => horse.locationStatus === statusFilter);
-    }
+  // Apply location filter
+  if (locationFilter !== 'all') {
+    filteredHorses = filteredHorses.filter(horse => horse.location?.id === parseInt(locationFilter));
+  }
 
-    setFilteredHorses(filtered);
-  }, [horsesWithLocations, searchTerm, ownerFilter, locationFilter, statusFilter]);
+  // Apply status filter
+  if (statusFilter !== 'all') {
+    filteredHorses = filteredHorses.filter(horse => horse.locationStatus === statusFilter);
+  }
 
   const getStatusColor = (status: HorseLocation['locationStatus']) => {
     switch (status) {
@@ -170,9 +154,7 @@ export function LocationMap({ filterByOwner, filterByLocation, filterByStatus }:
             Track horse locations and status in real-time
           </p>
         </div>
-        <Button onClick={loadData} variant="outline">
-          Refresh Map
-        </Button>
+        <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
       </div>
 
       {/* Filters */}
@@ -272,6 +254,11 @@ export function LocationMap({ filterByOwner, filterByLocation, filterByStatus }:
                   <MapPin className="h-5 w-5" />
                   {locationName}
                   <Badge variant="outline">{horses.length} horses</Badge>
+                  {horses[0].location && (
+                    <Button asChild variant="ghost" size="sm" className="ml-auto">
+                      <Link to={`/floor-plan?location=${horses[0].location.id}`}>Floor plan</Link>
+                    </Button>
+                  )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -73,7 +73,7 @@ export function LoginForm() {
           </form>
           
           <div className="mt-6 text-sm text-muted-foreground">
-            <p className="font-medium mb-2">Demo Accounts:</p>
+            <p className="font-medium mb-2">Demo Accounts (a new password is required on first sign-in):</p>
             <div className="space-y-1">
               <p><strong>Admin:</strong> admin / admin123</p>
               <p><strong>Owner:</strong> johnsmith / owner123</p>
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { db, Horse, MedicationAdministration, WithdrawalRule } from '@/lib/database';
+import { getClearanceTime, ROUTE_LABELS } from '@/lib/medications';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveData } from '@/hooks/useLiveData';
+import { Plus, Syringe } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface MedicationLogProps {
+  horses: Horse[];
+}
+
+const emptyForm = () => ({
+  horse_id: '',
+  substance: '',
+  dose: '',
+  route: 'intravenous' as MedicationAdministration['route'],
+  administered_at: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+  administered_by: '',
+  notes: ''
+});
+
+export function MedicationLog({ horses }: MedicationLogProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+
+  const { data } = useLiveData(async () => {
+    const horseIds = horses.map(h => h.id!);
+    const [administrationsData, rulesData] = await Promise.all([
+      db.medication_administrations.where('horse_id').anyOf(horseIds).toArray(),
+      db.withdrawal_rules.orderBy('substance').toArray()
+    ]);
+    administrationsData.sort((a, b) => b.administered_at.getTime() - a.administered_at.getTime());
+    return { administrations: administrationsData, rules: rulesData };
+  }, [horses]);
+
+  const administrations: MedicationAdministration[] = data?.administrations ?? [];
+  const rules: WithdrawalRule[] = data?.rules ?? [];
+
+  const horseName = (horseId: number) => horses.find(h => h.id === horseId)?.name || 'Unknown';
+  const ruleFor = (substance: string) => rules.find(r => r.substance.toLowerCase() === substance.toLowerCase());
+
+  const saveAdministration = async () => {
+    if (!form.horse_id || !form.substance || !form.dose.trim() || !form.administered_at || !form.administered_by.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Horse, substance, dose, time and administered by are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await db.medication_administrations.add({
+        horse_id: parseInt(form.horse_id),
+        substance: form.substance,
+        dose: form.dose.trim(),
+        route: form.route,
+        administered_at: new Date(form.administered_at),
+        administered_by: form.administered_by.trim(),
+        notes: form.notes.trim() || undefined,
+        recorded_by: user?.id,
+        created_at: new Date()
+      });
+      toast({
+        title: "Logged",
+        description: `${form.substance} logged for ${horseName(parseInt(form.horse_id))}`,
+      });
+      setIsDialogOpen(false);
+      setForm(emptyForm());
+    } catch (error) {
+      console.error('Error logging administration:', error);
+      toast({
+        title: "Error",
+        description: "Failed to log administration",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Medication Administration Log</CardTitle>
+            <CardDescription>Every dose given, with the time the horse clears withdrawal</CardDescription>
+          </div>
+          {can('vet:write') && (
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Log Dose
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {administrations.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No medications logged.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Administered</TableHead>
+                <TableHead>Horse</TableHead>
+                <TableHead>Substance</TableHead>
+                <TableHead>Dose</TableHead>
+                <TableHead>Route</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Withdrawal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {administrations.map(administration => {
+                const rule = ruleFor(administration.substance);
+                const clearsAt = rule ? getClearanceTime(administration, rule) : undefined;
+                return (
+                  <TableRow key={administration.id}>
+                    <TableCell className="whitespace-nowrap">{format(administration.administered_at, 'MMM d, yyyy h:mm a')}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/horses/${administration.horse_id}`} className="hover:underline">
+                        {horseName(administration.horse_id)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{administration.substance}</TableCell>
+                    <TableCell>{administration.dose}</TableCell>
+                    <TableCell>{ROUTE_LABELS[administration.route]}</TableCell>
+                    <TableCell>{administration.administered_by}</TableCell>
+                    <TableCell>
+                      {!clearsAt ? (
+                        <Badge variant="outline">No rule</Badge>
+                      ) : clearsAt > now ? (
+                        <Badge variant="destructive">Until {format(clearsAt, 'MMM d h:mm a')}</Badge>
+                      ) : (
+                        <Badge variant="secondary">Cleared</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Syringe className="h-5 w-5" />
+              Log Medication
+            </DialogTitle>
+            <DialogDescription>Substances come from the withdrawal table</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Horse *</Label>
+                <Select value={form.horse_id} onValueChange={(value) => setForm({ ...form, horse_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select horse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {horses.map(horse => (
+                      <SelectItem key={horse.id} value={horse.id!.toString()}>{horse.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Substance *</Label>
+                <Select value={form.substance} onValueChange={(value) => setForm({ ...form, substance: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select substance" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rules.map(rule => (
+                      <SelectItem key={rule.id} value={rule.substance}>
+                        {rule.substance} ({rule.withdrawal_hours}h)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="med-dose">Dose *</Label>
+                <Input
+                  id="med-dose"
+                  placeholder="e.g. 2 g"
+                  value={form.dose}
+                  onChange={(e) => setForm({ ...form, dose: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Route</Label>
+                <Select
+                  value={form.route}
+                  onValueChange={(value) => setForm({ ...form, route: value as MedicationAdministration['route'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROUTE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="med-time">Administered At *</Label>
+                <Input
+                  id="med-time"
+                  type="datetime-local"
+                  value={form.administered_at}
+                  onChange={(e) => setForm({ ...form, administered_at: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="med-by">Administered By *</Label>
+                <Input
+                  id="med-by"
+                  value={form.administered_by}
+                  onChange={(e) => setForm({ ...form, administered_by: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="med-notes">Notes</Label>
+              <Textarea
+                id="med-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveAdministration}>Log Dose</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { db, Horse, Location, Stall } from '@/lib/database';
+import { assignHorse, getCurrentAssignments, getOccupancy, getStallOccupants, hasStalls } from '@/lib/stalls';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface MoveHorseDialogProps {
+  horse: Horse | null; // Dialog is open while a horse is set
+  onClose: () => void;
+  onMoved?: () => void;
+}
+
+// Check-in for an unassigned horse, transfer for one that is already somewhere
+export function MoveHorseDialog({ horse, onClose, onMoved }: MoveHorseDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [vacantStalls, setVacantStalls] = useState<Stall[]>([]);
+  const [occupancy, setOccupancy] = useState<Map<number, number>>(new Map());
+  const [currentLocationId, setCurrentLocationId] = useState<number | undefined>();
+  const [locationId, setLocationId] = useState('');
+  const [stallId, setStallId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!horse) return;
+    setLocationId('');
+    setStallId('');
+    setNotes('');
+
+    const loadOptions = async () => {
+      const [locationsData, stallsData, assignments] = await Promise.all([
+        db.locations.toArray(),
+        db.stalls.toArray(),
+        db.location_assignments.toArray()
+      ]);
+      const occupants = getStallOccupants(assignments);
+      setLocations(locationsData.sort((a, b) => a.name.localeCompare(b.name)));
+      setVacantStalls(stallsData
+        .filter(s => !s.out_of_service && !occupants.has(s.id!))
+        .sort((a, b) => a.stall_number.localeCompare(b.stall_number, undefined, { numeric: true })));
+      setOccupancy(getOccupancy(assignments));
+      setCurrentLocationId(getCurrentAssignments(assignments).get(horse.id!)?.location_id);
+    };
+
+    loadOptions().catch(error => console.error('Error loading move options:', error));
+  }, [horse]);
+
+  const location = locations.find(l => l.id === parseInt(locationId));
+  const locationStalls = vacantStalls.filter(s => s.location_id === location?.id);
+  const needsStall = !!location && hasStalls(location);
+  const isTransfer = currentLocationId !== undefined;
+
+  const submit = async () => {
+    if (!horse || !location || !user) return;
+    setIsSaving(true);
+    try {
+      await assignHorse({
+        horse_id: horse.id!,
+        location_id: location.id!,
+        stall_id: needsStall ? parseInt(stallId) || undefined : undefined,
+        assigned_by: user.id!,
+        season_id: horse.season_id,
+        notes: notes.trim() || undefined
+      });
+      toast({
+        title: "Success",
+        description: `${horse.name} ${isTransfer ? 'transferred' : 'checked in'} to ${location.name}`,
+      });
+      onMoved?.();
+      onClose();
+    } catch (error) {
+      console.error('Error moving horse:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to move horse',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!horse} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isTransfer ? 'Transfer' : 'Check In'} {horse?.name}</DialogTitle>
+          <DialogDescription>
+            {isTransfer
+              ? `Currently at ${locations.find(l => l.id === currentLocationId)?.name ?? 'an unknown location'}; the current assignment ends when the move is saved`
+              : 'This horse has no current location'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <Select value={locationId} onValueChange={(value) => { setLocationId(value); setStallId(''); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map(l => (
+                  <SelectItem key={l.id} value={l.id!.toString()}>
+                    {l.name} ({occupancy.get(l.id!) ?? 0}/{l.capacity})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {needsStall && (
+            <div className="space-y-2">
+              <Label>Stall</Label>
+              <Select value={stallId} onValueChange={setStallId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={locationStalls.length > 0 ? 'Select vacant stall' : 'No vacant stalls'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {locationStalls.map(s => (
+                    <SelectItem key={s.id} value={s.id!.toString()}>Stall {s.stall_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="move-notes">Notes</Label>
+            <Textarea id="move-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={isSaving || !location || (needsStall && !stallId)}>
+            {isTransfer ? 'Transfer' : 'Check In'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { db, Horse, Owner, OwnerCharge } from '@/lib/database';
+import { addCharge, CHARGE_TYPE_LABELS, generateStallCharges } from '@/lib/ledger';
+import { OwnerStatement } from '@/components/OwnerStatement';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Receipt } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+
+interface OwnerLedgerPanelProps {
+  owners: Owner[];
+  selectedOwnerId: number | null;
+  onSelectOwner: (ownerId: number) => void;
+}
+
+const NO_HORSE = 'none';
+
+const emptyCharge = () => ({
+  charge_type: 'training' as OwnerCharge['charge_type'],
+  horse_id: NO_HORSE,
+  description: '',
+  amount: '',
+  charge_date: format(new Date(), 'yyyy-MM-dd')
+});
+
+const emptyStallBilling = () => ({
+  from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+  to: format(new Date(), 'yyyy-MM-dd'),
+  daily_rate: ''
+});
+
+export function OwnerLedgerPanel({ owners, selectedOwnerId, onSelectOwner }: OwnerLedgerPanelProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [horses, setHorses] = useState<Horse[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [isChargeOpen, setIsChargeOpen] = useState(false);
+  const [isStallBillingOpen, setIsStallBillingOpen] = useState(false);
+  const [chargeForm, setChargeForm] = useState(emptyCharge());
+  const [stallForm, setStallForm] = useState(emptyStallBilling());
+
+  const owner = owners.find(o => o.id === selectedOwnerId);
+
+  useEffect(() => {
+    if (!selectedOwnerId) return;
+    db.horses.where('owner_id').equals(selectedOwnerId).toArray()
+      .then(data => setHorses(data.sort((a, b) => a.name.localeCompare(b.name))))
+      .catch(error => console.error('Error loading owner horses:', error));
+  }, [selectedOwnerId]);
+
+  const reportError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const saveCharge = async () => {
+    if (!owner) return;
+    try {
+      await addCharge({
+        owner_id: owner.id!,
+        horse_id: chargeForm.horse_id === NO_HORSE ? undefined : parseInt(chargeForm.horse_id),
+        charge_type: chargeForm.charge_type,
+        description: chargeForm.description.trim(),
+        amount: parseFloat(chargeForm.amount),
+        charge_date: new Date(`${chargeForm.charge_date}T12:00:00`),
+        recorded_by: user?.id
+      });
+      toast({
+        title: "Success",
+        description: `Charge added to ${owner.name}'s account`,
+      });
+      setIsChargeOpen(false);
+      setChargeForm(emptyCharge());
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      reportError(error, 'Failed to add charge');
+    }
+  };
+
+  const billStalls = async () => {
+    if (!owner) return;
+    try {
+      const count = await generateStallCharges(
+        owner.id!,
+        new Date(`${stallForm.from}T00:00:00`),
+        new Date(`${stallForm.to}T23:59:59.999`),
+        parseFloat(stallForm.daily_rate),
+        user?.id
+      );
+      toast({
+        title: "Success",
+        description: count > 0
+          ? `Billed stall days for ${count} horse(s)`
+          : 'No unbilled stall days in this period',
+      });
+      setIsStallBillingOpen(false);
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      reportError(error, 'Failed to bill stall days');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2 w-72">
+              <Label>Owner</Label>
+              <Select
+                value={selectedOwnerId?.toString() ?? ''}
+                onValueChange={(value) => onSelectOwner(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select owner" />
+                </SelectTrigger>
+                <SelectContent>
+                  {owners.map(o => (
+                    <SelectItem key={o.id} value={o.id!.toString()}>{o.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {owner && can('owners:write') && (
+              <>
+                <Button variant="outline" onClick={() => setIsChargeOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Charge
+                </Button>
+                <Button variant="outline" onClick={() => setIsStallBillingOpen(true)}>
+                  <Receipt className="h-4 w-4 mr-2" />
+                  Bill Stall Days
+                </Button>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {owner ? (
+        <OwnerStatement owner={owner} refreshKey={refreshKey} />
+      ) : (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-muted-foreground">Select an owner to view their ledger.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isChargeOpen} onOpenChange={setIsChargeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Charge</DialogTitle>
+            <DialogDescription>Bill {owner?.name} for training, vet work or other services</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={chargeForm.charge_type}
+                onValueChange={(value) => setChargeForm({ ...chargeForm, charge_type: value as OwnerCharge['charge_type'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CHARGE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Horse</Label>
+              <Select value={chargeForm.horse_id} onValueChange={(value) => setChargeForm({ ...chargeForm, horse_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_HORSE}>Not horse-specific</SelectItem>
+                  {horses.map(horse => (
+                    <SelectItem key={horse.id} value={horse.id!.toString()}>{horse.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="charge-description">Description *</Label>
+              <Input
+                id="charge-description"
+                value={chargeForm.description}
+                onChange={(e) => setChargeForm({ ...chargeForm, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="charge-amount">Amount ($) *</Label>
+              <Input
+                id="charge-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={chargeForm.amount}
+                onChange={(e) => setChargeForm({ ...chargeForm, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="charge-date">Date</Label>
+              <Input
+                id="charge-date"
+                type="date"
+                value={chargeForm.charge_date}
+                onChange={(e) => setChargeForm({ ...chargeForm, charge_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsChargeOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveCharge}>Add Charge</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isStallBillingOpen} onOpenChange={setIsStallBillingOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bill Stall Days</DialogTitle>
+            <DialogDescription>
+              Charges each of {owner?.name}'s horses for days spent in stables and barns during the period
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stall-from">From</Label>
+              <Input
+                id="stall-from"
+                type="date"
+                value={stallForm.from}
+                onChange={(e) => setStallForm({ ...stallForm, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stall-to">To</Label>
+              <Input
+                id="stall-to"
+                type="date"
+                value={stallForm.to}
+                onChange={(e) => setStallForm({ ...stallForm, to: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stall-rate">Daily Rate ($)</Label>
+              <Input
+                id="stall-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={stallForm.daily_rate}
+                onChange={(e) => setStallForm({ ...stallForm, daily_rate: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsStallBillingOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={billStalls}>Bill Stall Days</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Owner } from '@/lib/database';
+import { buildOwnerLedger, buildStatement, LedgerEntry, Statement, statementToCsv } from '@/lib/ledger';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Printer } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+
+interface OwnerStatementProps {
+  owner: Owner;
+  refreshKey?: number; // Bump to reload after charges change
+}
+
+const money = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Opens the statement on its own page so it prints without the app chrome
+function printStatement(owner: Owner, statement: Statement) {
+  const rows = statement.entries.map(entry => `
+    <tr>
+      <td>${format(entry.date, 'MMM d, yyyy')}</td>
+      <td>${escapeHtml(entry.category)}</td>
+      <td>${escapeHtml(entry.horse_name ?? '')}</td>
+      <td>${escapeHtml(entry.description)}</td>
+      <td class="num">${entry.credit ? money(entry.credit) : ''}</td>
+      <td class="num">${entry.debit ? money(entry.debit) : ''}</td>
+      <td class="num">${money(entry.balance)}</td>
+    </tr>`).join('');
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+  printWindow.document.write(`<!DOCTYPE html>
+<html><head><title>Statement - ${escapeHtml(owner.name)}</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; color: #111; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.4rem; text-align: left; }
+  .num { text-align: right; }
+  .summary td { border: none; padding: 0.2rem 0.4rem; }
+</style></head>
+<body>
+  <h1>Owner Statement</h1>
+  <p><strong>${escapeHtml(owner.name)}</strong><br>${escapeHtml(owner.email)}</p>
+  <p>${format(statement.from, 'MMM d, yyyy')} to ${format(statement.to, 'MMM d, yyyy')}</p>
+  <table class="summary">
+    <tr><td>Opening balance</td><td class="num">${money(statement.opening_balance)}</td></tr>
+    <tr><td>Earnings</td><td class="num">${money(statement.total_earnings)}</td></tr>
+    <tr><td>Charges</td><td class="num">${money(-statement.total_charges)}</td></tr>
+    <tr><td><strong>Closing balance</strong></td><td class="num"><strong>${money(statement.closing_balance)}</strong></td></tr>
+  </table>
+  <h2>Activity</h2>
+  <table>
+    <thead><tr><th>Date</th><th>Type</th><th>Horse</th><th>Description</th><th class="num">Credit</th><th class="num">Debit</th><th class="num">Balance</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="7">No activity in this period.</td></tr>'}</tbody>
+  </table>
+  <p style="margin-top:2rem;font-size:0.75rem;color:#666">Generated ${format(new Date(), 'MMM d, yyyy h:mm a')}</p>
+</body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+export function OwnerStatement({ owner, refreshKey }: OwnerStatementProps) {
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [fromDate, setFromDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadLedger = async () => {
+      setIsLoading(true);
+      try {
+        setLedger(await buildOwnerLedger(owner.id!));
+      } catch (error) {
+        console.error('Error loading owner ledger:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLedger();
+  }, [owner.id, refreshKey]);
+
+  const from = new Date(`${fromDate}T00:00:00`);
+  const to = new Date(`${toDate}T23:59:59.999`);
+  const statement = buildStatement(ledger, from, to);
+
+  const exportCsv = () => {
+    const blob = new Blob([statementToCsv(owner, statement)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `statement_${owner.name.replace(/\s+/g, '_').toLowerCase()}_${fromDate}_${toDate}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <CardTitle>Statement: {owner.name}</CardTitle>
+            <CardDescription>Purse earnings less stall, training and other charges</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="statement-from" className="text-xs">From</Label>
+              <Input id="statement-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-to" className="text-xs">To</Label>
+              <Input id="statement-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={() => printStatement(owner, statement)} disabled={isLoading}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+            <Button variant="outline" onClick={exportCsv} disabled={isLoading}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div>
+            <p className="text-xs text-muted-foreground">Opening Balance</p>
+            <p className="text-xl font-bold">{money(statement.opening_balance)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Earnings</p>
+            <p className="text-xl font-bold text-green-600">{money(statement.total_earnings)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Charges</p>
+            <p className="text-xl font-bold text-red-600">{money(-statement.total_charges)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Closing Balance</p>
+            <p className="text-xl font-bold">{money(statement.closing_balance)}</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : statement.entries.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No earnings or charges in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Horse</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statement.entries.map(entry => (
+                <TableRow key={entry.key}>
+                  <TableCell className="whitespace-nowrap">{format(entry.date, 'MMM d, yyyy')}</TableCell>
+                  <TableCell>{entry.category}</TableCell>
+                  <TableCell>{entry.horse_name ?? '—'}</TableCell>
+                  <TableCell>{entry.description}</TableCell>
+                  <TableCell className="text-right text-green-600">{entry.credit ? money(entry.credit) : ''}</TableCell>
+                  <TableCell className="text-right text-red-600">{entry.debit ? money(entry.debit) : ''}</TableCell>
+                  <TableCell className="text-right font-medium">{money(entry.balance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { getAccessibleHorses } from '@/lib/permissions';
+import { db, Horse, Race, RaceParticipant } from '@/lib/database';
+import {
+  areEntriesOpen,
+  closeEntries,
+  drawPostPositions,
+  enterHorse,
+  getEntryIneligibility,
+  isStarter,
+  scratchEntry,
+  SCRATCH_REASONS
+} from '@/lib/raceEntries';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveData } from '@/hooks/useLiveData';
+import { Shuffle, Lock, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface RaceEntriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  race: Race | null;
+  onChanged?: () => void;
+}
+
+export function RaceEntriesDialog({ open, onOpenChange, race, onChanged }: RaceEntriesDialogProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [selectedHorseId, setSelectedHorseId] = useState('');
+  const [jockeyName, setJockeyName] = useState('');
+  const [scratching, setScratching] = useState<{ id: number; reason: string } | null>(null);
+  const canEdit = can('races:write');
+
+  const { data } = useLiveData(async () => {
+    if (!open || !race?.id) return undefined;
+
+    const [raceData, entriesData, horsesData] = await Promise.all([
+      db.races.get(race.id),
+      db.race_participants.where('race_id').equals(race.id).toArray(),
+      getAccessibleHorses(user, race.season_id)
+    ]);
+    return {
+      race: raceData ?? null,
+      entries: entriesData.sort((a, b) =>
+        (a.post_position ?? Number.MAX_SAFE_INTEGER) - (b.post_position ?? Number.MAX_SAFE_INTEGER) ||
+        a.created_at.getTime() - b.created_at.getTime()
+      ),
+      horses: horsesData.sort((a, b) => a.name.localeCompare(b.name)),
+      // Archived horses keep their name on the card
+      enteredHorses: (await db.horses.bulkGet(entriesData.map(e => e.horse_id))).filter(Boolean)
+    };
+  }, [open, race, user]);
+
+  const currentRace: Race | null = data ? data.race : race;
+  const entries: RaceParticipant[] = data?.entries ?? [];
+  const horses: Horse[] = data?.horses ?? [];
+  const enteredHorses: Horse[] = data?.enteredHorses ?? [];
+
+  useEffect(() => {
+    if (open) {
+      setSelectedHorseId('');
+      setJockeyName('');
+      setScratching(null);
+    }
+  }, [open, race]);
+
+  // Runs a race-entry action, reporting rule violations from the library as toasts
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast({
+        title: "Success",
+        description: success,
+      });
+      onChanged?.();
+    } catch (error) {
+      console.error('Error updating race entries:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update entries',
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (!currentRace) return null;
+
+  const horseName = (horseId: number) => enteredHorses.find(h => h.id === horseId)?.name || `Horse ${horseId}`;
+  const entriesOpen = areEntriesOpen(currentRace);
+  const starters = entries.filter(isStarter);
+  const canDraw = canEdit && currentRace.status === 'scheduled' && !entriesOpen && starters.length > 0;
+  const candidates = horses.map(horse => ({
+    horse,
+    reasons: getEntryIneligibility(horse, currentRace, entries)
+  }));
+  const selectedHorse = candidates.find(c => c.horse.id?.toString() === selectedHorseId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Entries: {currentRace.name}</DialogTitle>
+          <DialogDescription>
+            {format(currentRace.race_date, 'MMM d, yyyy h:mm a')} • {starters.length} starter(s)
+            {entries.length > starters.length && `, ${entries.length - starters.length} scratched`}
+            {' • '}
+            {currentRace.entries_close_at
+              ? `Entries ${entriesOpen ? 'close' : 'closed'} ${format(currentRace.entries_close_at, 'MMM d h:mm a')}`
+              : 'No entry deadline'}
+            {currentRace.drawn_at && ` • Drawn ${format(currentRace.drawn_at, 'MMM d h:mm a')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {canEdit && currentRace.status === 'scheduled' && (
+          <div className="flex flex-wrap gap-2">
+            {entriesOpen && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runAction(() => closeEntries(currentRace.id!), 'Entries closed')}
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                Close Entries Now
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!canDraw}
+              onClick={() => runAction(() => drawPostPositions(currentRace.id!), 'Post positions drawn')}
+            >
+              <Shuffle className="h-4 w-4 mr-2" />
+              {currentRace.drawn_at ? 'Redraw Post Positions' : 'Draw Post Positions'}
+            </Button>
+          </div>
+        )}
+
+        {canEdit && entriesOpen && (
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end border rounded-md p-3">
+            <div className="space-y-2">
+              <Label>Horse</Label>
+              <Select value={selectedHorseId} onValueChange={setSelectedHorseId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select horse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(({ horse, reasons }) => (
+                    <SelectItem key={horse.id} value={horse.id!.toString()} disabled={reasons.length > 0}>
+                      {horse.name}{reasons.length > 0 && ` (${reasons.join(', ')})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-jockey">Jockey</Label>
+              <Input
+                id="entry-jockey"
+                value={jockeyName}
+                onChange={(e) => setJockeyName(e.target.value)}
+              />
+            </div>
+            <Button
+              disabled={!selectedHorse || selectedHorse.reasons.length > 0}
+              onClick={() => runAction(async () => {
+                await enterHorse(currentRace.id!, parseInt(selectedHorseId), jockeyName.trim());
+                setSelectedHorseId('');
+                setJockeyName('');
+              }, `${selectedHorse?.horse.name} entered`)}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Enter
+            </Button>
+          </div>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No entries yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Post</TableHead>
+                <TableHead>Horse</TableHead>
+                <TableHead>Jockey</TableHead>
+                <TableHead>Status</TableHead>
+                {canEdit && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id} className={entry.scratched_at ? 'text-muted-foreground' : undefined}>
+                  <TableCell>{entry.post_position ?? '—'}</TableCell>
+                  <TableCell className={`font-medium ${entry.scratched_at ? 'line-through' : ''}`}>
+                    {horseName(entry.horse_id)}
+                  </TableCell>
+                  <TableCell>{entry.jockey_name || '—'}</TableCell>
+                  <TableCell>
+                    {entry.scratched_at ? (
+                      <Badge variant="outline">Scratched: {entry.scratch_reason}</Badge>
+                    ) : (
+                      <Badge variant="secondary">Entered</Badge>
+                    )}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      {!entry.scratched_at && currentRace.status === 'scheduled' && (
+                        scratching?.id === entry.id ? (
+                          <div className="flex gap-2">
+                            <Select
+                              value={scratching.reason}
+                              onValueChange={(reason) => setScratching({ id: entry.id!, reason })}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue placeholder="Reason" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SCRATCH_REASONS.map(reason => (
+                                  <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              disabled={!scratching.reason}
+                              onClick={() => runAction(async () => {
+                                await scratchEntry(entry.id!, scratching.reason);
+                                setScratching(null);
+                              }, `${horseName(entry.horse_id)} scratched`)}
+                            >
+                              Confirm
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setScratching(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => setScratching({ id: entry.id!, reason: '' })}>
+                            Scratch
+                          </Button>
+                        )
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
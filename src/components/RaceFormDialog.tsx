@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { useSeason } from '@/contexts/SeasonContext';
+import { db, Race } from '@/lib/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+interface RaceFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  race?: Race; // Edits this race when set, otherwise creates one
+  onSaved?: () => void;
+}
+
+const RACE_TYPES = ['Maiden', 'Claiming', 'Allowance', 'Stakes', 'Handicap'];
+
+const toInputValue = (date?: Date) => (date ? format(date, "yyyy-MM-dd'T'HH:mm") : '');
+
+const formFromRace = (race: Race | undefined, defaultTrack: string) => ({
+  name: race?.name ?? '',
+  race_date: toInputValue(race?.race_date),
+  entries_close_at: toInputValue(race?.entries_close_at),
+  track: race?.track ?? defaultTrack,
+  distance: race?.distance ?? '',
+  race_type: race?.race_type ?? 'Allowance',
+  purse: race?.purse?.toString() ?? '',
+  min_age: race?.min_age?.toString() ?? '',
+  max_age: race?.max_age?.toString() ?? '',
+  status: race?.status ?? 'scheduled' as Race['status']
+});
+
+const parseOptionalInt = (value: string) => (value.trim() ? parseInt(value) : undefined);
+
+export function RaceFormDialog({ open, onOpenChange, race, onSaved }: RaceFormDialogProps) {
+  const { activeSeason, activeRacetrack } = useSeason();
+  const { toast } = useToast();
+  const defaultTrack = activeRacetrack?.name ?? '';
+  const [form, setForm] = useState(formFromRace(race, defaultTrack));
+
+  useEffect(() => {
+    if (open) setForm(formFromRace(race, defaultTrack));
+  }, [open, race, defaultTrack]);
+
+  const validate = (): string | null => {
+    if (!form.name.trim() || !form.race_date || !form.track.trim() || !form.distance.trim()) {
+      return 'Name, post time, track and distance are required';
+    }
+    const raceDate = new Date(form.race_date);
+    if (form.entries_close_at && new Date(form.entries_close_at) > raceDate) {
+      return 'Entries must close before post time';
+    }
+    const minAge = parseOptionalInt(form.min_age);
+    const maxAge = parseOptionalInt(form.max_age);
+    if (minAge !== undefined && maxAge !== undefined && minAge > maxAge) {
+      return 'Minimum age cannot be greater than maximum age';
+    }
+    return null;
+  };
+
+  const saveRace = async () => {
+    const error = validate();
+    if (error) {
+      toast({
+        title: "Validation Error",
+        description: error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const raceData = {
+      name: form.name.trim(),
+      race_date: new Date(form.race_date),
+      entries_close_at: form.entries_close_at ? new Date(form.entries_close_at) : undefined,
+      track: form.track.trim(),
+      distance: form.distance.trim(),
+      race_type: form.race_type,
+      purse: form.purse.trim() ? parseFloat(form.purse) : undefined,
+      min_age: parseOptionalInt(form.min_age),
+      max_age: parseOptionalInt(form.max_age),
+      status: form.status,
+      updated_at: new Date()
+    };
+
+    try {
+      if (race?.id) {
+        await db.races.update(race.id, raceData);
+      } else {
+        await db.races.add({ ...raceData, season_id: activeSeason?.id, created_at: new Date() });
+      }
+      toast({
+        title: "Success",
+        description: `${raceData.name} ${race?.id ? 'updated' : 'scheduled'}`,
+      });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving race:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save race",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{race?.id ? 'Edit Race' : 'Schedule Race'}</DialogTitle>
+          <DialogDescription>
+            {activeSeason ? `Races are added to the ${activeSeason.name}` : 'Select a season first'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="race-name">Name *</Label>
+            <Input
+              id="race-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="race-date">Post Time *</Label>
+            <Input
+              id="race-date"
+              type="datetime-local"
+              value={form.race_date}
+              onChange={(e) => setForm({ ...form, race_date: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="race-entries-close">Entries Close</Label>
+            <Input
+              id="race-entries-close"
+              type="datetime-local"
+              value={form.entries_close_at}
+              onChange={(e) => setForm({ ...form, entries_close_at: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="race-track">Track *</Label>
+            <Input
+              id="race-track"
+              value={form.track}
+              onChange={(e) => setForm({ ...form, track: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="race-distance">Distance *</Label>
+            <Input
+              id="race-distance"
+              placeholder="e.g. 1 mile"
+              value={form.distance}
+              onChange={(e) => setForm({ ...form, distance: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Race Type</Label>
+            <Select value={form.race_type} onValueChange={(value) => setForm({ ...form, race_type: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([...RACE_TYPES, form.race_type])).map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="race-purse">Purse ($)</Label>
+            <Input
+              id="race-purse"
+              type="number"
+              min="0"
+              value={form.purse}
+              onChange={(e) => setForm({ ...form, purse: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="race-min-age">Minimum Age</Label>
+            <Input
+              id="race-min-age"
+              type="number"
+              min="0"
+              value={form.min_age}
+              onChange={(e) => setForm({ ...form, min_age: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="race-max-age">Maximum Age</Label>
+            <Input
+              id="race-max-age"
+              type="number"
+              min="0"
+              value={form.max_age}
+              onChange={(e) => setForm({ ...form, max_age: e.target.value })}
+            />
+          </div>
+          {race?.id && (
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={form.status} onValueChange={(value) => setForm({ ...form, status: value as Race['status'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
+                  <SelectItem value="running">Running</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={saveRace} disabled={!activeSeason}>
+            {race?.id ? 'Save Changes' : 'Schedule Race'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { db, Horse, Race, RaceParticipant, Owner } from '@/lib/database';
+import { isActive } from '@/lib/archive';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -65,8 +66,9 @@ export function RaceHistoryView({ filterByHorse, filterByOwner, viewMode = 'race
 
       setRaceHistory(raceHistoryData);
       setFilteredData(raceHistoryData);
-      setHorses(horsesData);
-      setOwners(ownersData);
+      // Race history keeps archived horses; the filter options only offer current ones
+      setHorses(horsesData.filter(isActive));
+      setOwners(ownersData.filter(isActive));
     } catch (error) {
       console.error('Error loading race history:', error);
     } finally {
@@ -334,6 +336,17 @@ export function RaceHistoryView({ filterByHorse, filterByOwner, viewMode = 'race
                               Jockey: {participant.jockey_name}
                             </div>
                           )}
+                          {participant.failed_drug_test_id && (
+                            <Badge variant="destructive" className="mt-1">Failed post-race test</Badge>
+                          )}
+                          {participant.disqualified && (
+                            <Badge variant="destructive" className="mt-1">DQ</Badge>
+                          )}
+                          {participant.scratched_at && (
+                            <Badge variant="outline" className="mt-1">
+                              Scratched{participant.scratch_reason ? `: ${participant.scratch_reason}` : ''}
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-right">
                           {participant.finish_position && (
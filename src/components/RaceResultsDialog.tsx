@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { db, Horse, Race, RaceParticipant } from '@/lib/database';
+import { isStarter } from '@/lib/raceEntries';
+import {
+  computeOfficialPlacings,
+  computePurseDistribution,
+  getPurseSplit,
+  makeResultsOfficial,
+  ResultEntry,
+  saveDraftResults,
+  toResultEntry,
+  validatePurseSplit,
+  validateResults
+} from '@/lib/raceResults';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface RaceResultsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  race: Race | null;
+  onChanged?: () => void;
+}
+
+const parseOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export function RaceResultsDialog({ open, onOpenChange, race, onChanged }: RaceResultsDialogProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [currentRace, setCurrentRace] = useState<Race | null>(race);
+  const [starters, setStarters] = useState<RaceParticipant[]>([]);
+  const [horses, setHorses] = useState<Horse[]>([]);
+  const [entries, setEntries] = useState<ResultEntry[]>([]);
+  const [finalTime, setFinalTime] = useState('');
+  const [splitText, setSplitText] = useState('');
+
+  const loadResults = useCallback(async () => {
+    if (!race?.id) return;
+    try {
+      const [raceData, participants] = await Promise.all([
+        db.races.get(race.id),
+        db.race_participants.where('race_id').equals(race.id).toArray()
+      ]);
+      const startersData = participants
+        .filter(isStarter)
+        .sort((a, b) => (a.post_position ?? 0) - (b.post_position ?? 0));
+      setHorses((await db.horses.bulkGet(startersData.map(p => p.horse_id))).filter(Boolean));
+      setCurrentRace(raceData ?? null);
+      setStarters(startersData);
+      setEntries(startersData.map(toResultEntry));
+      setFinalTime(raceData?.final_time ?? '');
+      setSplitText(raceData ? getPurseSplit(raceData).join(', ') : '');
+    } catch (error) {
+      console.error('Error loading race results:', error);
+    }
+  }, [race]);
+
+  useEffect(() => {
+    if (open) loadResults();
+  }, [open, loadResults]);
+
+  if (!currentRace) return null;
+
+  const isOfficial = !!currentRace.official_at;
+  const canEdit = can('races:write') && !isOfficial &&
+    (currentRace.status === 'running' || currentRace.status === 'completed');
+  const split = splitText.split(',').map(part => part.trim()).filter(Boolean).map(Number);
+  const errors = [...validateResults(entries, finalTime), ...validatePurseSplit(split)];
+  const placings = computeOfficialPlacings(entries);
+  const payouts = computePurseDistribution(currentRace.purse ?? 0, split, placings);
+
+  const horseName = (horseId: number) => horses.find(h => h.id === horseId)?.name || `Horse ${horseId}`;
+  const updateEntry = (participantId: number, changes: Partial<ResultEntry>) => {
+    setEntries(entries.map(entry => entry.participant_id === participantId ? { ...entry, ...changes } : entry));
+  };
+
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast({
+        title: "Success",
+        description: success,
+      });
+      await loadResults();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error saving race results:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save results',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Results: {currentRace.name}
+            {isOfficial ? <Badge>Official</Badge> : <Badge variant="outline">Unofficial</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {format(currentRace.race_date, 'MMM d, yyyy h:mm a')} • {currentRace.distance}
+            {currentRace.purse ? ` • Purse $${currentRace.purse.toLocaleString()}` : ''}
+            {isOfficial && ` • Official ${format(currentRace.official_at!, 'MMM d h:mm a')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {currentRace.status === 'scheduled' && (
+          <p className="text-sm text-muted-foreground">Results can be entered once the race has started.</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="final-time">Final Time</Label>
+            <Input
+              id="final-time"
+              placeholder="1:35.42"
+              value={finalTime}
+              disabled={!canEdit}
+              onChange={(e) => setFinalTime(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="purse-split">Purse Split (% by position)</Label>
+            <Input
+              id="purse-split"
+              placeholder="60, 20, 12, 6, 2"
+              value={splitText}
+              disabled={!canEdit}
+              onChange={(e) => setSplitText(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {canEdit && errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{errors.join('. ')}</AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Post</TableHead>
+              <TableHead>Horse</TableHead>
+              <TableHead className="w-24">Finish</TableHead>
+              <TableHead className="w-24">Lengths</TableHead>
+              <TableHead>DQ</TableHead>
+              <TableHead className="w-24">Placed</TableHead>
+              <TableHead>Official</TableHead>
+              <TableHead className="text-right">Purse</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {starters.map(starter => {
+              const entry = entries.find(e => e.participant_id === starter.id)!;
+              const payout = payouts.get(starter.id!);
+              return (
+                <TableRow key={starter.id}>
+                  <TableCell>{starter.post_position ?? '—'}</TableCell>
+                  <TableCell className="font-medium">{horseName(starter.horse_id)}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={entry.order_of_finish ?? ''}
+                      disabled={!canEdit}
+                      onChange={(e) => updateEntry(starter.id!, { order_of_finish: parseOptionalNumber(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.25"
+                      value={entry.beaten_lengths ?? ''}
+                      disabled={!canEdit || entry.order_of_finish === 1}
+                      onChange={(e) => updateEntry(starter.id!, { beaten_lengths: parseOptionalNumber(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Checkbox
+                      checked={entry.disqualified}
+                      disabled={!canEdit}
+                      onCheckedChange={(checked) => updateEntry(starter.id!, { disqualified: !!checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {entry.disqualified && (
+                      <Input
+                        type="number"
+                        min="1"
+                        value={entry.dq_placed_position ?? ''}
+                        disabled={!canEdit}
+                        onChange={(e) => updateEntry(starter.id!, { dq_placed_position: parseOptionalNumber(e.target.value) })}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>{placings.get(starter.id!) ?? 'DNF'}</TableCell>
+                  <TableCell className="text-right">{payout ? `$${payout.toLocaleString()}` : '—'}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {canEdit && (
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => runAction(
+                () => saveDraftResults(currentRace.id!, entries, finalTime.trim(), split),
+                'Unofficial results saved'
+              )}
+            >
+              Save Draft
+            </Button>
+            <Button
+              disabled={errors.length > 0 || !finalTime.trim()}
+              onClick={() => runAction(
+                () => makeResultsOfficial(currentRace.id!, entries, finalTime.trim(), split, user?.id),
+                `${currentRace.name} results are official`
+              )}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Make Official
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
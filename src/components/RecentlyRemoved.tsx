@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { Horse, Owner } from '@/lib/database';
+import { getRecentlyRemoved, restoreHorses, restoreOwners } from '@/lib/archive';
+import { removeRecords } from '@/lib/dataService';
+import { RemovalConfirmDialog } from '@/components/RemovalConfirmDialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { ArchiveRestore, Trash2 } from 'lucide-react';
+
+interface RecentlyRemovedProps {
+  // Bump to reload after the parent archives something
+  refreshKey?: number;
+  onRestored?: () => void;
+}
+
+export function RecentlyRemoved({ refreshKey, onRestored }: RecentlyRemovedProps) {
+  const { toast } = useToast();
+  const [horses, setHorses] = useState<Horse[]>([]);
+  const [owners, setOwners] = useState<Owner[]>([]);
+  const [pendingDelete, setPendingDelete] = useState<{ type: 'horse' | 'owner'; record: Horse | Owner } | null>(null);
+
+  const loadRemoved = async () => {
+    try {
+      const removed = await getRecentlyRemoved();
+      setHorses(removed.horses);
+      setOwners(removed.owners);
+    } catch (error) {
+      console.error('Error loading removed records:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadRemoved();
+  }, [refreshKey]);
+
+  const restore = async (type: 'horse' | 'owner', record: Horse | Owner) => {
+    try {
+      if (type === 'horse') {
+        await restoreHorses([record.id!]);
+      } else {
+        await restoreOwners([record.id!]);
+      }
+      toast({
+        title: "Restored",
+        description: `${record.name} has been restored`,
+      });
+      await loadRemoved();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring record:', error);
+      toast({
+        title: "Error",
+        description: `Failed to restore ${record.name}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deletePermanently = async (type: 'horse' | 'owner', record: Horse | Owner) => {
+    try {
+      await removeRecords(type === 'horse' ? 'horses' : 'owners', [record.id!], 'delete');
+      toast({
+        title: "Deleted",
+        description: `${record.name} has been permanently deleted`,
+      });
+      await loadRemoved();
+    } catch (error) {
+      console.error('Error deleting record:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to delete ${record.name}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const rows = [
+    ...horses.map(horse => ({ type: 'horse' as const, record: horse as Horse | Owner, detail: horse.tracking_id })),
+    ...owners.map(owner => ({ type: 'owner' as const, record: owner as Horse | Owner, detail: owner.email }))
+  ].sort((a, b) => b.record.deleted_at!.getTime() - a.record.deleted_at!.getTime());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArchiveRestore className="h-5 w-5" />
+          Recently Removed ({rows.length})
+        </CardTitle>
+        <CardDescription>Removed horses and owners keep their history and can be restored</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nothing has been removed.</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {rows.map(({ type, record, detail }) => (
+              <div key={`${type}-${record.id}`} className="flex items-center justify-between p-2 border rounded">
+                <div>
+                  <div className="font-medium flex items-center gap-2">
+                    {record.name}
+                    <Badge variant="outline">{type}</Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {detail} • Removed {record.deleted_at!.toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => restore(type, record)}>
+                    Restore
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setPendingDelete({ type, record })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <RemovalConfirmDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        table={pendingDelete?.type === 'owner' ? 'owners' : 'horses'}
+        ids={pendingDelete ? [pendingDelete.record.id!] : []}
+        mode="delete"
+        title={`Delete ${pendingDelete?.record.name || ''}`}
+        onConfirm={() => deletePermanently(pendingDelete!.type, pendingDelete!.record)}
+      />
+    </Card>
+  );
+}
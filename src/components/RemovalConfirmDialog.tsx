@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { previewRemoval, describeImpact, RemovalMode, RemovalPlan } from '@/lib/dataService';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+
+interface RemovalConfirmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  table: string;
+  ids: number[];
+  mode: RemovalMode;
+  title: string;
+  onConfirm: () => Promise<void>;
+}
+
+export function RemovalConfirmDialog({ open, onOpenChange, table, ids, mode, title, onConfirm }: RemovalConfirmDialogProps) {
+  const [plan, setPlan] = useState<RemovalPlan | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!open || ids.length === 0) {
+      setPlan(null);
+      return;
+    }
+    previewRemoval(table, ids, mode)
+      .then(setPlan)
+      .catch(error => console.error('Error previewing removal:', error));
+  }, [open, table, ids, mode]);
+
+  const confirm = async () => {
+    setIsWorking(true);
+    try {
+      await onConfirm();
+      onOpenChange(false);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {mode === 'archive'
+              ? `${ids.length} record(s) will be moved to Recently Removed and can be restored later.${table === 'horses' ? ' Their current stall assignments and activities are ended and are not brought back on restore.' : ''}`
+              : `${ids.length} record(s) will be permanently deleted. This cannot be undone.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!plan ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : plan.impacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other records depend on the selection.</p>
+        ) : (
+          <div className="space-y-2">
+            {plan.blocked && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>This removal is blocked by the records below.</AlertDescription>
+              </Alert>
+            )}
+            <p className="text-sm font-medium">Affected records</p>
+            <ul className="text-sm space-y-1">
+              {plan.impacts.map(impact => (
+                <li
+                  key={`${impact.table}-${impact.foreignKey}`}
+                  className={impact.effect === 'blocks' ? 'text-destructive' : 'text-muted-foreground'}
+                >
+                  • {describeImpact(impact)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={confirm} disabled={!plan || plan.blocked || isWorking}>
+            {mode === 'archive' ? 'Remove' : 'Delete Permanently'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { usePermission } from '@/hooks/usePermission';
+import { Permission } from '@/lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+}
+
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const allowed = usePermission(permission);
+
+  if (!allowed) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground mb-4">
+            Your account does not have permission to view this page.
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/">Return to Dashboard</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <>{children}</>;
+}
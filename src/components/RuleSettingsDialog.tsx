@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { isRuleEnabled, PROBLEM_RULES, saveRuleSettings } from '@/lib/rules';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface RuleSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RuleSettingsDialog({ open, onOpenChange }: RuleSettingsDialogProps) {
+  const { activeRacetrack, refreshSeasons } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<Record<string, boolean>>({});
+  const canEdit = can('seasons:manage') && !!activeRacetrack;
+
+  useEffect(() => {
+    if (!open) return;
+    setSettings(Object.fromEntries(PROBLEM_RULES.map(rule => [rule.id, isRuleEnabled(rule, activeRacetrack)])));
+  }, [open, activeRacetrack]);
+
+  const save = async () => {
+    if (!activeRacetrack) return;
+    try {
+      await saveRuleSettings(activeRacetrack.id!, settings);
+      await refreshSeasons();
+      toast({
+        title: "Success",
+        description: `Problem rules updated for ${activeRacetrack.name}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving rule settings:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save rule settings',
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Problem Rules</DialogTitle>
+          <DialogDescription>
+            Checks run for {activeRacetrack?.name ?? 'this track'}. Both the Problems dashboard and the Command Center use them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="divide-y">
+          {PROBLEM_RULES.map(rule => (
+            <div key={rule.id} className="flex items-start justify-between gap-4 py-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{rule.name}</span>
+                  <Badge variant={rule.severity === 'critical' ? 'destructive' : 'secondary'}>{rule.severity}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">{rule.condition}</p>
+                <p className="text-xs text-muted-foreground">Remediation: {rule.remediation}</p>
+              </div>
+              <Switch
+                checked={settings[rule.id] ?? false}
+                onCheckedChange={(checked) => setSettings({ ...settings, [rule.id]: checked })}
+                disabled={!canEdit}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {canEdit ? 'Cancel' : 'Close'}
+          </Button>
+          {canEdit && <Button onClick={save}>Save Rules</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CheckCircle2, CloudOff, RefreshCw } from 'lucide-react';
+import { SyncConflict, SyncRecord } from '@/lib/database';
+import { resolveConflict, syncNow, SyncState } from '@/lib/sync';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+// The outbox can hold every record after a first sync; only the oldest are listed
+const OUTBOX_ROWS_SHOWN = 100;
+
+type Row = Record<string, unknown>;
+
+const tableLabel = (tableName: string) => tableName.replace(/_/g, ' ');
+
+function recordLabel(conflict: SyncConflict): string {
+  const record = (conflict.local_record ?? conflict.server_record) as Row | undefined;
+  const name = record?.name ?? record?.username ?? record?.tracking_id;
+  return name ? `${name} (#${conflict.record_id})` : `#${conflict.record_id}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return format(value, 'MMM d, yyyy HH:mm');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const changeLabel = (record: SyncRecord) => record.deleted ? 'Deleted' : record.version === 0 ? 'Created' : 'Updated';
+
+// Fields whose values differ between the two copies
+function changedFields(local?: Row, server?: Row): string[] {
+  const keys = new Set([...Object.keys(local ?? {}), ...Object.keys(server ?? {})]);
+  return Array.from(keys).filter(key => formatValue(local?.[key]) !== formatValue(server?.[key]));
+}
+
+interface BadgeLook {
+  variant: 'default' | 'secondary' | 'destructive' | 'outline';
+  icon: typeof CloudOff;
+  label: string;
+}
+
+// Most urgent first: conflicts need a person, offline explains why nothing moves
+function getBadge(status: SyncState['status'], online: boolean, queued: number, conflicts: number): BadgeLook {
+  if (conflicts > 0) return { variant: 'destructive', icon: AlertTriangle, label: `${conflicts} conflict${conflicts === 1 ? '' : 's'}` };
+  if (!online) return { variant: 'secondary', icon: CloudOff, label: queued > 0 ? `Offline · ${queued} queued` : 'Offline' };
+  if (status === 'disabled') return { variant: 'outline', icon: CloudOff, label: 'Local only' };
+  if (status === 'syncing') return { variant: 'secondary', icon: RefreshCw, label: 'Syncing...' };
+  if (status === 'error') return { variant: 'destructive', icon: AlertTriangle, label: 'Sync failed' };
+  if (queued > 0) return { variant: 'secondary', icon: RefreshCw, label: `${queued} pending` };
+  return { variant: 'outline', icon: CheckCircle2, label: 'Synced' };
+}
+
+function ConflictCard({ conflict }: { conflict: SyncConflict }) {
+  const { toast } = useToast();
+  const [isResolving, setIsResolving] = useState(false);
+  const local = conflict.local_record as Row | undefined;
+  const server = conflict.server_record as Row | undefined;
+  const fields = changedFields(local, server);
+  // Fields switched to the server's value; only offered when both copies exist
+  const [serverFields, setServerFields] = useState<string[]>([]);
+  const canPickFields = !!local && !!server;
+  const isMixed = serverFields.length > 0 && serverFields.length < fields.length;
+
+  const toggleField = (field: string, side: 'local' | 'server') => {
+    setServerFields(prev => side === 'server'
+      ? (prev.includes(field) ? prev : [...prev, field])
+      : prev.filter(f => f !== field));
+  };
+
+  const resolve = async (keep: 'local' | 'server', pickedServerFields: string[] = []) => {
+    setIsResolving(true);
+    try {
+      await resolveConflict(conflict.id!, keep, pickedServerFields);
+      toast({
+        title: "Success",
+        description: keep === 'server'
+          ? 'Server version applied'
+          : pickedServerFields.length > 0
+            ? 'Merged version will be sent on the next sync'
+            : 'Your version will be sent on the next sync',
+      });
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to resolve conflict',
+        variant: "destructive"
+      });
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base capitalize">{tableLabel(conflict.table_name)} {recordLabel(conflict)}</CardTitle>
+        <CardDescription>
+          Changed here and on the server · found {format(conflict.detected_at, 'MMM d, HH:mm')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!local || !server ? (
+          <p className="text-sm">
+            {!local ? 'You deleted this record; the server has a newer version.' : 'The server deleted this record; you changed it.'}
+          </p>
+        ) : null}
+        {fields.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Yours</TableHead>
+                <TableHead>Server</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map(field => {
+                const fromServer = serverFields.includes(field);
+                const cellClass = (picked: boolean) =>
+                  `break-all ${canPickFields ? 'cursor-pointer' : ''} ${canPickFields && picked ? 'bg-primary/10 font-medium' : ''}`;
+                return (
+                  <TableRow key={field}>
+                    <TableCell className="font-medium">{field}</TableCell>
+                    <TableCell className={cellClass(!fromServer)} onClick={() => canPickFields && toggleField(field, 'local')}>
+                      {local ? formatValue(local[field]) : 'Deleted'}
+                    </TableCell>
+                    <TableCell className={cellClass(fromServer)} onClick={() => canPickFields && toggleField(field, 'server')}>
+                      {server ? formatValue(server[field]) : 'Deleted'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {canPickFields && fields.length > 1 && (
+          <p className="text-xs text-muted-foreground">Click a value to keep it; mix fields from both versions and keep the selection.</p>
+        )}
+        <div className="flex justify-end gap-2">
+          {isMixed && (
+            <Button variant="secondary" size="sm" onClick={() => resolve('local', serverFields)} disabled={isResolving}>
+              Keep Selected
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => resolve('server')} disabled={isResolving}>
+            Keep Server
+          </Button>
+          <Button size="sm" onClick={() => resolve('local')} disabled={isResolving}>
+            Keep Mine
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Header badge for sync: connectivity, queued changes and conflicts. Opens the outbox.
+export function SyncStatusBadge() {
+  const { status, online, lastSyncedAt, lastError, outbox, conflicts } = useSyncStatus();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const disabled = status === 'disabled';
+
+  const runSync = async () => {
+    try {
+      const result = await syncNow();
+      toast({
+        title: "Success",
+        description: `Synced: ${result.pulled} received, ${result.pushed} sent` +
+          (result.conflicts > 0 ? `, ${result.conflicts} conflicts` : ''),
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Sync failed',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const badge = getBadge(status, online, outbox.length, conflicts.length);
+  const Icon = badge.icon;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <button type="button" title="Sync status">
+          <Badge variant={badge.variant} className="gap-1 cursor-pointer">
+            <Icon className={`h-3 w-3 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+            {badge.label}
+          </Badge>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync</DialogTitle>
+          <DialogDescription>
+            {disabled
+              ? 'No sync server is configured (VITE_SYNC_URL). Changes are kept in this browser and listed below until one is.'
+              : !online
+                ? 'You are offline. Changes are saved here and sent when the connection is back.'
+                : lastSyncedAt
+                  ? `Last synced ${formatDistanceToNow(lastSyncedAt, { addSuffix: true })}.`
+                  : 'Not synced yet this session.'}
+            {status === 'error' && lastError && ` Last attempt failed: ${lastError}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={conflicts.length > 0 ? 'conflicts' : 'outbox'} className="w-full">
+          <div className="flex items-center justify-between">
+            <TabsList>
+              <TabsTrigger value="outbox">Outbox ({outbox.length})</TabsTrigger>
+              <TabsTrigger value="conflicts">Conflicts ({conflicts.length})</TabsTrigger>
+            </TabsList>
+            <Button size="sm" onClick={runSync} disabled={disabled || !online || status === 'syncing'}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+              Sync Now
+            </Button>
+          </div>
+
+          <TabsContent value="outbox">
+            {outbox.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No changes waiting to be sent.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Table</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Saved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outbox.slice(0, OUTBOX_ROWS_SHOWN).map(record => (
+                    <TableRow key={`${record.table_name}:${record.record_id}`}>
+                      <TableCell className="capitalize">{tableLabel(record.table_name)}</TableCell>
+                      <TableCell>#{record.record_id}</TableCell>
+                      <TableCell>{changeLabel(record)}</TableCell>
+                      <TableCell>{format(record.changed_at, 'MMM d, HH:mm:ss')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {outbox.length > OUTBOX_ROWS_SHOWN && (
+              <p className="text-sm text-muted-foreground pt-2">
+                And {outbox.length - OUTBOX_ROWS_SHOWN} more.
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="conflicts" className="space-y-4">
+            {conflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No conflicts.</p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  These records were changed here while someone else changed them on the server. Pick the version to keep;
+                  they are not sent until you do.
+                </p>
+                {conflicts.map(conflict => <ConflictCard key={conflict.id} conflict={conflict} />)}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
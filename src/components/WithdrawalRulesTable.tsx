@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { usePermissions } from '@/hooks/usePermission';
+import { db, WithdrawalRule } from '@/lib/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Save, Trash2 } from 'lucide-react';
+
+export function WithdrawalRulesTable() {
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<WithdrawalRule[]>([]);
+  const [hoursDraft, setHoursDraft] = useState<Record<number, string>>({});
+  const [newSubstance, setNewSubstance] = useState('');
+  const [newHours, setNewHours] = useState('');
+  const canEdit = can('vet:write');
+
+  const loadRules = async () => {
+    try {
+      const rulesData = await db.withdrawal_rules.orderBy('substance').toArray();
+      setRules(rulesData);
+      setHoursDraft(Object.fromEntries(rulesData.map(rule => [rule.id!, rule.withdrawal_hours.toString()])));
+    } catch (error) {
+      console.error('Error loading withdrawal rules:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const parseHours = (value: string) => {
+    const hours = parseFloat(value);
+    return Number.isFinite(hours) && hours > 0 ? hours : null;
+  };
+
+  const saveRule = async (rule: WithdrawalRule) => {
+    const hours = parseHours(hoursDraft[rule.id!]);
+    if (hours === null) {
+      toast({
+        title: "Validation Error",
+        description: "Withdrawal time must be a positive number of hours",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await db.withdrawal_rules.update(rule.id!, { withdrawal_hours: hours, updated_at: new Date() });
+      toast({
+        title: "Success",
+        description: `${rule.substance} withdrawal set to ${hours}h`,
+      });
+      loadRules();
+    } catch (error) {
+      console.error('Error saving withdrawal rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save withdrawal rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const addRule = async () => {
+    const substance = newSubstance.trim();
+    const hours = parseHours(newHours);
+    if (!substance || hours === null) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a substance and a positive number of hours",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (rules.some(rule => rule.substance.toLowerCase() === substance.toLowerCase())) {
+      toast({
+        title: "Validation Error",
+        description: `${substance} is already in the withdrawal table`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const now = new Date();
+      await db.withdrawal_rules.add({ substance, withdrawal_hours: hours, created_at: now, updated_at: now });
+      setNewSubstance('');
+      setNewHours('');
+      loadRules();
+    } catch (error) {
+      console.error('Error adding withdrawal rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add withdrawal rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteRule = async (rule: WithdrawalRule) => {
+    try {
+      await db.withdrawal_rules.delete(rule.id!);
+      loadRules();
+    } catch (error) {
+      console.error('Error deleting withdrawal rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete withdrawal rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Withdrawal Table</CardTitle>
+        <CardDescription>
+          Hours after administration before a horse may race. Substances without a rule are not checked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Substance</TableHead>
+              <TableHead className="w-48">Withdrawal (hours)</TableHead>
+              {canEdit && <TableHead className="w-32">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map(rule => (
+              <TableRow key={rule.id}>
+                <TableCell className="font-medium">{rule.substance}</TableCell>
+                <TableCell>
+                  {canEdit ? (
+                    <Input
+                      type="number"
+                      min="0"
+                      value={hoursDraft[rule.id!] ?? ''}
+                      onChange={(e) => setHoursDraft({ ...hoursDraft, [rule.id!]: e.target.value })}
+                    />
+                  ) : (
+                    rule.withdrawal_hours
+                  )}
+                </TableCell>
+                {canEdit && (
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={hoursDraft[rule.id!] === rule.withdrawal_hours.toString()}
+                        onClick={() => saveRule(rule)}
+                      >
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => deleteRule(rule)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {canEdit && (
+              <TableRow>
+                <TableCell>
+                  <Input
+                    placeholder="New substance"
+                    value={newSubstance}
+                    onChange={(e) => setNewSubstance(e.target.value)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Hours"
+                    value={newHours}
+                    onChange={(e) => setNewHours(e.target.value)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button size="sm" onClick={addRule}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
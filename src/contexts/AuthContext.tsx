@@ -1,72 +1,185 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { db, User, initializeDatabase } from '@/lib/database';
+import { installAuditHooks, setAuditActor } from '@/lib/audit';
+import { installSyncOutbox, onLocalDataReplaced, startBackgroundSync } from '@/lib/sync';
+import {
+  hashPassword,
+  verifyPassword,
+  needsRehash,
+  validatePasswordStrength,
+  generateSessionToken
+} from '@/lib/password';
 
 interface AuthContextType {
   user: User | null;
   login: (username: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const SESSION_KEY = 'equine_session';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    let stopSync = () => {};
+
+    // A first sync that took the server's data also dropped every session
+    const stopListening = onLocalDataReplaced(() => {
+      setUser(null);
+      localStorage.removeItem(SESSION_KEY);
+    });
+
     const initAuth = async () => {
+      installSyncOutbox();
       await initializeDatabase();
-      
+      installAuditHooks();
+      stopSync = startBackgroundSync();
+
+      // Sessions used to store the serialized user, hash included
+      localStorage.removeItem('equine_user');
+
       // Check for stored session
-      const storedUser = localStorage.getItem('equine_user');
-      if (storedUser) {
+      const token = localStorage.getItem(SESSION_KEY);
+      if (token) {
         try {
-          const userData = JSON.parse(storedUser);
-          // Verify user still exists in database
-          const dbUser = await db.users.get(userData.id);
-          if (dbUser) {
+          const session = await db.sessions.where('token').equals(token).first();
+          const dbUser = session && session.expires_at > new Date()
+            ? await db.users.get(session.user_id)
+            : undefined;
+
+          if (dbUser && !dbUser.disabled) {
             setUser(dbUser);
           } else {
-            localStorage.removeItem('equine_user');
+            if (session) await db.sessions.delete(session.id!);
+            localStorage.removeItem(SESSION_KEY);
           }
         } catch (error) {
-          localStorage.removeItem('equine_user');
+          localStorage.removeItem(SESSION_KEY);
         }
       }
+
+      // Drop sessions that have expired
+      await db.sessions.where('expires_at').below(new Date()).delete();
       setIsLoading(false);
     };
 
     initAuth();
+    return () => {
+      stopSync();
+      stopListening();
+    };
   }, []);
 
+  // Attribute audited writes to whoever is signed in
+  useEffect(() => {
+    setAuditActor(user);
+  }, [user]);
+
   const login = async (username: string, password: string): Promise<boolean> => {
     try {
-      // Simple authentication - in production, use proper password hashing
       const user = await db.users
         .where('username')
         .equals(username)
         .first();
 
-      if (user && user.password_hash === password) {
-        setUser(user);
-        localStorage.setItem('equine_user', JSON.stringify(user));
-        return true;
+      if (!user || user.disabled || !(await verifyPassword(password, user.password_hash))) {
+        return false;
       }
-      return false;
+      setAuditActor(user);
+
+      // Upgrade legacy plain-text or weaker hashes now that we have the password
+      if (needsRehash(user.password_hash)) {
+        user.password_hash = await hashPassword(password);
+        user.updated_at = new Date();
+        await db.users.update(user.id!, {
+          password_hash: user.password_hash,
+          updated_at: user.updated_at
+        });
+      }
+
+      const token = generateSessionToken();
+      await db.sessions.add({
+        token,
+        user_id: user.id!,
+        created_at: new Date(),
+        expires_at: new Date(Date.now() + SESSION_TTL_MS)
+      });
+
+      setUser(user);
+      localStorage.setItem(SESSION_KEY, token);
+      return true;
     } catch (error) {
       console.error('Login error:', error);
       return false;
     }
   };
 
-  const logout = () => {
+  const logout = async () => {
+    const token = localStorage.getItem(SESSION_KEY);
+    if (token) {
+      try {
+        await db.sessions.where('token').equals(token).delete();
+      } catch (error) {
+        console.error('Error ending session:', error);
+      }
+    }
     setUser(null);
-    localStorage.removeItem('equine_user');
+    localStorage.removeItem(SESSION_KEY);
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user) {
+      return { success: false, error: 'Not signed in' };
+    }
+
+    try {
+      const dbUser = await db.users.get(user.id!);
+      if (!dbUser || !(await verifyPassword(currentPassword, dbUser.password_hash))) {
+        return { success: false, error: 'Current password is incorrect' };
+      }
+
+      const strengthError = validatePasswordStrength(newPassword);
+      if (strengthError) {
+        return { success: false, error: strengthError };
+      }
+      if (newPassword === currentPassword) {
+        return { success: false, error: 'New password must be different from the current password' };
+      }
+
+      const now = new Date();
+      const changes = {
+        password_hash: await hashPassword(newPassword),
+        must_change_password: false,
+        password_changed_at: now,
+        updated_at: now
+      };
+      await db.users.update(user.id!, changes);
+
+      // Sign out every other session for this user
+      const token = localStorage.getItem(SESSION_KEY);
+      await db.sessions
+        .where('user_id')
+        .equals(user.id!)
+        .filter(s => s.token !== token)
+        .delete();
+
+      setUser({ ...dbUser, ...changes });
+      return { success: true };
+    } catch (error) {
+      console.error('Change password error:', error);
+      return { success: false, error: 'Failed to change password' };
+    }
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, logout, changePassword, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -78,4 +191,4 @@ export function useAuth() {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-}
\ No newline at end of file
+}
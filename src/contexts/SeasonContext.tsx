@@ -0,0 +1,92 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { db, Season, Racetrack } from '@/lib/database';
+
+interface SeasonContextType {
+  seasons: Season[];
+  racetracks: Racetrack[];
+  activeSeason: Season | null;
+  activeRacetrack: Racetrack | null;
+  setActiveSeasonId: (seasonId: number) => void;
+  refreshSeasons: () => Promise<void>;
+  isLoading: boolean;
+}
+
+const SeasonContext = createContext<SeasonContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'equine_active_season';
+
+// Prefer the season running today, otherwise the most recent one
+function pickDefaultSeason(seasons: Season[]): Season | null {
+  const now = new Date();
+  const running = seasons.find(s => s.start_date <= now && s.end_date >= now);
+  if (running) return running;
+  return [...seasons].sort((a, b) => b.start_date.getTime() - a.start_date.getTime())[0] || null;
+}
+
+export function SeasonProvider({ children }: { children: React.ReactNode }) {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [racetracks, setRacetracks] = useState<Racetrack[]>([]);
+  const [activeSeasonId, setActiveSeasonIdState] = useState<number | null>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseInt(stored) : null;
+  });
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshSeasons = useCallback(async () => {
+    try {
+      const [seasonsData, racetracksData] = await Promise.all([
+        db.seasons.toArray(),
+        db.racetracks.toArray()
+      ]);
+      setSeasons(seasonsData);
+      setRacetracks(racetracksData);
+      setActiveSeasonIdState(current => {
+        if (current && seasonsData.some(s => s.id === current)) return current;
+        return pickDefaultSeason(seasonsData)?.id ?? null;
+      });
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSeasons();
+  }, [refreshSeasons]);
+
+  useEffect(() => {
+    if (activeSeasonId) {
+      localStorage.setItem(STORAGE_KEY, activeSeasonId.toString());
+    }
+  }, [activeSeasonId]);
+
+  const activeSeason = seasons.find(s => s.id === activeSeasonId) || null;
+  const activeRacetrack = activeSeason
+    ? racetracks.find(r => r.id === activeSeason.racetrack_id) || null
+    : null;
+
+  return (
+    <SeasonContext.Provider
+      value={{
+        seasons,
+        racetracks,
+        activeSeason,
+        activeRacetrack,
+        setActiveSeasonId: setActiveSeasonIdState,
+        refreshSeasons,
+        isLoading
+      }}
+    >
+      {children}
+    </SeasonContext.Provider>
+  );
+}
+
+export function useSeason() {
+  const context = useContext(SeasonContext);
+  if (context === undefined) {
+    throw new Error('useSeason must be used within a SeasonProvider');
+  }
+  return context;
+}
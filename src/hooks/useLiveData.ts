@@ -0,0 +1,47 @@
+import { DependencyList, useEffect, useRef, useState } from 'react';
+import { liveQuery } from 'dexie';
+
+export interface LiveData<T> {
+  data: T | undefined;
+  isLoading: boolean; // Until the first result arrives
+  isLive: boolean; // Subscribed; false once the query has failed
+  updatedAt?: Date; // When the last result arrived
+}
+
+// Runs a Dexie query and runs it again whenever a table it read is written, from this tab or
+// any other. The querier must only read; the previous result stays in place while deps change.
+// deps works like a useEffect dependency list: list every prop and state value the querier uses,
+// since a change to one is not a database write. The latest querier is the one that runs.
+export function useLiveData<T>(querier: () => Promise<T>, deps: DependencyList): LiveData<T> {
+  const [state, setState] = useState<LiveData<T>>({ data: undefined, isLoading: true, isLive: false });
+  const querierRef = useRef(querier);
+  querierRef.current = querier;
+
+  useEffect(() => {
+    const subscription = liveQuery(() => querierRef.current()).subscribe({
+      next: data => setState({ data, isLoading: false, isLive: true, updatedAt: new Date() }),
+      error: error => {
+        console.error('Live query failed:', error);
+        setState(prev => ({ ...prev, isLoading: false, isLive: false }));
+      }
+    });
+    return () => subscription.unsubscribe();
+    // deps is the caller's list, as documented above
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps);
+
+  return state;
+}
+
+// The current time, ticking every intervalMs. For views whose output depends on the clock
+// (SLA timers, time-based rules) rather than on writes.
+export function useClock(intervalMs: number): Date {
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,15 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { hasPermission, Permission } from '@/lib/permissions';
+
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+}
+
+// For components that need to check several permissions
+export function usePermissions() {
+  const { user } = useAuth();
+  return {
+    can: (permission: Permission) => hasPermission(user, permission)
+  };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { db, SyncConflict, SyncRecord } from '@/lib/database';
+import { getSyncState, subscribeSyncState, SyncState } from '@/lib/sync';
+import { useLiveData } from '@/hooks/useLiveData';
+
+export interface SyncStatus extends SyncState {
+  online: boolean;
+  outbox: SyncRecord[]; // Local changes waiting to be pushed, oldest first
+  conflicts: SyncConflict[];
+}
+
+// Sync progress, connectivity and the outbox, updated as they change
+export function useSyncStatus(): SyncStatus {
+  const [state, setState] = useState(getSyncState);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => subscribeSyncState(setState), []);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const { data } = useLiveData(async () => {
+    const conflicts = await db.sync_conflicts.orderBy('detected_at').toArray();
+    const conflicted = new Set(conflicts.map(c => `${c.table_name}:${c.record_id}`));
+    const dirty = await db.sync_records.where('dirty').equals(1).toArray();
+    const outbox = dirty
+      .filter(r => !conflicted.has(`${r.table_name}:${r.record_id}`))
+      .sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime());
+    return { outbox, conflicts };
+  }, []);
+
+  return { ...state, online, outbox: data?.outbox ?? [], conflicts: data?.conflicts ?? [] };
+}
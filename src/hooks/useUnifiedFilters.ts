@@ -1,5 +1,8 @@
 import { useState, useEffect, useMemo } from 'react';
 import { db, Horse, Owner, Location, Race } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+import { useAuth } from '@/contexts/AuthContext';
+import { getAccessibleHorses, isOwnerScoped } from '@/lib/permissions';
 
 export interface FilterOptions {
   owner?: string;
@@ -19,6 +22,7 @@ export interface FilterData {
 }
 
 export function useUnifiedFilters() {
+  const { user } = useAuth();
   const [filterData, setFilterData] = useState<FilterData>({
     owners: [],
     horses: [],
@@ -42,13 +46,18 @@ export function useUnifiedFilters() {
     const loadFilterData = async () => {
       setIsLoading(true);
       try {
-        const [owners, horses, locations, races] = await Promise.all([
-          db.owners.toArray(),
-          db.horses.toArray(),
+        const [allOwners, horses, locations, races] = await Promise.all([
+          db.owners.filter(isActive).toArray(),
+          getAccessibleHorses(user),
           db.locations.toArray(),
           db.races.toArray()
         ]);
 
+        // Owner users only get their own owner record in the dropdowns
+        const owners = isOwnerScoped(user)
+          ? allOwners.filter(o => horses.some(h => h.owner_id === o.id) || o.user_id === user?.id)
+          : allOwners;
+
         setFilterData({
           owners,
           horses,
@@ -64,7 +73,7 @@ export function useUnifiedFilters() {
     };
 
     loadFilterData();
-  }, []);
+  }, [user]);
 
   const updateFilter = (key: keyof FilterOptions, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
@@ -0,0 +1,66 @@
+import { db, Activity } from '@/lib/database';
+
+export const ACTIVITY_TYPE_LABELS: Record<Activity['activity_type'], string> = {
+  training: 'Training',
+  walking: 'Walking',
+  racing: 'Racing',
+  resting: 'Resting',
+  medical: 'Medical',
+  transport: 'Transport'
+};
+
+export const isOpenActivity = (activity: Activity) => !activity.end_time;
+
+// The activity each horse is in the middle of, keyed by horse id
+export async function getOpenActivities(horseIds?: number[]): Promise<Map<number, Activity>> {
+  const collection = horseIds ? db.activities.where('horse_id').anyOf(horseIds) : db.activities.toCollection();
+  const open = await collection.filter(isOpenActivity).toArray();
+  return new Map(open.map(a => [a.horse_id, a]));
+}
+
+// Starts the same activity for every horse given. Nothing is written if any of them is
+// still in another activity; current_activity mirrors the open row.
+export async function startActivity(
+  horseIds: number[],
+  activity: Pick<Activity, 'activity_type' | 'location_id' | 'notes'>,
+  userId: number
+): Promise<number> {
+  if (horseIds.length === 0) throw new Error('Select at least one horse');
+
+  return db.transaction('rw', db.horses, db.activities, async () => {
+    const open = await getOpenActivities(horseIds);
+    if (open.size > 0) {
+      const horses = await db.horses.bulkGet(Array.from(open.keys()));
+      const busy = horses.filter(Boolean).map(h => `${h!.name} (${ACTIVITY_TYPE_LABELS[open.get(h!.id!)!.activity_type].toLowerCase()})`);
+      throw new Error(`Stop the current activity first: ${busy.join(', ')}`);
+    }
+
+    const now = new Date();
+    await db.activities.bulkAdd(horseIds.map(horseId => ({
+      horse_id: horseId,
+      activity_type: activity.activity_type,
+      location_id: activity.location_id,
+      notes: activity.notes,
+      start_time: now,
+      recorded_by: userId,
+      created_at: now
+    })));
+    for (const horseId of horseIds) {
+      await db.horses.update(horseId, { current_activity: activity.activity_type, updated_at: now });
+    }
+    return horseIds.length;
+  });
+}
+
+// Ends whatever each horse is doing; horses with no open activity are skipped
+export async function stopActivities(horseIds: number[]): Promise<number> {
+  return db.transaction('rw', db.horses, db.activities, async () => {
+    const open = await getOpenActivities(horseIds);
+    const now = new Date();
+    for (const activity of open.values()) {
+      await db.activities.update(activity.id!, { end_time: now });
+      await db.horses.update(activity.horse_id, { current_activity: undefined, updated_at: now });
+    }
+    return open.size;
+  });
+}
@@ -0,0 +1,78 @@
+import { db, Horse, Owner } from '@/lib/database';
+import { isCurrentAssignment } from '@/lib/stalls';
+import { isOpenActivity } from '@/lib/activities';
+
+// Horses and owners are archived with deleted_at instead of being deleted, so their
+// race, veterinary and location history keeps pointing at a real record
+
+// Predicate for every horse/owner read that should only see live records
+export function isActive(record: { deleted_at?: Date }): boolean {
+  return !record.deleted_at;
+}
+
+// An archived horse leaves its stall and stops whatever it was doing, so it no longer counts
+// towards occupancy or blocks assignments. The closed rows stay as history.
+export async function archiveHorses(horseIds: number[]): Promise<void> {
+  const now = new Date();
+  await db.transaction('rw', db.horses, db.location_assignments, db.activities, async () => {
+    const ids = (await db.horses.where('id').anyOf(horseIds).filter(isActive).primaryKeys()) as number[];
+    await db.location_assignments
+      .where('horse_id')
+      .anyOf(ids)
+      .filter(a => isCurrentAssignment(a, now))
+      .modify({ assigned_until: now });
+    await db.activities
+      .where('horse_id')
+      .anyOf(ids)
+      .filter(isOpenActivity)
+      .modify({ end_time: now });
+    await db.horses.where('id').anyOf(ids).modify({
+      deleted_at: now,
+      current_location_id: undefined,
+      current_activity: undefined,
+      updated_at: now
+    });
+  });
+}
+
+// Restoring a horse also restores its owner if the owner was archived too. The horse comes back
+// unassigned and idle; its stall and activity were ended when it was archived.
+export async function restoreHorses(horseIds: number[]): Promise<void> {
+  const now = new Date();
+  await db.transaction('rw', db.horses, db.owners, async () => {
+    const horses = await db.horses.bulkGet(horseIds);
+    const ownerIds = Array.from(new Set(horses.filter(Boolean).map(h => h!.owner_id)));
+
+    await db.horses.where('id').anyOf(horseIds).modify({ deleted_at: undefined, updated_at: now });
+    await db.owners
+      .where('id')
+      .anyOf(ownerIds)
+      .filter(owner => !isActive(owner))
+      .modify({ deleted_at: undefined, updated_at: now });
+  });
+}
+
+export async function archiveOwners(ownerIds: number[]): Promise<void> {
+  const now = new Date();
+  await db.transaction('rw', db.owners, async () => {
+    await db.owners
+      .where('id')
+      .anyOf(ownerIds)
+      .filter(isActive)
+      .modify({ deleted_at: now, updated_at: now });
+  });
+}
+
+export async function restoreOwners(ownerIds: number[]): Promise<void> {
+  const now = new Date();
+  await db.owners.where('id').anyOf(ownerIds).modify({ deleted_at: undefined, updated_at: now });
+}
+
+// Archived records, most recently removed first
+export async function getRecentlyRemoved(): Promise<{ horses: Horse[]; owners: Owner[] }> {
+  const [horses, owners] = await Promise.all([
+    db.horses.orderBy('deleted_at').reverse().toArray(),
+    db.owners.orderBy('deleted_at').reverse().toArray()
+  ]);
+  return { horses, owners };
+}
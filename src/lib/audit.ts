@@ -0,0 +1,102 @@
+import Dexie, { Transaction } from 'dexie';
+import { db, AuditLogEntry, User } from '@/lib/database';
+import { isSyncTransaction } from '@/lib/sync';
+import { isRestoreTransaction } from '@/lib/backup';
+
+// Tables whose writes are not worth auditing
+const UNAUDITED_TABLES = ['audit_log', 'sessions', 'sync_records', 'sync_conflicts'];
+
+// Fields never copied into audit snapshots
+const REDACTED_FIELDS = ['password_hash'];
+
+let currentActor: Pick<User, 'id' | 'username'> | null = null;
+let hooksInstalled = false;
+
+// Called by AuthContext whenever the signed-in user changes
+export function setAuditActor(user: Pick<User, 'id' | 'username'> | null) {
+  currentActor = user ? { id: user.id, username: user.username } : null;
+}
+
+function snapshot(obj: unknown): Record<string, unknown> | undefined {
+  if (!obj || typeof obj !== 'object') return undefined;
+  const copy = Dexie.deepClone(obj) as Record<string, unknown>;
+  REDACTED_FIELDS.forEach(field => {
+    if (field in copy) copy[field] = '[redacted]';
+  });
+  return copy;
+}
+
+// Entries are written once the originating transaction commits, so rolled-back writes leave no trace.
+// Changes pulled by sync were audited where they were made and arrive with their audit entries;
+// restored rows bring the audit entries that were backed up with them.
+function record(transaction: Transaction, entry: Omit<AuditLogEntry, 'id' | 'timestamp' | 'user_id' | 'username'>) {
+  if (isSyncTransaction(transaction) || isRestoreTransaction(transaction)) return;
+  const fullEntry: AuditLogEntry = {
+    ...entry,
+    user_id: currentActor?.id,
+    username: currentActor?.username,
+    timestamp: new Date()
+  };
+  transaction.on('complete', () => {
+    Dexie.ignoreTransaction(() => db.audit_log.add(fullEntry)).catch(error => {
+      console.error('Failed to write audit entry:', error);
+    });
+  });
+}
+
+export function installAuditHooks() {
+  if (hooksInstalled) return;
+  hooksInstalled = true;
+
+  db.tables
+    .filter(table => !UNAUDITED_TABLES.includes(table.name))
+    .forEach(table => {
+      table.hook('creating', function (primKey, obj, transaction) {
+        this.onsuccess = (key) => {
+          record(transaction, {
+            table_name: table.name,
+            record_id: key as number,
+            action: 'create',
+            after: snapshot({ ...obj, id: key })
+          });
+        };
+      });
+
+      table.hook('updating', function (modifications, primKey, obj, transaction) {
+        const after = Dexie.deepClone(obj);
+        Object.entries(modifications).forEach(([keyPath, value]) => {
+          Dexie.setByKeyPath(after, keyPath, value);
+        });
+        this.onsuccess = () => {
+          record(transaction, {
+            table_name: table.name,
+            record_id: primKey as number,
+            action: 'update',
+            before: snapshot(obj),
+            after: snapshot(after)
+          });
+        };
+      });
+
+      table.hook('deleting', function (primKey, obj, transaction) {
+        this.onsuccess = () => {
+          record(transaction, {
+            table_name: table.name,
+            record_id: primKey as number,
+            action: 'delete',
+            before: snapshot(obj)
+          });
+        };
+      });
+    });
+}
+
+// Field names whose values differ between two snapshots
+export function getChangedFields(entry: AuditLogEntry): string[] {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).filter(key =>
+    key !== 'updated_at' && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+}
@@ -0,0 +1,164 @@
+import Dexie, { Transaction } from 'dexie';
+import { db } from '@/lib/database';
+import { reviveDates } from '@/lib/utils';
+
+// Whole-database backup as a single JSON file. The archive records the schema version it was
+// made at and a SHA-256 checksum of its table data; a restore refuses files that fail either
+// check rather than writing data shaped for another schema.
+
+export const BACKUP_FORMAT = 'equine-command-center-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Sign-ins and sync bookkeeping belong to this browser, not to the data
+const EXCLUDED_TABLES = ['sessions', 'sync_records', 'sync_conflicts'];
+
+type Row = Record<string, unknown> & { id: number };
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  format_version: number;
+  database: string;
+  schema_version: number;
+  created_at: string;
+  created_by?: string;
+  checksum: string; // SHA-256 hex of JSON.stringify(tables)
+  tables: Record<string, Row[]>;
+}
+
+// 'replace' makes each table match the backup exactly; 'merge' writes the backup's rows over
+// rows with the same id and keeps rows the backup doesn't have
+export type RestoreMode = 'replace' | 'merge';
+
+export interface TableRestorePreview {
+  table: string;
+  in_backup: number;
+  current: number;
+  added: number;
+  overwritten: number;
+  removed: number;
+  after: number;
+}
+
+const restoreTransactions = new WeakSet<Transaction>();
+
+// Writes made by a restore: the restored audit log already covers them
+export const isRestoreTransaction = (transaction: Transaction) => restoreTransactions.has(transaction);
+
+const backupTables = () => db.tables.filter(table => !EXCLUDED_TABLES.includes(table.name));
+
+async function checksum(tables: BackupArchive['tables']): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(tables)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function getTableCounts(): Promise<Record<string, number>> {
+  const counts = await Promise.all(backupTables().map(async table => [table.name, await table.count()] as const));
+  return Object.fromEntries(counts);
+}
+
+// Reads every table in one transaction so the archive is a consistent snapshot
+export async function createBackup(createdBy?: string): Promise<BackupArchive> {
+  const tables = backupTables();
+  const data = await db.transaction('r', tables, async () => {
+    const entries = await Promise.all(tables.map(async table => [table.name, await table.toArray()] as const));
+    return Object.fromEntries(entries) as BackupArchive['tables'];
+  });
+  // Dates become ISO strings here, the same as when the file is read back
+  const tablesJson: BackupArchive['tables'] = JSON.parse(JSON.stringify(data));
+
+  return {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    database: db.name,
+    schema_version: db.verno,
+    created_at: new Date().toISOString(),
+    created_by: createdBy,
+    checksum: await checksum(tablesJson),
+    tables: tablesJson
+  };
+}
+
+export const backupFileName = (archive: BackupArchive) =>
+  `${archive.database}-backup-v${archive.schema_version}-${archive.created_at.replace(/[:.]/g, '-')}.json`;
+
+// Parses and checks a backup file: format, schema version, checksum and row shape
+export async function parseBackup(text: string): Promise<BackupArchive> {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!archive || archive.format !== BACKUP_FORMAT || !archive.tables || typeof archive.tables !== 'object') {
+    throw new Error('This file is not an Equine Command Center backup');
+  }
+  if (archive.format_version > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  if (archive.schema_version !== db.verno) {
+    throw new Error(
+      `This backup is from database schema version ${archive.schema_version}, but this app uses version ${db.verno}. ` +
+      'Restore it with the app version that created it.'
+    );
+  }
+  if (archive.checksum !== await checksum(archive.tables)) {
+    throw new Error('Backup checksum does not match; the file is damaged or was edited');
+  }
+
+  const expected = backupTables().map(table => table.name);
+  const unknown = Object.keys(archive.tables).filter(name => !expected.includes(name));
+  if (unknown.length > 0) throw new Error(`Backup contains unknown tables: ${unknown.join(', ')}`);
+  const missing = expected.filter(name => !(name in archive.tables));
+  if (missing.length > 0) throw new Error(`Backup is missing tables: ${missing.join(', ')}`);
+
+  for (const [name, rows] of Object.entries(archive.tables)) {
+    if (!Array.isArray(rows)) throw new Error(`Backup table ${name} is not a list of rows`);
+    const ids = new Set<number>();
+    for (const row of rows) {
+      if (!row || typeof row !== 'object' || !Number.isInteger(row.id) || row.id <= 0) {
+        throw new Error(`Backup table ${name} has a row without a valid id`);
+      }
+      if (ids.has(row.id)) throw new Error(`Backup table ${name} has id ${row.id} more than once`);
+      ids.add(row.id);
+    }
+  }
+  return archive;
+}
+
+export async function previewRestore(archive: BackupArchive, mode: RestoreMode): Promise<TableRestorePreview[]> {
+  return Promise.all(backupTables().map(async table => {
+    const rows = archive.tables[table.name];
+    const currentIds = new Set((await table.toCollection().primaryKeys()) as number[]);
+    const backupIds = new Set(rows.map(row => row.id));
+    const overwritten = rows.filter(row => currentIds.has(row.id)).length;
+    const removed = mode === 'replace' ? Array.from(currentIds).filter(id => !backupIds.has(id)).length : 0;
+    return {
+      table: table.name,
+      in_backup: rows.length,
+      current: currentIds.size,
+      added: rows.length - overwritten,
+      overwritten,
+      removed,
+      after: currentIds.size - removed + rows.length - overwritten
+    };
+  }));
+}
+
+// Restores an archive from parseBackup in one transaction; nothing is written if any table fails.
+// Replacing also signs every session out, since the users they belong to may have changed.
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<void> {
+  const tables = backupTables();
+  await db.transaction('rw', [...tables, db.sessions], async () => {
+    restoreTransactions.add(Dexie.currentTransaction);
+    for (const table of tables) {
+      const rows = archive.tables[table.name].map(row => reviveDates(row));
+      if (mode === 'replace') {
+        const backupIds = new Set(rows.map(row => row.id));
+        const currentIds = (await table.toCollection().primaryKeys()) as number[];
+        await table.bulkDelete(currentIds.filter(id => !backupIds.has(id)));
+      }
+      await table.bulkPut(rows);
+    }
+    if (mode === 'replace') await db.sessions.clear();
+  });
+}
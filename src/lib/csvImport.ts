@@ -0,0 +1,458 @@
+import Papa from 'papaparse';
+import { z } from 'zod';
+import { db, Horse, Location, Owner, Racetrack, Season, Stall } from '@/lib/database';
+import { assignHorse, getCurrentAssignments, hasStalls } from '@/lib/stalls';
+import { generateTrackingId } from '@/lib/horses';
+
+// The one CSV import for horses, owners and their placement. A file is parsed, every row is
+// checked against the schemas below and against the database, and the resulting plan is shown
+// before anything is written. Committing re-plans inside a single transaction and writes only if
+// no row has an error.
+//
+// Owners are matched by email. Horses are matched by tracking_id, or without one by name and
+// owner within the season. Blank cells leave existing values alone.
+
+export const IMPORT_COLUMNS = [
+  'horse_name',
+  'tracking_id',
+  'registration_number',
+  'breed',
+  'color',
+  'age',
+  'gender',
+  'status',
+  'owner_name',
+  'owner_email',
+  'owner_phone',
+  'owner_address',
+  'location',
+  'stall',
+  'season',
+  'racetrack'
+] as const;
+
+export type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+export const REQUIRED_COLUMNS: ImportColumn[] = ['owner_name', 'owner_email'];
+
+const HORSE_GENDERS: [Horse['gender'], ...Horse['gender'][]] = ['stallion', 'mare', 'gelding', 'filly', 'colt'];
+const HORSE_STATUSES: [Horse['status'], ...Horse['status'][]] = ['active', 'inactive', 'injured', 'retired'];
+
+// Headers are compared without case, spaces or punctuation, so HorseName and horse_name are the
+// same column. These cover the other names older exports used.
+const COLUMN_ALIASES: Record<string, ImportColumn> = {
+  locationname: 'location',
+  currentlocation: 'location',
+  stallnumber: 'stall'
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const HEADER_LOOKUP = new Map<string, ImportColumn>([
+  ...IMPORT_COLUMNS.map(column => [normalizeHeader(column), column] as const),
+  ...Object.entries(COLUMN_ALIASES)
+]);
+
+// Blank cells count as missing
+const blank = (value: unknown) => typeof value === 'string' ? (value.trim() || undefined) : value;
+const optional = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(blank, schema.optional());
+const lowercase = (value: unknown) => typeof value === 'string' ? value.toLowerCase() : value;
+
+const optionalText = optional(z.string().max(200));
+
+export const ownerRowSchema = z.object({
+  owner_name: z.preprocess(blank, z.string().max(200)),
+  owner_email: z.preprocess(blank, z.string().email('Not a valid email address')),
+  owner_phone: optionalText,
+  owner_address: optionalText
+});
+
+export const horseRowSchema = z.object({
+  horse_name: optionalText, // Blank for rows that only add or update an owner
+  tracking_id: optionalText,
+  registration_number: optionalText,
+  breed: optionalText,
+  color: optionalText,
+  age: optional(z.coerce.number({ invalid_type_error: 'Must be a number' }).int('Must be a whole number').min(0).max(40)),
+  gender: optional(z.preprocess(lowercase, z.enum(HORSE_GENDERS))),
+  status: optional(z.preprocess(lowercase, z.enum(HORSE_STATUSES)))
+});
+
+export const placementRowSchema = z.object({
+  location: optionalText,
+  stall: optionalText
+});
+
+// Files exported from a season say which one; they must match the season being imported into
+const seasonRowSchema = z.object({
+  season: optionalText,
+  racetrack: optionalText
+});
+
+const HORSE_ONLY_COLUMNS: ImportColumn[] = [
+  'tracking_id', 'registration_number', 'breed', 'color', 'age', 'gender', 'status', 'location', 'stall'
+];
+
+export const importRowSchema = ownerRowSchema
+  .merge(horseRowSchema)
+  .merge(placementRowSchema)
+  .merge(seasonRowSchema)
+  .superRefine((row, ctx) => {
+    if (!row.horse_name && HORSE_ONLY_COLUMNS.some(column => row[column] !== undefined)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['horse_name'], message: 'Required when horse or location columns are filled' });
+    }
+  });
+
+type ImportRow = z.infer<typeof importRowSchema>;
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export interface ParsedImportFile {
+  headers: string[]; // As written in the file
+  ignoredColumns: string[];
+  records: Record<string, string>[]; // Keyed by original header
+  parseErrors: Map<number, string[]>; // Record index -> CSV problems
+}
+
+export interface ImportContext {
+  season?: Season;
+  racetrack?: Racetrack;
+  userId: number; // Recorded on location assignments
+}
+
+export interface ImportRowPlan {
+  row: number; // 1 is the first row under the header
+  values: Record<string, string>;
+  errors: string[];
+  owner?: {
+    action: ImportAction;
+    email: string;
+    name: string;
+    id?: number;
+    changes: Partial<Owner>;
+  };
+  horse?: {
+    action: ImportAction;
+    name: string;
+    tracking_id?: string; // Generated on commit for new horses without one
+    id?: number;
+    changes: Partial<Horse>;
+    set_owner: boolean;
+  };
+  placement?: {
+    location: Location;
+    stall?: Stall;
+  };
+}
+
+export interface ImportPlan {
+  rows: ImportRowPlan[];
+  ignoredColumns: string[];
+  errorRows: number;
+  owners: Record<ImportAction, number>;
+  horses: Record<ImportAction, number>;
+  placements: number;
+}
+
+export function parseImportFile(text: string): ParsedImportFile {
+  const result = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: 'greedy' });
+  const headers = result.meta.fields ?? [];
+  const columns = new Set(headers.map(header => HEADER_LOOKUP.get(normalizeHeader(header))).filter(Boolean));
+
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.has(column));
+  if (missing.length > 0) throw new Error(`Missing required columns: ${missing.join(', ')}`);
+  if (result.data.length === 0) throw new Error('CSV file has no rows');
+
+  const parseErrors = new Map<number, string[]>();
+  result.errors.forEach(error => {
+    if (error.row === undefined) return;
+    parseErrors.set(error.row, [...(parseErrors.get(error.row) ?? []), error.message]);
+  });
+
+  return {
+    headers,
+    ignoredColumns: headers.filter(header => !HEADER_LOOKUP.has(normalizeHeader(header))),
+    records: result.data,
+    parseErrors
+  };
+}
+
+function toImportRow(values: Record<string, string>): Partial<Record<ImportColumn, string>> {
+  const row: Partial<Record<ImportColumn, string>> = {};
+  Object.entries(values).forEach(([header, value]) => {
+    const column = HEADER_LOOKUP.get(normalizeHeader(header));
+    if (column && row[column] === undefined) row[column] = value;
+  });
+  return row;
+}
+
+const issueMessage = (issue: z.ZodIssue) => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+
+const sameText = (a?: string, b?: string) => (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+// Fields in `incoming` that are set and differ from `existing`
+function diff<T extends object>(existing: T, incoming: Partial<T>): Partial<T> {
+  const changes: Partial<T> = {};
+  (Object.keys(incoming) as (keyof T)[]).forEach(key => {
+    if (incoming[key] !== undefined && incoming[key] !== existing[key]) changes[key] = incoming[key];
+  });
+  return changes;
+}
+
+const emptyCounts = (): Record<ImportAction, number> => ({ create: 0, update: 0, skip: 0 });
+
+// Works out what importing the file would do, without writing anything
+export async function planImport(file: ParsedImportFile, context: ImportContext): Promise<ImportPlan> {
+  const [owners, horses, locations, stalls, assignments] = await Promise.all([
+    db.owners.toArray(),
+    db.horses.toArray(),
+    db.locations.toArray(),
+    db.stalls.toArray(),
+    db.location_assignments.toArray()
+  ]);
+  const ownersByEmail = new Map(owners.map(o => [o.email, o]));
+  const horsesByTrackingId = new Map(horses.map(h => [h.tracking_id, h]));
+  const current = getCurrentAssignments(assignments);
+
+  // What earlier rows in the file already claimed
+  const fileOwners = new Map<string, { row: number; values: ImportRow }>();
+  const fileHorses = new Map<string, number>();
+  const claimedStalls = new Set<number>();
+  const placedAt = new Map<number, number>();
+
+  const plan: ImportPlan = { rows: [], ignoredColumns: file.ignoredColumns, errorRows: 0, owners: emptyCounts(), horses: emptyCounts(), placements: 0 };
+
+  file.records.forEach((values, index) => {
+    const rowPlan: ImportRowPlan = { row: index + 1, values, errors: [...(file.parseErrors.get(index) ?? [])] };
+    plan.rows.push(rowPlan);
+
+    const parsed = importRowSchema.safeParse(toImportRow(values));
+    if (!parsed.success) {
+      rowPlan.errors.push(...parsed.error.issues.map(issueMessage));
+      return;
+    }
+    const row = parsed.data;
+
+    if (row.season && !sameText(row.season, context.season?.name)) {
+      rowPlan.errors.push(`season: File is for ${row.season}, but ${context.season?.name ?? 'no season'} is selected`);
+    }
+    if (row.racetrack && !sameText(row.racetrack, context.racetrack?.name)) {
+      rowPlan.errors.push(`racetrack: File is for ${row.racetrack}, but ${context.racetrack?.name ?? 'no racetrack'} is selected`);
+    }
+
+    // Owner
+    const ownerFields: Partial<Owner> = { name: row.owner_name, phone: row.owner_phone, address: row.owner_address };
+    const existingOwner = ownersByEmail.get(row.owner_email);
+    const earlier = fileOwners.get(row.owner_email);
+    if (earlier) {
+      const conflicting = (['owner_name', 'owner_phone', 'owner_address'] as const)
+        .filter(key => row[key] !== undefined && earlier.values[key] !== undefined && row[key] !== earlier.values[key]);
+      if (conflicting.length > 0) {
+        rowPlan.errors.push(`${conflicting.join(', ')}: Differs from row ${earlier.row} for the same owner_email`);
+      }
+      rowPlan.owner = { action: 'skip', email: row.owner_email, name: row.owner_name, id: existingOwner?.id, changes: {} };
+    } else {
+      fileOwners.set(row.owner_email, { row: rowPlan.row, values: row });
+      if (!existingOwner) {
+        rowPlan.owner = { action: 'create', email: row.owner_email, name: row.owner_name, changes: ownerFields };
+      } else {
+        const changes = diff(existingOwner, ownerFields);
+        // Importing an archived owner brings them back
+        if (existingOwner.deleted_at) changes.deleted_at = undefined;
+        const action = Object.keys(changes).length > 0 ? 'update' : 'skip';
+        rowPlan.owner = { action, email: row.owner_email, name: row.owner_name, id: existingOwner.id, changes };
+      }
+      plan.owners[rowPlan.owner.action]++;
+    }
+
+    if (!row.horse_name) return;
+
+    // Horse
+    const horseFields: Partial<Horse> = {
+      name: row.horse_name,
+      registration_number: row.registration_number,
+      breed: row.breed,
+      color: row.color,
+      age: row.age,
+      gender: row.gender,
+      status: row.status
+    };
+    const existingHorse = row.tracking_id
+      ? horsesByTrackingId.get(row.tracking_id)
+      : existingOwner && horses.find(h =>
+        !h.deleted_at && h.owner_id === existingOwner.id && h.season_id === context.season?.id && sameText(h.name, row.horse_name));
+    const horseKey = row.tracking_id ?? `${row.owner_email}:${row.horse_name.toLowerCase()}`;
+    if (fileHorses.has(horseKey)) {
+      rowPlan.errors.push(`${row.tracking_id ? 'tracking_id' : 'horse_name'}: Same horse as row ${fileHorses.get(horseKey)}`);
+    }
+    fileHorses.set(horseKey, rowPlan.row);
+
+    if (!existingHorse) {
+      if (!row.gender) rowPlan.errors.push('gender: Required for new horses');
+      rowPlan.horse = {
+        action: 'create',
+        name: row.horse_name,
+        tracking_id: row.tracking_id,
+        changes: { ...horseFields, status: row.status ?? 'active' },
+        set_owner: true
+      };
+    } else {
+      if (existingHorse.season_id !== undefined && existingHorse.season_id !== context.season?.id) {
+        rowPlan.errors.push(`tracking_id: ${existingHorse.tracking_id} belongs to a horse in another season`);
+      }
+      const changes = diff(existingHorse, horseFields);
+      if (existingHorse.deleted_at) changes.deleted_at = undefined;
+      const setOwner = existingHorse.owner_id !== existingOwner?.id;
+      rowPlan.horse = {
+        action: Object.keys(changes).length > 0 || setOwner ? 'update' : 'skip',
+        name: row.horse_name,
+        tracking_id: existingHorse.tracking_id,
+        id: existingHorse.id,
+        changes,
+        set_owner: setOwner
+      };
+    }
+    plan.horses[rowPlan.horse.action]++;
+
+    if (!row.location) return;
+
+    // Placement
+    const location = locations.find(l => sameText(l.name, row.location));
+    if (!location) {
+      rowPlan.errors.push(`location: No location named ${row.location}`);
+      return;
+    }
+    const occupants = Array.from(current.values())
+      .filter(a => a.location_id === location.id && a.horse_id !== existingHorse?.id);
+    const here = existingHorse && current.get(existingHorse.id!);
+    const currentStall = here?.location_id === location.id ? stalls.find(s => s.id === here.stall_id) : undefined;
+
+    // The same checks assignHorse makes at commit, counting horses placed by earlier rows
+    const placed = placedAt.get(location.id!) ?? 0;
+    const atCapacity = occupants.length + placed >= location.capacity;
+    const capacityError = `location: ${location.name} is at capacity (${location.capacity})`;
+
+    if (hasStalls(location)) {
+      const locationStalls = stalls
+        .filter(s => s.location_id === location.id)
+        .sort((a, b) => a.stall_number.localeCompare(b.stall_number, undefined, { numeric: true }));
+      const isTaken = (stall: Stall) => claimedStalls.has(stall.id!) || occupants.some(a => a.stall_id === stall.id);
+
+      if (row.stall) {
+        const stall = locationStalls.find(s => sameText(s.stall_number, row.stall));
+        if (!stall) {
+          rowPlan.errors.push(`stall: ${location.name} has no stall ${row.stall}`);
+        } else if (stall.id !== currentStall?.id) {
+          if (stall.out_of_service) {
+            rowPlan.errors.push(`stall: Stall ${stall.stall_number} in ${location.name} is out of service`);
+          } else if (isTaken(stall)) {
+            rowPlan.errors.push(`stall: Stall ${stall.stall_number} in ${location.name} is taken`);
+          } else if (atCapacity) {
+            rowPlan.errors.push(capacityError);
+          } else {
+            rowPlan.placement = { location, stall };
+          }
+        }
+      } else if (!here || here.location_id !== location.id) {
+        const stall = locationStalls.find(s => !s.out_of_service && !isTaken(s));
+        if (!stall) {
+          rowPlan.errors.push(`location: ${location.name} has no free stall`);
+        } else if (atCapacity) {
+          rowPlan.errors.push(capacityError);
+        } else {
+          rowPlan.placement = { location, stall };
+        }
+      }
+      if (rowPlan.placement?.stall) claimedStalls.add(rowPlan.placement.stall.id!);
+    } else if (row.stall) {
+      rowPlan.errors.push(`stall: ${location.name} does not have stalls`);
+    } else if (!here || here.location_id !== location.id) {
+      if (atCapacity) {
+        rowPlan.errors.push(capacityError);
+      } else {
+        rowPlan.placement = { location };
+      }
+    }
+    if (rowPlan.placement) placedAt.set(location.id!, placed + 1);
+    if (rowPlan.placement) plan.placements++;
+  });
+
+  plan.errorRows = plan.rows.filter(r => r.errors.length > 0).length;
+  return plan;
+}
+
+// Rows with errors as a CSV: the row number, the values as uploaded and what is wrong with them
+export function importErrorsCsv(file: ParsedImportFile, plan: ImportPlan): string {
+  return Papa.unparse({
+    fields: ['row', ...file.headers, 'errors'],
+    data: plan.rows
+      .filter(r => r.errors.length > 0)
+      .map(r => [r.row, ...file.headers.map(header => r.values[header] ?? ''), r.errors.join('; ')])
+  });
+}
+
+// Imports the whole file or nothing. The plan is worked out again inside the transaction, so
+// changes made since the preview are taken into account.
+export async function commitImport(file: ParsedImportFile, context: ImportContext): Promise<ImportPlan> {
+  return db.transaction('rw', [db.owners, db.horses, db.locations, db.stalls, db.location_assignments], async () => {
+    const plan = await planImport(file, context);
+    if (plan.errorRows > 0) throw new Error(`${plan.errorRows} row(s) have errors; nothing was imported`);
+
+    const now = new Date();
+    const ownerIds = new Map<string, number>();
+    const reservedTrackingIds = new Set(plan.rows.map(r => r.horse?.tracking_id).filter(Boolean) as string[]);
+
+    for (const row of plan.rows) {
+      const owner = row.owner!;
+      if (owner.action === 'create') {
+        ownerIds.set(owner.email, await db.owners.add({
+          ...owner.changes,
+          name: owner.name,
+          email: owner.email,
+          created_at: now,
+          updated_at: now
+        }));
+      } else {
+        if (owner.action === 'update') await db.owners.update(owner.id!, { ...owner.changes, updated_at: now });
+        if (!ownerIds.has(owner.email)) ownerIds.set(owner.email, owner.id!);
+      }
+
+      const horse = row.horse;
+      if (!horse) continue;
+      const ownerId = ownerIds.get(owner.email)!;
+      let horseId = horse.id;
+      if (horse.action === 'create') {
+        const trackingId = horse.tracking_id ?? await generateTrackingId(reservedTrackingIds);
+        reservedTrackingIds.add(trackingId);
+        horseId = await db.horses.add({
+          ...horse.changes,
+          name: horse.name,
+          gender: horse.changes.gender!,
+          status: horse.changes.status!,
+          tracking_id: trackingId,
+          owner_id: ownerId,
+          season_id: context.season?.id,
+          created_at: now,
+          updated_at: now
+        });
+      } else if (horse.action === 'update') {
+        await db.horses.update(horseId!, {
+          ...horse.changes,
+          ...(horse.set_owner ? { owner_id: ownerId } : {}),
+          updated_at: now
+        });
+      }
+
+      if (row.placement) {
+        await assignHorse({
+          horse_id: horseId!,
+          location_id: row.placement.location.id!,
+          stall_id: row.placement.stall?.id,
+          assigned_by: context.userId,
+          season_id: context.season?.id
+        });
+      }
+    }
+    return plan;
+  });
+}
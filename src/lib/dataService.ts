@@ -0,0 +1,190 @@
+import { Table } from 'dexie';
+import { db } from '@/lib/database';
+import { archiveHorses, archiveOwners, isActive } from '@/lib/archive';
+
+// Referential rules between tables. IndexedDB has no foreign keys, so every delete of a
+// parent record goes through here to keep child rows from pointing at nothing.
+export type ReferentialAction = 'restrict' | 'cascade' | 'nullify';
+
+// 'archive' soft-deletes horses/owners and leaves their history in place;
+// 'delete' removes records permanently and applies every rule
+export type RemovalMode = 'archive' | 'delete';
+
+interface Relationship {
+  parent: string;
+  child: string;
+  foreignKey: string;
+  onDelete: ReferentialAction;
+  label: string; // Plural description of the child rows
+}
+
+export const RELATIONSHIPS: Relationship[] = [
+  { parent: 'owners', child: 'horses', foreignKey: 'owner_id', onDelete: 'restrict', label: 'horses' },
+  { parent: 'owners', child: 'owner_charges', foreignKey: 'owner_id', onDelete: 'cascade', label: 'ledger charges' },
+  { parent: 'horses', child: 'race_participants', foreignKey: 'horse_id', onDelete: 'cascade', label: 'race entries' },
+  { parent: 'horses', child: 'activities', foreignKey: 'horse_id', onDelete: 'cascade', label: 'activities' },
+  { parent: 'horses', child: 'drug_tests', foreignKey: 'horse_id', onDelete: 'cascade', label: 'drug tests' },
+  { parent: 'horses', child: 'veterinary_records', foreignKey: 'horse_id', onDelete: 'cascade', label: 'veterinary records' },
+  { parent: 'horses', child: 'location_assignments', foreignKey: 'horse_id', onDelete: 'cascade', label: 'location assignments' },
+  { parent: 'horses', child: 'medication_administrations', foreignKey: 'horse_id', onDelete: 'cascade', label: 'medication administrations' },
+  { parent: 'horses', child: 'owner_charges', foreignKey: 'horse_id', onDelete: 'nullify', label: 'ledger charges' },
+  { parent: 'horses', child: 'incidents', foreignKey: 'horse_id', onDelete: 'cascade', label: 'incidents' },
+  { parent: 'incidents', child: 'incident_notes', foreignKey: 'incident_id', onDelete: 'cascade', label: 'incident notes' },
+  { parent: 'veterinary_records', child: 'medication_administrations', foreignKey: 'veterinary_record_id', onDelete: 'nullify', label: 'medication administrations' },
+  { parent: 'drug_tests', child: 'custody_handoffs', foreignKey: 'drug_test_id', onDelete: 'cascade', label: 'custody handoffs' },
+  { parent: 'drug_tests', child: 'race_participants', foreignKey: 'failed_drug_test_id', onDelete: 'nullify', label: 'flagged race results' },
+  { parent: 'races', child: 'race_participants', foreignKey: 'race_id', onDelete: 'cascade', label: 'race entries' },
+  { parent: 'races', child: 'drug_tests', foreignKey: 'race_id', onDelete: 'nullify', label: 'drug tests' },
+  { parent: 'locations', child: 'location_assignments', foreignKey: 'location_id', onDelete: 'restrict', label: 'location assignments' },
+  { parent: 'locations', child: 'stalls', foreignKey: 'location_id', onDelete: 'cascade', label: 'stalls' },
+  { parent: 'stalls', child: 'location_assignments', foreignKey: 'stall_id', onDelete: 'restrict', label: 'stall assignments' },
+  { parent: 'locations', child: 'horses', foreignKey: 'current_location_id', onDelete: 'nullify', label: 'horses located there' },
+  { parent: 'locations', child: 'activities', foreignKey: 'location_id', onDelete: 'nullify', label: 'activities' }
+];
+
+const ARCHIVABLE_TABLES = ['horses', 'owners'];
+
+export interface RemovalImpact {
+  table: string;
+  label: string;
+  foreignKey: string;
+  action: ReferentialAction;
+  // What happens to the rows: 'blocks' stops the removal, 'kept' rows stay linked to an archived record
+  effect: 'blocks' | 'deleted' | 'cleared' | 'kept';
+  ids: number[];
+}
+
+export interface RemovalPlan {
+  mode: RemovalMode;
+  table: string;
+  ids: number[];
+  impacts: RemovalImpact[];
+  blocked: boolean;
+}
+
+function childRows(relationship: Relationship, parentIds: number[]): Promise<{ id?: number; deleted_at?: Date }[]> {
+  const table: Table = db.table(relationship.child);
+  if (table.schema.idxByName[relationship.foreignKey]) {
+    return table.where(relationship.foreignKey).anyOf(parentIds).toArray();
+  }
+  return table.filter(row => parentIds.includes(row[relationship.foreignKey])).toArray();
+}
+
+async function collectImpacts(
+  mode: RemovalMode,
+  tableName: string,
+  ids: number[],
+  impacts: RemovalImpact[],
+  visited: Set<string>
+) {
+  for (const relationship of RELATIONSHIPS.filter(r => r.parent === tableName)) {
+    const key = `${relationship.parent}.${relationship.child}.${relationship.foreignKey}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    let rows = await childRows(relationship, ids);
+    // Archived children never block archiving their parent, but still block a permanent delete
+    if (mode === 'archive') rows = rows.filter(isActive);
+    if (rows.length === 0) continue;
+
+    const childIds = rows.map(row => row.id!);
+    let effect: RemovalImpact['effect'];
+    if (relationship.onDelete === 'restrict') {
+      effect = 'blocks';
+    } else if (mode === 'archive') {
+      effect = 'kept';
+    } else {
+      effect = relationship.onDelete === 'cascade' ? 'deleted' : 'cleared';
+    }
+
+    impacts.push({
+      table: relationship.child,
+      label: relationship.label,
+      foreignKey: relationship.foreignKey,
+      action: relationship.onDelete,
+      effect,
+      ids: childIds
+    });
+
+    if (effect === 'deleted') {
+      await collectImpacts(mode, relationship.child, childIds, impacts, visited);
+    }
+  }
+}
+
+function involvedTables(tableName: string): string[] {
+  const tables = new Set([tableName]);
+  let added = true;
+  while (added) {
+    added = false;
+    RELATIONSHIPS.filter(r => tables.has(r.parent) && !tables.has(r.child)).forEach(r => {
+      tables.add(r.child);
+      added = true;
+    });
+  }
+  return Array.from(tables);
+}
+
+// Lists every dependent record a removal would touch, without changing anything
+export async function previewRemoval(tableName: string, ids: number[], mode: RemovalMode): Promise<RemovalPlan> {
+  if (mode === 'archive' && !ARCHIVABLE_TABLES.includes(tableName)) {
+    throw new Error(`${tableName} records cannot be archived`);
+  }
+
+  const impacts: RemovalImpact[] = [];
+  await collectImpacts(mode, tableName, ids, impacts, new Set());
+  return {
+    mode,
+    table: tableName,
+    ids,
+    impacts,
+    blocked: impacts.some(impact => impact.effect === 'blocks')
+  };
+}
+
+// Applies the removal and all of its rules in one transaction; nothing is written if a restrict rule fails
+export async function removeRecords(tableName: string, ids: number[], mode: RemovalMode): Promise<RemovalPlan> {
+  const tables = involvedTables(tableName).map(name => db.table(name));
+
+  return db.transaction('rw', tables, async () => {
+    // Re-plan inside the transaction so the rules see the same data that gets written
+    const plan = await previewRemoval(tableName, ids, mode);
+    if (plan.blocked) {
+      const blocking = plan.impacts.filter(impact => impact.effect === 'blocks');
+      throw new Error(
+        `Cannot remove: still referenced by ${blocking.map(impact => `${impact.ids.length} ${impact.label}`).join(', ')}`
+      );
+    }
+
+    if (mode === 'archive') {
+      if (tableName === 'horses') await archiveHorses(ids);
+      if (tableName === 'owners') await archiveOwners(ids);
+      return plan;
+    }
+
+    // Clear references first, then delete children before their parents
+    for (const impact of plan.impacts.filter(i => i.effect === 'cleared')) {
+      await db.table(impact.table).where('id').anyOf(impact.ids).modify({ [impact.foreignKey]: undefined });
+    }
+    for (const impact of [...plan.impacts].reverse().filter(i => i.effect === 'deleted')) {
+      await db.table(impact.table).bulkDelete(impact.ids);
+    }
+    await db.table(tableName).bulkDelete(ids);
+
+    return plan;
+  });
+}
+
+export function describeImpact(impact: RemovalImpact): string {
+  const count = `${impact.ids.length} ${impact.label}`;
+  switch (impact.effect) {
+    case 'blocks': return `${count} still reference it and must be removed first`;
+    case 'deleted': return `${count} will be deleted`;
+    case 'cleared': return `${count} will have their ${impact.foreignKey.replace(/_/g, ' ')} cleared`;
+    case 'kept':
+      // Archiving a horse ends what it is doing now; restoring does not start it again
+      return ['location_assignments', 'activities'].includes(impact.table)
+        ? `${count} will be kept as history; any current one is ended and not brought back on restore`
+        : `${count} will be kept as history`;
+  }
+}
@@ -1,4 +1,5 @@
 import Dexie, { Table } from 'dexie';
+import { hashPassword, isPasswordHash } from '@/lib/password';
 
 // Database interfaces matching future SQL schema
 export interface User {
@@ -7,10 +8,21 @@ export interface User {
   email: string;
   role: 'admin' | 'owner' | 'viewer';
   password_hash: string;
+  must_change_password?: boolean; // Set for seeded default accounts until the password is changed
+  password_changed_at?: Date;
+  disabled?: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface Session {
+  id?: number;
+  token: string;
+  user_id: number;
+  created_at: Date;
+  expires_at: Date;
+}
+
 export interface Owner {
   id?: number;
   name: string;
@@ -18,6 +30,7 @@ export interface Owner {
   phone?: string;
   address?: string;
   user_id?: number;
+  deleted_at?: Date; // Set when archived; see lib/archive
   created_at: Date;
   updated_at: Date;
 }
@@ -35,6 +48,8 @@ export interface Horse {
   status: 'active' | 'inactive' | 'injured' | 'retired';
   current_location_id?: number;
   current_activity?: string;
+  season_id?: number;
+  deleted_at?: Date; // Set when archived; see lib/archive
   created_at: Date;
   updated_at: Date;
 }
@@ -43,13 +58,32 @@ export interface Location {
   id?: number;
   name: string;
   type: 'stable' | 'paddock' | 'track' | 'barn' | 'medical' | 'quarantine';
-  capacity: number;
-  current_occupancy: number;
+  capacity: number; // Occupancy is derived from open assignments; see lib/stalls
   description?: string;
+  floor_plan?: FloorPlan;
   created_at: Date;
   updated_at: Date;
 }
 
+// Layout drawn in the floor plan editor. Coordinates are SVG user units from the top-left corner.
+export interface FloorPlan {
+  width: number;
+  height: number;
+  shapes: FloorPlanShape[];
+}
+
+export interface FloorPlanShape {
+  key: string;
+  kind: 'stall' | 'paddock' | 'track' | 'aisle';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+  stall_id?: number; // Stall shapes only
+  location_id?: number; // Paddock and track zones may stand for another location
+}
+
 export interface Activity {
   id?: number;
   horse_id: number;
@@ -71,6 +105,15 @@ export interface Race {
   purse?: number;
   race_type: string;
   status: 'scheduled' | 'running' | 'completed' | 'cancelled';
+  min_age?: number; // Entry eligibility limits, inclusive
+  max_age?: number;
+  entries_close_at?: Date; // No new entries after this; the draw can run once it passes
+  drawn_at?: Date; // When post positions were last drawn
+  final_time?: string; // Winner's time, e.g. 1:35.42
+  purse_split?: number[]; // Percent of purse per official position; see lib/raceResults
+  official_at?: Date; // Results are locked once official
+  official_by?: number;
+  season_id?: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -82,7 +125,15 @@ export interface RaceParticipant {
   jockey_name?: string;
   post_position?: number;
   odds?: string;
-  finish_position?: number;
+  order_of_finish?: number; // As they crossed the wire; blank when the horse did not finish
+  beaten_lengths?: number;
+  disqualified?: boolean;
+  dq_placed_position?: number; // Where the stewards placed a disqualified horse
+  finish_position?: number; // Official placing
+  purse_earned?: number;
+  failed_drug_test_id?: number; // Set when this start's post-race test comes back failed
+  scratched_at?: Date; // Scratched entries stay on the card but do not start
+  scratch_reason?: string;
   created_at: Date;
 }
 
@@ -96,6 +147,9 @@ export interface VeterinaryRecord {
   medications?: string;
   notes?: string;
   follow_up_required: boolean;
+  follow_up_date?: Date; // When the follow-up exam is due
+  follow_up_completed_at?: Date;
+  recorded_by?: number; // user_id
   created_at: Date;
   updated_at: Date;
 }
@@ -110,6 +164,76 @@ export interface DrugTest {
   substances_tested?: string;
   results?: string;
   notes?: string;
+  sample_id?: string;
+  collected_by?: string;
+  collected_at?: Date;
+  lab?: string;
+  resulted_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A single dose given to a horse
+export interface MedicationAdministration {
+  id?: number;
+  horse_id: number;
+  substance: string; // Matches WithdrawalRule.substance
+  dose: string;
+  route: 'oral' | 'intravenous' | 'intramuscular' | 'subcutaneous' | 'topical' | 'inhaled';
+  administered_at: Date;
+  administered_by: string;
+  veterinary_record_id?: number;
+  notes?: string;
+  recorded_by?: number; // user_id
+  created_at: Date;
+}
+
+// A bill to an owner; purse earnings are credited from race results, see lib/ledger
+export interface OwnerCharge {
+  id?: number;
+  owner_id: number;
+  horse_id?: number;
+  charge_type: 'stall' | 'training' | 'veterinary' | 'other';
+  description: string;
+  amount: number;
+  charge_date: Date;
+  period_start?: Date; // Billing period for generated stall charges
+  period_end?: Date;
+  recorded_by?: number;
+  created_at: Date;
+}
+
+// How long after a dose a horse may not race
+export interface WithdrawalRule {
+  id?: number;
+  substance: string;
+  withdrawal_hours: number;
+  notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// One link in a drug test sample's chain of custody
+export interface CustodyHandoff {
+  id?: number;
+  drug_test_id: number;
+  from_party: string;
+  to_party: string;
+  handed_at: Date;
+  notes?: string;
+  recorded_by?: number; // user_id
+  created_at: Date;
+}
+
+// A numbered stall inside a barn or stable; holds one horse at a time
+export interface Stall {
+  id?: number;
+  location_id: number;
+  stall_number: string; // Unique within its location
+  size: 'standard' | 'large' | 'foaling';
+  features: string[];
+  out_of_service: boolean;
+  out_of_service_reason?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -118,10 +242,98 @@ export interface LocationAssignment {
   id?: number;
   horse_id: number;
   location_id: number;
+  stall_id?: number; // Required when the location has stalls
   assigned_at: Date;
   assigned_until?: Date;
   assigned_by: number; // user_id
   notes?: string;
+  season_id?: number;
+}
+
+// A detected problem someone is accountable for. One unresolved incident per rule and
+// horse; it stays open after the problem clears until a user resolves it. See lib/incidents
+export interface Incident {
+  id?: number;
+  rule_id: string;
+  horse_id: number;
+  severity: 'critical' | 'warning';
+  title: string;
+  details: string;
+  remediation: string;
+  status: 'open' | 'acknowledged' | 'resolved';
+  detected_at: Date;
+  cleared_at?: Date; // When the rules stopped detecting the problem
+  acknowledged_at?: Date;
+  acknowledged_by?: number; // user_id
+  assigned_to?: number; // user_id
+  resolved_at?: Date;
+  resolved_by?: number; // user_id
+  resolution?: string;
+}
+
+export interface IncidentNote {
+  id?: number;
+  incident_id: number;
+  user_id: number;
+  note: string;
+  created_at: Date;
+}
+
+export interface Racetrack {
+  id?: number;
+  name: string;
+  code?: string; // Short track code, e.g. DMR
+  city?: string;
+  problem_rules?: Record<string, boolean>; // Rule id -> enabled; see lib/rules
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AuditLogEntry {
+  id?: number;
+  table_name: string;
+  record_id?: number;
+  action: 'create' | 'update' | 'delete';
+  user_id?: number; // Acting user; empty for system writes
+  username?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+// Sync bookkeeping for one local record; see lib/sync. version is the server version the
+// local copy is based on, 0 until the record has been pushed or pulled.
+export interface SyncRecord {
+  table_name: string;
+  record_id: number;
+  version: number;
+  dirty: 0 | 1; // Changed locally since the last push; numeric so it can be indexed
+  deleted: 0 | 1;
+  changed_at: Date;
+}
+
+// A record changed both here and on the server since the last sync. Neither side is
+// pushed or pulled until a user picks one.
+export interface SyncConflict {
+  id?: number;
+  table_name: string;
+  record_id: number;
+  local_record?: Record<string, unknown>; // Empty when deleted here
+  server_record?: Record<string, unknown>; // Empty when deleted on the server
+  server_version: number;
+  detected_at: Date;
+}
+
+// A season is a single race meet at one racetrack
+export interface Season {
+  id?: number;
+  racetrack_id: number;
+  name: string;
+  year: number;
+  start_date: Date;
+  end_date: Date;
+  created_at: Date;
+  updated_at: Date;
 }
 
 // Database class
@@ -135,7 +347,20 @@ export class EquineDatabase extends Dexie {
   race_participants!: Table<RaceParticipant>;
   veterinary_records!: Table<VeterinaryRecord>;
   drug_tests!: Table<DrugTest>;
+  custody_handoffs!: Table<CustodyHandoff>;
+  medication_administrations!: Table<MedicationAdministration>;
+  withdrawal_rules!: Table<WithdrawalRule>;
+  owner_charges!: Table<OwnerCharge>;
+  stalls!: Table<Stall>;
   location_assignments!: Table<LocationAssignment>;
+  incidents!: Table<Incident>;
+  incident_notes!: Table<IncidentNote>;
+  sync_records!: Table<SyncRecord, [string, number]>;
+  sync_conflicts!: Table<SyncConflict>;
+  racetracks!: Table<Racetrack>;
+  seasons!: Table<Season>;
+  sessions!: Table<Session>;
+  audit_log!: Table<AuditLogEntry>;
 
   constructor() {
     super('EquineCommandCenter');
@@ -152,9 +377,240 @@ export class EquineDatabase extends Dexie {
       drug_tests: '++id, horse_id, race_id, test_date, status',
       location_assignments: '++id, horse_id, location_id, assigned_at'
     });
+
+    // Version 2: seasons and racetracks, with season foreign keys on horses, races and assignments
+    this.version(2).stores({
+      racetracks: '++id, name',
+      seasons: '++id, racetrack_id, year, name',
+      horses: '++id, tracking_id, name, owner_id, status, current_location_id, season_id',
+      races: '++id, name, race_date, status, season_id',
+      location_assignments: '++id, horse_id, location_id, assigned_at, season_id'
+    }).upgrade(async tx => {
+      // Nothing to backfill on an empty database; initializeDatabase seeds it
+      if (await tx.table('users').count() === 0) return;
+
+      const { racetrack, season } = defaultSeasonData();
+      const racetrackId = await tx.table('racetracks').add(racetrack);
+      const seasonId = await tx.table('seasons').add({ ...season, racetrack_id: racetrackId });
+
+      // Existing records all belong to the default season
+      await tx.table('horses').toCollection().modify({ season_id: seasonId });
+      await tx.table('races').toCollection().modify({ season_id: seasonId });
+      await tx.table('location_assignments').toCollection().modify({ season_id: seasonId });
+    });
+
+    // Version 3: session tokens; plain-text passwords are rehashed on next login and must be changed
+    this.version(3).stores({
+      sessions: '++id, &token, user_id, expires_at'
+    }).upgrade(async tx => {
+      await tx.table('users')
+        .filter((user: User) => !isPasswordHash(user.password_hash))
+        .modify({ must_change_password: true });
+    });
+
+    // Version 4: owner users are linked through owners.user_id rather than a matching email
+    this.version(4).stores({}).upgrade(async tx => {
+      const ownerUsers: User[] = await tx.table('users').where('role').equals('owner').toArray();
+      for (const ownerUser of ownerUsers) {
+        await tx.table('owners')
+          .where('email')
+          .equals(ownerUser.email)
+          .filter((owner: Owner) => !owner.user_id)
+          .modify({ user_id: ownerUser.id });
+      }
+    });
+
+    // Version 5: audit log of every write, filled by the hooks in lib/audit
+    this.version(5).stores({
+      audit_log: '++id, table_name, record_id, action, user_id, timestamp'
+    });
+
+    // Version 6: horses and owners are archived rather than deleted
+    this.version(6).stores({
+      owners: '++id, name, email, user_id, deleted_at',
+      horses: '++id, tracking_id, name, owner_id, status, current_location_id, season_id, deleted_at'
+    });
+
+    // Version 7: veterinary follow-ups are scheduled with a due date
+    this.version(7).stores({
+      veterinary_records: '++id, horse_id, examination_date, follow_up_date'
+    });
+
+    // Version 8: drug test samples and their chain of custody
+    this.version(8).stores({
+      drug_tests: '++id, horse_id, race_id, test_date, status, sample_id',
+      custody_handoffs: '++id, drug_test_id, handed_at'
+    });
+
+    // Version 9: structured medication log and per-substance withdrawal times
+    this.version(9).stores({
+      medication_administrations: '++id, horse_id, substance, administered_at',
+      withdrawal_rules: '++id, &substance'
+    }).upgrade(async tx => {
+      if (await tx.table('users').count() === 0) return;
+      await tx.table('withdrawal_rules').bulkAdd(defaultWithdrawalRules());
+    });
+
+    // Version 10: owner charges for the earnings ledger
+    this.version(10).stores({
+      owner_charges: '++id, owner_id, horse_id, charge_type, charge_date'
+    });
+
+    // Version 11: stalls inside barns, assignments to a specific stall, derived occupancy
+    this.version(11).stores({
+      stalls: '++id, location_id, &[location_id+stall_number]',
+      location_assignments: '++id, horse_id, location_id, assigned_at, season_id, stall_id'
+    }).upgrade(async tx => {
+      await tx.table('locations').toCollection().modify((location: Location & { current_occupancy?: number }) => {
+        delete location.current_occupancy;
+      });
+      if (await tx.table('users').count() === 0) return;
+
+      const now = new Date();
+      const locations: Location[] = await tx.table('locations').toArray();
+      const openAssignments: LocationAssignment[] = await tx.table('location_assignments')
+        .filter((a: LocationAssignment) => !a.assigned_until || a.assigned_until > now)
+        .toArray();
+
+      for (const location of locations.filter(l => STALL_LOCATION_TYPES.includes(l.type.toLowerCase()))) {
+        const occupants = openAssignments.filter(a => a.location_id === location.id);
+        const stallIds = await tx.table('stalls').bulkAdd(
+          defaultStalls(location.id!, Math.max(location.capacity, occupants.length)),
+          { allKeys: true }
+        );
+        for (const [index, assignment] of occupants.entries()) {
+          await tx.table('location_assignments').update(assignment.id!, { stall_id: stallIds[index] });
+        }
+      }
+    });
+
+    // Version 12: a horse has at most one open assignment and current_location_id follows it.
+    // Older open assignments are closed when the newest one started.
+    this.version(12).stores({}).upgrade(async tx => {
+      if (await tx.table('users').count() === 0) return;
+
+      const now = new Date();
+      const openAssignments: LocationAssignment[] = (await tx.table('location_assignments')
+        .filter((a: LocationAssignment) => a.assigned_at <= now && (!a.assigned_until || a.assigned_until > now))
+        .toArray())
+        .sort((a: LocationAssignment, b: LocationAssignment) => b.assigned_at.getTime() - a.assigned_at.getTime());
+
+      const latest = new Map<number, LocationAssignment>();
+      for (const assignment of openAssignments) {
+        const newer = latest.get(assignment.horse_id);
+        if (newer) {
+          await tx.table('location_assignments').update(assignment.id!, { assigned_until: newer.assigned_at });
+        } else {
+          latest.set(assignment.horse_id, assignment);
+        }
+      }
+
+      await tx.table('horses').toCollection().modify((horse: Horse) => {
+        const current = latest.get(horse.id!);
+        if (current) {
+          horse.current_location_id = current.location_id;
+        } else {
+          delete horse.current_location_id;
+        }
+      });
+    });
+
+    // Version 13: current_activity is only set while an activity row is open
+    this.version(13).stores({}).upgrade(async tx => {
+      if (await tx.table('users').count() === 0) return;
+
+      const openActivities: Activity[] = await tx.table('activities').filter((a: Activity) => !a.end_time).toArray();
+      const openByHorse = new Map(openActivities.map(a => [a.horse_id, a]));
+      const activityTypes: string[] = ['training', 'racing', 'walking', 'resting', 'medical', 'transport'];
+      const adminUser: User | undefined = await tx.table('users').where('role').equals('admin').first();
+
+      const horses: Horse[] = await tx.table('horses').toArray();
+      for (const horse of horses) {
+        const open = openByHorse.get(horse.id!);
+        if (open) {
+          await tx.table('horses').update(horse.id!, { current_activity: open.activity_type });
+        } else if (horse.current_activity && activityTypes.includes(horse.current_activity) && adminUser) {
+          await tx.table('activities').add({
+            horse_id: horse.id!,
+            activity_type: horse.current_activity,
+            start_time: horse.updated_at,
+            recorded_by: adminUser.id!,
+            created_at: new Date()
+          });
+        } else if (horse.current_activity !== undefined) {
+          await tx.table('horses').update(horse.id!, { current_activity: undefined });
+        }
+      }
+    });
+
+    // Version 14: incidents raised from detected problems, with notes
+    this.version(14).stores({
+      incidents: '++id, [rule_id+horse_id], horse_id, status, severity, detected_at, assigned_to',
+      incident_notes: '++id, incident_id, created_at'
+    });
+
+    // Version 15: per-record sync versions and unresolved sync conflicts
+    this.version(15).stores({
+      sync_records: '[table_name+record_id], dirty',
+      sync_conflicts: '++id, &[table_name+record_id], detected_at'
+    });
   }
 }
 
+// Default racetrack and current-year season used for seeding and migration
+function defaultSeasonData() {
+  const year = new Date().getFullYear();
+  return {
+    racetrack: {
+      name: 'Del Mar Racetrack',
+      code: 'DMR',
+      city: 'Del Mar, CA',
+      created_at: new Date(),
+      updated_at: new Date()
+    },
+    season: {
+      name: `${year} Summer Meet`,
+      year,
+      start_date: new Date(year, 0, 1),
+      end_date: new Date(year, 11, 31),
+      created_at: new Date(),
+      updated_at: new Date()
+    }
+  };
+}
+
+// Location types that are divided into stalls
+export const STALL_LOCATION_TYPES = ['barn', 'stable'];
+
+// Numbered stalls for a barn; every tenth stall is a large box
+function defaultStalls(locationId: number, count: number): Stall[] {
+  return Array.from({ length: count }, (_, index) => ({
+    location_id: locationId,
+    stall_number: String(index + 1).padStart(2, '0'),
+    size: (index + 1) % 10 === 0 ? 'large' as const : 'standard' as const,
+    features: [],
+    out_of_service: false,
+    created_at: new Date(),
+    updated_at: new Date()
+  }));
+}
+
+// Starting withdrawal table; stewards adjust it from the Veterinary page
+function defaultWithdrawalRules(): WithdrawalRule[] {
+  const now = new Date();
+  return [
+    { substance: 'Phenylbutazone', withdrawal_hours: 48 },
+    { substance: 'Flunixin', withdrawal_hours: 48 },
+    { substance: 'Ketoprofen', withdrawal_hours: 24 },
+    { substance: 'Dexamethasone', withdrawal_hours: 72 },
+    { substance: 'Methylprednisolone', withdrawal_hours: 336 },
+    { substance: 'Acepromazine', withdrawal_hours: 48 },
+    { substance: 'Clenbuterol', withdrawal_hours: 336 },
+    { substance: 'Furosemide', withdrawal_hours: 4 },
+    { substance: 'Omeprazole', withdrawal_hours: 24 }
+  ].map(rule => ({ ...rule, created_at: now, updated_at: now }));
+}
+
 export const db = new EquineDatabase();
 
 // Initialize default data
@@ -168,7 +624,8 @@ export async function initializeDatabase() {
     username: 'admin',
     email: 'admin@delmar.com',
     role: 'admin',
-    password_hash: 'admin123', // In real app, this would be properly hashed
+    password_hash: await hashPassword('admin123'),
+    must_change_password: true,
     created_at: new Date(),
     updated_at: new Date()
   });
@@ -178,7 +635,8 @@ export async function initializeDatabase() {
     username: 'viewer',
     email: 'viewer@delmar.com',
     role: 'viewer',
-    password_hash: 'viewer123',
+    password_hash: await hashPassword('viewer123'),
+    must_change_password: true,
     created_at: new Date(),
     updated_at: new Date()
   });
@@ -200,32 +658,55 @@ export async function initializeDatabase() {
     updated_at: new Date()
   });
 
-  // Create owner users
-  await db.users.add({
+  // Create owner users and link them to their owner records
+  const johnSmithUserId = await db.users.add({
     username: 'johnsmith',
     email: 'john@smithracing.com',
     role: 'owner',
-    password_hash: 'owner123',
+    password_hash: await hashPassword('owner123'),
+    must_change_password: true,
     created_at: new Date(),
     updated_at: new Date()
   });
 
-  await db.users.add({
+  const goldenGateUserId = await db.users.add({
     username: 'goldengate',
     email: 'info@goldengatestables.com',
     role: 'owner',
-    password_hash: 'owner123',
+    password_hash: await hashPassword('owner123'),
+    must_change_password: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  });
+
+  await db.owners.update(owner1Id, { user_id: johnSmithUserId });
+  await db.owners.update(owner2Id, { user_id: goldenGateUserId });
+
+  // Create racetracks and seasons
+  const { racetrack, season } = defaultSeasonData();
+  const delMarId = await db.racetracks.add(racetrack);
+  await db.racetracks.bulkAdd([
+    { name: 'Santa Anita Park', code: 'SA', city: 'Arcadia, CA', created_at: new Date(), updated_at: new Date() },
+    { name: 'Golden Gate Fields', code: 'GG', city: 'Albany, CA', created_at: new Date(), updated_at: new Date() }
+  ]);
+  const previousYear = season.year - 1;
+  await db.seasons.add({
+    racetrack_id: delMarId,
+    name: `${previousYear} Summer Meet`,
+    year: previousYear,
+    start_date: new Date(previousYear, 0, 1),
+    end_date: new Date(previousYear, 11, 31),
     created_at: new Date(),
     updated_at: new Date()
   });
+  const seasonId = await db.seasons.add({ ...season, racetrack_id: delMarId });
 
   // Create default locations
-  await db.locations.bulkAdd([
+  const locationIds = await db.locations.bulkAdd([
     {
       name: 'Barn A',
       type: 'barn',
       capacity: 50,
-      current_occupancy: 0,
       description: 'Main training barn',
       created_at: new Date(),
       updated_at: new Date()
@@ -234,7 +715,6 @@ export async function initializeDatabase() {
       name: 'Barn B',
       type: 'barn',
       capacity: 40,
-      current_occupancy: 0,
       description: 'Secondary barn',
       created_at: new Date(),
       updated_at: new Date()
@@ -243,7 +723,6 @@ export async function initializeDatabase() {
       name: 'Main Track',
       type: 'track',
       capacity: 20,
-      current_occupancy: 0,
       description: 'Primary racing track',
       created_at: new Date(),
       updated_at: new Date()
@@ -252,7 +731,6 @@ export async function initializeDatabase() {
       name: 'Training Track',
       type: 'track',
       capacity: 15,
-      current_occupancy: 0,
       description: 'Training and exercise track',
       created_at: new Date(),
       updated_at: new Date()
@@ -261,7 +739,6 @@ export async function initializeDatabase() {
       name: 'Paddock 1',
       type: 'paddock',
       capacity: 10,
-      current_occupancy: 0,
       description: 'Large paddock for turnout',
       created_at: new Date(),
       updated_at: new Date()
@@ -270,16 +747,21 @@ export async function initializeDatabase() {
       name: 'Medical Bay',
       type: 'medical',
       capacity: 5,
-      current_occupancy: 0,
       description: 'Veterinary treatment area',
       created_at: new Date(),
       updated_at: new Date()
     }
-  ]);
+  ], { allKeys: true });
+
+  // Number the stalls in both barns
+  const stallIdsByBarn = new Map<number, number[]>();
+  for (const [barnId, stallCount] of [[locationIds[0], 50], [locationIds[1], 40]]) {
+    stallIdsByBarn.set(barnId, await db.stalls.bulkAdd(defaultStalls(barnId, stallCount), { allKeys: true }));
+  }
 
   // Create sample horses with enhanced data
   const horses = [];
-  const activities = ['training', 'walking', 'racing', 'resting', 'medical'];
+  const activities: Activity['activity_type'][] = ['training', 'walking', 'racing', 'resting', 'medical'];
   for (let i = 1; i <= 50; i++) {
     horses.push({
       tracking_id: `DM${new Date().getFullYear()}${String(i).padStart(4, '0')}`,
@@ -291,21 +773,33 @@ export async function initializeDatabase() {
       gender: ['stallion', 'mare', 'gelding'][i % 3] as 'stallion' | 'mare' | 'gelding',
       owner_id: i % 2 === 0 ? owner1Id : owner2Id,
       status: 'active' as const,
-      current_location_id: (i % 6) + 1, // Assign to locations 1-6
+      current_location_id: locationIds[(i - 1) % 6], // Matches the initial assignment below
       current_activity: activities[i % activities.length],
+      season_id: seasonId,
       created_at: new Date(),
       updated_at: new Date()
     });
   }
   const horseIds = await db.horses.bulkAdd(horses, { allKeys: true });
 
-  // Create location assignments for each horse
+  // Each horse's current activity is backed by an open activity row
+  await db.activities.bulkAdd(horses.map((horse, index) => ({
+    horse_id: horseIds[index],
+    activity_type: horse.current_activity,
+    start_time: new Date(Date.now() - Math.random() * 2 * 60 * 60 * 1000), // Started in the last two hours
+    recorded_by: adminUserId,
+    created_at: new Date()
+  })));
+
+  // Create location assignments for each horse, in the next free stall when it goes to a barn
   const locationAssignments = horseIds.map((horseId, index) => ({
     horse_id: horseId,
-    location_id: ((index % 6) + 1),
+    location_id: locationIds[index % 6],
+    stall_id: stallIdsByBarn.get(locationIds[index % 6])?.shift(),
     assigned_at: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000), // Random time in last week
     assigned_by: adminUserId,
-    notes: `Initial assignment for Horse ${index + 1}`
+    notes: `Initial assignment for Horse ${index + 1}`,
+    season_id: seasonId
   }));
   await db.location_assignments.bulkAdd(locationAssignments);
 
@@ -323,6 +817,8 @@ export async function initializeDatabase() {
       purse: 50000 + (i * 10000),
       race_type: ['Stakes', 'Allowance', 'Maiden'][i % 3],
       status: raceDate < new Date() ? 'completed' as const : 'scheduled' as const,
+      entries_close_at: new Date(raceDate.getTime() - 3 * 24 * 60 * 60 * 1000),
+      season_id: seasonId,
       created_at: new Date(),
       updated_at: new Date()
     });
@@ -349,5 +845,7 @@ export async function initializeDatabase() {
   });
   await db.race_participants.bulkAdd(raceParticipants);
 
+  await db.withdrawal_rules.bulkAdd(defaultWithdrawalRules());
+
   console.log('Database initialized with sample data');
 }
\ No newline at end of file
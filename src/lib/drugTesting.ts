@@ -0,0 +1,105 @@
+import { db, DrugTest, CustodyHandoff } from '@/lib/database';
+import { isStarter } from '@/lib/raceEntries';
+
+export type DrugTestStatus = DrugTest['status'];
+
+// Results are final once passed or failed; an inconclusive sample can still be re-read
+export const STATUS_TRANSITIONS: Record<DrugTestStatus, DrugTestStatus[]> = {
+  pending: ['passed', 'failed', 'inconclusive'],
+  inconclusive: ['passed', 'failed'],
+  passed: [],
+  failed: []
+};
+
+// Every starter gets a pre-race test; these finishing positions also get a post-race test
+export const POST_RACE_TEST_POSITIONS = 3;
+
+export function canTransition(from: DrugTestStatus, to: DrugTestStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Creates any missing pre/post-race tests for the starters of completed races.
+// Safe to run repeatedly; returns how many tests were created.
+export async function generateRequiredTests(seasonId?: number): Promise<number> {
+  return db.transaction('rw', db.races, db.race_participants, db.drug_tests, async () => {
+    const races = seasonId
+      ? await db.races.where('season_id').equals(seasonId).filter(r => r.status === 'completed').toArray()
+      : await db.races.where('status').equals('completed').toArray();
+    if (races.length === 0) return 0;
+
+    const raceIds = races.map(r => r.id!);
+    const [participants, existingTests] = await Promise.all([
+      db.race_participants.where('race_id').anyOf(raceIds).toArray(),
+      db.drug_tests.where('race_id').anyOf(raceIds).toArray()
+    ]);
+
+    const existing = new Set(existingTests.map(t => `${t.race_id}-${t.horse_id}-${t.test_type}`));
+    const now = new Date();
+    const newTests: DrugTest[] = [];
+
+    participants.filter(isStarter).forEach(participant => {
+      const race = races.find(r => r.id === participant.race_id)!;
+      const required: DrugTest['test_type'][] = ['pre_race'];
+      if (participant.finish_position && participant.finish_position <= POST_RACE_TEST_POSITIONS) {
+        required.push('post_race');
+      }
+
+      required
+        .filter(type => !existing.has(`${race.id}-${participant.horse_id}-${type}`))
+        .forEach(type => {
+          newTests.push({
+            horse_id: participant.horse_id,
+            race_id: race.id,
+            test_date: race.race_date,
+            test_type: type,
+            status: 'pending',
+            created_at: now,
+            updated_at: now
+          });
+        });
+    });
+
+    if (newTests.length > 0) {
+      await db.drug_tests.bulkAdd(newTests);
+    }
+    return newTests.length;
+  });
+}
+
+export async function addCustodyHandoff(handoff: Omit<CustodyHandoff, 'id' | 'created_at'>): Promise<void> {
+  await db.custody_handoffs.add({ ...handoff, created_at: new Date() });
+}
+
+export async function getCustodyChain(drugTestId: number): Promise<CustodyHandoff[]> {
+  return db.custody_handoffs.where('drug_test_id').equals(drugTestId).sortBy('handed_at');
+}
+
+// Moves a test to a result status. A failed post-race test is flagged on the horse's race result.
+export async function transitionDrugTest(testId: number, status: DrugTestStatus, results?: string): Promise<void> {
+  await db.transaction('rw', db.drug_tests, db.race_participants, async () => {
+    const test = await db.drug_tests.get(testId);
+    if (!test) throw new Error('Drug test not found');
+    if (!canTransition(test.status, status)) {
+      throw new Error(`A ${test.status} test cannot be marked ${status}`);
+    }
+    if (!test.sample_id || !test.lab) {
+      throw new Error('Record the sample ID and lab before entering a result');
+    }
+
+    const now = new Date();
+    await db.drug_tests.update(testId, {
+      status,
+      results: results ?? test.results,
+      resulted_at: now,
+      updated_at: now
+    });
+
+    if (status === 'failed' && test.test_type === 'post_race' && test.race_id) {
+      await db.race_participants
+        .where('race_id')
+        .equals(test.race_id)
+        .filter(p => p.horse_id === test.horse_id)
+        .modify({ failed_drug_test_id: testId });
+    }
+  });
+}
@@ -0,0 +1,161 @@
+import { db, FloorPlan, FloorPlanShape, Location, Stall } from '@/lib/database';
+import { hasStalls } from '@/lib/stalls';
+
+export const GRID_SIZE = 10;
+
+export const SHAPE_KIND_LABELS: Record<FloorPlanShape['kind'], string> = {
+  stall: 'Stall',
+  paddock: 'Paddock',
+  track: 'Track Zone',
+  aisle: 'Aisle'
+};
+
+export const DEFAULT_SHAPE_SIZE: Record<FloorPlanShape['kind'], { width: number; height: number }> = {
+  stall: { width: 60, height: 60 },
+  paddock: { width: 200, height: 140 },
+  track: { width: 320, height: 80 },
+  aisle: { width: 300, height: 40 }
+};
+
+// Tailwind classes for the zones drawn under the stalls
+export const ZONE_CLASSES: Record<Exclude<FloorPlanShape['kind'], 'stall'>, string> = {
+  paddock: 'fill-green-50 stroke-green-300',
+  track: 'fill-amber-50 stroke-amber-300',
+  aisle: 'fill-muted stroke-border'
+};
+
+const MARGIN = 20;
+const STALLS_PER_ROW = 12;
+
+export const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+export const newShapeKey = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Starting layout: facing rows of stalls either side of an aisle, or a single zone for open ground
+export function buildDefaultFloorPlan(location: Location, stalls: Stall[]): FloorPlan {
+  if (!hasStalls(location)) {
+    const kind = location.type === 'track' ? 'track' : 'paddock';
+    return {
+      width: 600,
+      height: 400,
+      shapes: [{ key: newShapeKey(), kind, x: MARGIN, y: MARGIN, width: 560, height: 360, label: location.name }]
+    };
+  }
+
+  const { width: stallWidth, height: stallHeight } = DEFAULT_SHAPE_SIZE.stall;
+  const aisleHeight = DEFAULT_SHAPE_SIZE.aisle.height;
+  const perRow = Math.min(STALLS_PER_ROW, Math.max(1, Math.ceil(stalls.length / 2)));
+  const blockHeight = stallHeight * 2 + aisleHeight + MARGIN;
+  const blocks = Math.max(1, Math.ceil(stalls.length / (perRow * 2)));
+  const shapes: FloorPlanShape[] = [];
+
+  for (let block = 0; block < blocks; block++) {
+    const top = MARGIN + block * blockHeight;
+    shapes.push({
+      key: newShapeKey(),
+      kind: 'aisle',
+      x: MARGIN,
+      y: top + stallHeight,
+      width: perRow * stallWidth,
+      height: aisleHeight,
+      label: 'Aisle'
+    });
+  }
+
+  stalls.forEach((stall, index) => {
+    const block = Math.floor(index / (perRow * 2));
+    const inBlock = index % (perRow * 2);
+    const row = Math.floor(inBlock / perRow);
+    const top = MARGIN + block * blockHeight;
+    shapes.push({
+      key: newShapeKey(),
+      kind: 'stall',
+      stall_id: stall.id,
+      x: MARGIN + (inBlock % perRow) * stallWidth,
+      y: row === 0 ? top : top + stallHeight + aisleHeight,
+      ...DEFAULT_SHAPE_SIZE.stall
+    });
+  });
+
+  return {
+    width: perRow * stallWidth + MARGIN * 2,
+    height: blocks * blockHeight + MARGIN,
+    shapes
+  };
+}
+
+// Drops stalls and location links that have since been deleted
+export function cleanFloorPlan(plan: FloorPlan, stalls: Stall[], locations: Location[]): FloorPlan {
+  const stallIds = new Set(stalls.map(s => s.id));
+  const locationIds = new Set(locations.map(l => l.id));
+  return {
+    ...plan,
+    shapes: plan.shapes
+      .filter(shape => shape.kind !== 'stall' || stallIds.has(shape.stall_id))
+      .map(shape => shape.location_id && !locationIds.has(shape.location_id) ? { ...shape, location_id: undefined } : shape)
+  };
+}
+
+export function getUnplacedStalls(plan: FloorPlan, stalls: Stall[]): Stall[] {
+  const placed = new Set(plan.shapes.map(s => s.stall_id).filter(Boolean));
+  return stalls.filter(s => !placed.has(s.id));
+}
+
+// Stalls sit on top of zones, so they win when a point falls inside both
+export function findShapeAt(plan: FloorPlan, x: number, y: number): FloorPlanShape | undefined {
+  const contains = (s: FloorPlanShape) => x >= s.x && x <= s.x + s.width && y >= s.y && y <= s.y + s.height;
+  const hits = plan.shapes.filter(contains);
+  return hits.find(s => s.kind === 'stall') ?? hits.filter(s => s.kind !== 'aisle').pop();
+}
+
+// The location a horse dropped on a zone moves to. Unlinked zones on open ground stand for the location itself.
+export function getZoneLocationId(location: Location, shape: FloorPlanShape): number | undefined {
+  if (shape.kind === 'stall' || shape.kind === 'aisle') return undefined;
+  return shape.location_id ?? (hasStalls(location) ? undefined : location.id);
+}
+
+export async function saveFloorPlan(locationId: number, plan: FloorPlan): Promise<void> {
+  if (plan.width < 100 || plan.height < 100) throw new Error('Floor plan must be at least 100 x 100');
+
+  await db.transaction('rw', db.locations, db.stalls, async () => {
+    const location = await db.locations.get(locationId);
+    if (!location) throw new Error('Location not found');
+
+    const stallIds = new Set((await db.stalls.where('location_id').equals(locationId).toArray()).map(s => s.id));
+    const linkedIds = new Set((await db.locations.toArray()).map(l => l.id));
+    const seenStalls = new Set<number>();
+
+    plan.shapes.forEach(shape => {
+      const name = shape.label || SHAPE_KIND_LABELS[shape.kind];
+      if (shape.width <= 0 || shape.height <= 0) throw new Error(`${name} must have a size`);
+      if (shape.x < 0 || shape.y < 0 || shape.x + shape.width > plan.width || shape.y + shape.height > plan.height) {
+        throw new Error(`${name} lies outside the floor plan`);
+      }
+      if (shape.kind === 'stall') {
+        if (!shape.stall_id || !stallIds.has(shape.stall_id)) throw new Error(`A stall on the plan is not in ${location.name}`);
+        if (seenStalls.has(shape.stall_id)) throw new Error('A stall is placed on the plan more than once');
+        seenStalls.add(shape.stall_id);
+      }
+      if (shape.location_id && !linkedIds.has(shape.location_id)) {
+        throw new Error(`${name} links to a location that no longer exists`);
+      }
+    });
+
+    await db.locations.update(locationId, {
+      floor_plan: {
+        width: plan.width,
+        height: plan.height,
+        shapes: plan.shapes.map(shape => ({ ...shape, label: shape.label?.trim() || undefined }))
+      },
+      updated_at: new Date()
+    });
+  });
+}
+
+// Converts a pointer position to floor plan coordinates
+export function toPlanPoint(svg: SVGSVGElement, clientX: number, clientY: number): { x: number; y: number } {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) return { x: 0, y: 0 };
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return { x: point.x, y: point.y };
+}
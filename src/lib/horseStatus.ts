@@ -0,0 +1,29 @@
+import { Horse, Location } from '@/lib/database';
+import { Problem } from '@/lib/rules';
+
+export type StatusColor = 'green' | 'yellow' | 'red' | 'grey';
+
+export interface HorseStatusResult {
+  status: StatusColor;
+  statusText: string;
+}
+
+// Command Center traffic-light status, driven by the problems the rules engine found for the horse
+export function getHorseStatus(horse: Horse, problems: Problem[], location?: Location): HorseStatusResult {
+  if (horse.status === 'inactive' || horse.status === 'retired') {
+    return { status: 'grey', statusText: horse.status === 'inactive' ? 'Inactive' : 'Retired' };
+  }
+  const more = problems.length > 1 ? ` (+${problems.length - 1} more)` : '';
+  const critical = problems.find(p => p.severity === 'critical');
+  if (critical) {
+    return { status: 'red', statusText: `${critical.title}${more}` };
+  }
+  const warning = problems.find(p => p.severity === 'warning');
+  if (warning) {
+    return { status: 'yellow', statusText: `${warning.title}${more}` };
+  }
+  return {
+    status: 'green',
+    statusText: location ? `In ${location.name} - ${horse.current_activity || 'Assigned'}` : 'Unassigned'
+  };
+}
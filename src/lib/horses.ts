@@ -0,0 +1,18 @@
+import { db } from '@/lib/database';
+
+// A free tracking ID of the form DM<year><4 digits>. IDs in reserved count as taken, for callers
+// adding several horses before any of them is saved.
+export async function generateTrackingId(reserved: Set<string> = new Set()): Promise<string> {
+  const year = new Date().getFullYear();
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const randomNum = Math.floor(Math.random() * 9999) + 1;
+    const trackingId = `DM${year}${String(randomNum).padStart(4, '0')}`;
+    if (reserved.has(trackingId)) continue;
+
+    const existing = await db.horses.where('tracking_id').equals(trackingId).first();
+    if (!existing) return trackingId;
+  }
+
+  throw new Error('Failed to generate unique tracking ID after 100 attempts');
+}
@@ -0,0 +1,161 @@
+import { db, Incident, IncidentNote } from '@/lib/database';
+import { Problem, RuleSeverity } from '@/lib/rules';
+
+// Minutes from detection until an incident must be acknowledged, and until it must be resolved
+export const INCIDENT_SLA_MINUTES: Record<RuleSeverity, { acknowledge: number; resolve: number }> = {
+  critical: { acknowledge: 15, resolve: 120 },
+  warning: { acknowledge: 60, resolve: 24 * 60 }
+};
+
+export const INCIDENT_STATUS_LABELS: Record<Incident['status'], string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved'
+};
+
+export interface SlaStatus {
+  stage: 'acknowledge' | 'resolve' | 'done';
+  due_at: Date;
+  breached: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const incidentKey = (ruleId: string, horseId: number) => `${ruleId}:${horseId}`;
+
+export const isUnresolved = (incident: Incident) => incident.status !== 'resolved';
+
+export function getSlaDueDates(incident: Incident): { acknowledge: Date; resolve: Date } {
+  const sla = INCIDENT_SLA_MINUTES[incident.severity];
+  const detected = incident.detected_at.getTime();
+  return {
+    acknowledge: new Date(detected + sla.acknowledge * MINUTE_MS),
+    resolve: new Date(detected + sla.resolve * MINUTE_MS)
+  };
+}
+
+// Which deadline the incident is working against now. Resolved incidents report whether
+// either deadline was missed.
+export function getSlaStatus(incident: Incident, now: Date = new Date()): SlaStatus {
+  const due = getSlaDueDates(incident);
+  if (incident.status === 'resolved') {
+    return {
+      stage: 'done',
+      due_at: due.resolve,
+      breached: incident.resolved_at! > due.resolve || (incident.acknowledged_at ?? incident.resolved_at!) > due.acknowledge
+    };
+  }
+  if (!incident.acknowledged_at) {
+    return { stage: 'acknowledge', due_at: due.acknowledge, breached: now > due.acknowledge };
+  }
+  return { stage: 'resolve', due_at: due.resolve, breached: now > due.resolve };
+}
+
+// Minutes from detection to acknowledgement and to resolution, where reached
+export function getResponseMinutes(incident: Incident): { acknowledge?: number; resolve?: number } {
+  const since = (at?: Date) => at ? Math.round((at.getTime() - incident.detected_at.getTime()) / MINUTE_MS) : undefined;
+  return { acknowledge: since(incident.acknowledged_at), resolve: since(incident.resolved_at) };
+}
+
+// Critical first, then oldest first
+export function compareIncidents(a: Incident, b: Incident): number {
+  return (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1) ||
+    a.detected_at.getTime() - b.detected_at.getTime();
+}
+
+// Brings incidents in line with a fresh rules evaluation of the given horses. New problems open
+// an incident; a rule firing more than once for a horse shares one. Unresolved incidents whose
+// problem is gone are marked cleared but stay open until someone resolves them. A problem that
+// is still detected after its incident was resolved opens a new incident. Only rewrites an incident
+// when its severity or title changes, so re-running with the same problems writes nothing.
+export async function syncIncidents(problems: Problem[], horseIds: number[]): Promise<number> {
+  const detected = new Map<string, Problem[]>();
+  problems.forEach(p => {
+    const key = incidentKey(p.rule_id, p.horse_id);
+    detected.set(key, [...(detected.get(key) ?? []), p]);
+  });
+
+  return db.transaction('rw', db.incidents, async () => {
+    const now = new Date();
+    const unresolved = await db.incidents.where('horse_id').anyOf(horseIds).filter(isUnresolved).toArray();
+    const existing = new Map(unresolved.map(i => [incidentKey(i.rule_id, i.horse_id), i]));
+    let opened = 0;
+
+    for (const [key, found] of detected) {
+      const first = found[0];
+      const current = {
+        severity: found.some(p => p.severity === 'critical') ? 'critical' as const : 'warning' as const,
+        title: first.title
+      };
+      const incident = existing.get(key);
+      if (!incident) {
+        await db.incidents.add({
+          ...current,
+          rule_id: first.rule_id,
+          horse_id: first.horse_id,
+          details: found.map(p => p.details).join(' '),
+          remediation: first.remediation,
+          status: 'open',
+          detected_at: now
+        });
+        opened++;
+        continue;
+      }
+      // Details are kept as first detected: some carry live values (minutes elapsed) that would
+      // otherwise rewrite the incident on every evaluation
+      if (incident.cleared_at || incident.severity !== current.severity || incident.title !== current.title) {
+        await db.incidents.update(incident.id!, { ...current, cleared_at: undefined });
+      }
+    }
+
+    for (const [key, incident] of existing) {
+      if (!detected.has(key) && !incident.cleared_at) {
+        await db.incidents.update(incident.id!, { cleared_at: now });
+      }
+    }
+    return opened;
+  });
+}
+
+async function getUnresolvedIncident(incidentId: number): Promise<Incident> {
+  const incident = await db.incidents.get(incidentId);
+  if (!incident) throw new Error('Incident not found');
+  if (incident.status === 'resolved') throw new Error('Incident is already resolved');
+  return incident;
+}
+
+export async function acknowledgeIncident(incidentId: number, userId: number): Promise<void> {
+  const incident = await getUnresolvedIncident(incidentId);
+  if (incident.acknowledged_at) return;
+  await db.incidents.update(incidentId, { status: 'acknowledged', acknowledged_at: new Date(), acknowledged_by: userId });
+}
+
+// Passing no user unassigns the incident
+export async function assignIncident(incidentId: number, assigneeId?: number): Promise<void> {
+  await getUnresolvedIncident(incidentId);
+  if (assigneeId !== undefined && !(await db.users.get(assigneeId))) throw new Error('User not found');
+  await db.incidents.update(incidentId, { assigned_to: assigneeId });
+}
+
+// Resolving counts as acknowledging for incidents nobody acknowledged first
+export async function resolveIncident(incidentId: number, userId: number, resolution: string): Promise<void> {
+  if (!resolution.trim()) throw new Error('Describe how the problem was resolved');
+  const incident = await getUnresolvedIncident(incidentId);
+  const now = new Date();
+  await db.incidents.update(incidentId, {
+    status: 'resolved',
+    resolved_at: now,
+    resolved_by: userId,
+    resolution: resolution.trim(),
+    acknowledged_at: incident.acknowledged_at ?? now,
+    acknowledged_by: incident.acknowledged_by ?? userId
+  });
+}
+
+export async function addIncidentNote(incidentId: number, userId: number, note: string): Promise<IncidentNote> {
+  if (!note.trim()) throw new Error('Note cannot be empty');
+  if (!(await db.incidents.get(incidentId))) throw new Error('Incident not found');
+  const entry: IncidentNote = { incident_id: incidentId, user_id: userId, note: note.trim(), created_at: new Date() };
+  entry.id = await db.incident_notes.add(entry);
+  return entry;
+}
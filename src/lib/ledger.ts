@@ -0,0 +1,187 @@
+import Papa from 'papaparse';
+import { db, Owner, OwnerCharge } from '@/lib/database';
+import { hasStalls } from '@/lib/stalls';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CHARGE_TYPE_LABELS: Record<OwnerCharge['charge_type'], string> = {
+  stall: 'Stall',
+  training: 'Training',
+  veterinary: 'Veterinary',
+  other: 'Other'
+};
+
+// One line on an owner's account. Earnings are credits, charges are debits.
+export interface LedgerEntry {
+  key: string;
+  date: Date;
+  category: string;
+  description: string;
+  horse_name?: string;
+  credit: number;
+  debit: number;
+}
+
+export interface Statement {
+  from: Date;
+  to: Date;
+  opening_balance: number;
+  entries: (LedgerEntry & { balance: number })[];
+  total_earnings: number;
+  total_charges: number;
+  closing_balance: number;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Every credit and debit on an owner's account, oldest first. Archived horses stay on the books.
+export async function buildOwnerLedger(ownerId: number): Promise<LedgerEntry[]> {
+  const horses = await db.horses.where('owner_id').equals(ownerId).toArray();
+  const horseIds = horses.map(h => h.id!);
+  const horseName = (id?: number) => horses.find(h => h.id === id)?.name;
+
+  const [participants, charges] = await Promise.all([
+    db.race_participants.where('horse_id').anyOf(horseIds).filter(p => !!p.purse_earned).toArray(),
+    db.owner_charges.where('owner_id').equals(ownerId).toArray()
+  ]);
+  const races = await db.races.bulkGet(Array.from(new Set(participants.map(p => p.race_id))));
+
+  const entries: LedgerEntry[] = [];
+  participants.forEach(participant => {
+    const race = races.find(r => r?.id === participant.race_id);
+    if (!race?.official_at) return; // Only official results pay out
+    entries.push({
+      key: `purse-${participant.id}`,
+      date: race.race_date,
+      category: 'Purse',
+      description: `${race.name}, finished ${participant.finish_position}`,
+      horse_name: horseName(participant.horse_id),
+      credit: participant.purse_earned!,
+      debit: 0
+    });
+  });
+
+  charges.forEach(charge => {
+    entries.push({
+      key: `charge-${charge.id}`,
+      date: charge.charge_date,
+      category: CHARGE_TYPE_LABELS[charge.charge_type],
+      description: charge.description,
+      horse_name: horseName(charge.horse_id),
+      credit: 0,
+      debit: charge.amount
+    });
+  });
+
+  return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Statement for a period; entries before `from` roll into the opening balance
+export function buildStatement(ledger: LedgerEntry[], from: Date, to: Date): Statement {
+  const balanceOf = (entries: LedgerEntry[]) => entries.reduce((sum, e) => sum + e.credit - e.debit, 0);
+  const opening = roundCents(balanceOf(ledger.filter(e => e.date < from)));
+
+  let running = opening;
+  const entries = ledger
+    .filter(e => e.date >= from && e.date <= to)
+    .map(entry => {
+      running = roundCents(running + entry.credit - entry.debit);
+      return { ...entry, balance: running };
+    });
+
+  return {
+    from,
+    to,
+    opening_balance: opening,
+    entries,
+    total_earnings: roundCents(entries.reduce((sum, e) => sum + e.credit, 0)),
+    total_charges: roundCents(entries.reduce((sum, e) => sum + e.debit, 0)),
+    closing_balance: running
+  };
+}
+
+export function statementToCsv(owner: Owner, statement: Statement): string {
+  const rows = [
+    { Date: statement.from.toLocaleDateString(), Category: 'Opening balance', Horse: '', Description: '', Credit: '', Debit: '', Balance: statement.opening_balance.toFixed(2) },
+    ...statement.entries.map(entry => ({
+      Date: entry.date.toLocaleDateString(),
+      Category: entry.category,
+      Horse: entry.horse_name ?? '',
+      Description: entry.description,
+      Credit: entry.credit ? entry.credit.toFixed(2) : '',
+      Debit: entry.debit ? entry.debit.toFixed(2) : '',
+      Balance: entry.balance.toFixed(2)
+    })),
+    { Date: statement.to.toLocaleDateString(), Category: 'Closing balance', Horse: '', Description: owner.name, Credit: statement.total_earnings.toFixed(2), Debit: statement.total_charges.toFixed(2), Balance: statement.closing_balance.toFixed(2) }
+  ];
+  return Papa.unparse(rows);
+}
+
+export async function addCharge(charge: Omit<OwnerCharge, 'id' | 'created_at'>): Promise<void> {
+  if (!(charge.amount > 0)) throw new Error('Charge amount must be more than zero');
+  if (!charge.description.trim()) throw new Error('Charge description is required');
+  await db.owner_charges.add({ ...charge, created_at: new Date() });
+}
+
+// Bills each of the owner's horses for the days it spent in a stall during the period.
+// Horses already billed for an overlapping period are skipped; returns how many charges were added.
+export async function generateStallCharges(
+  ownerId: number,
+  from: Date,
+  to: Date,
+  dailyRate: number,
+  userId?: number
+): Promise<number> {
+  if (!(dailyRate > 0)) throw new Error('Daily stall rate must be more than zero');
+  if (from > to) throw new Error('Billing period start must be before its end');
+
+  return db.transaction('rw', db.horses, db.locations, db.location_assignments, db.owner_charges, async () => {
+    const horses = await db.horses.where('owner_id').equals(ownerId).toArray();
+    const stallLocationIds = new Set(
+      (await db.locations.toArray()).filter(hasStalls).map(l => l.id!)
+    );
+    const [assignments, existing] = await Promise.all([
+      db.location_assignments.where('horse_id').anyOf(horses.map(h => h.id!)).toArray(),
+      db.owner_charges.where('owner_id').equals(ownerId).filter(c => c.charge_type === 'stall').toArray()
+    ]);
+
+    const now = new Date();
+    const periodEnd = to < now ? to : now;
+    const charges: OwnerCharge[] = [];
+
+    horses.forEach(horse => {
+      const alreadyBilled = existing.some(c =>
+        c.horse_id === horse.id && c.period_start && c.period_end && c.period_start <= to && c.period_end >= from
+      );
+      if (alreadyBilled) return;
+
+      const stallMs = assignments
+        .filter(a => a.horse_id === horse.id && stallLocationIds.has(a.location_id))
+        .reduce((sum, a) => {
+          const start = Math.max(a.assigned_at.getTime(), from.getTime());
+          const end = Math.min((a.assigned_until ?? periodEnd).getTime(), periodEnd.getTime());
+          return sum + Math.max(0, end - start);
+        }, 0);
+      const days = Math.ceil(stallMs / DAY_MS);
+      if (days === 0) return;
+
+      charges.push({
+        owner_id: ownerId,
+        horse_id: horse.id,
+        charge_type: 'stall',
+        description: `${days} stall day(s) at $${dailyRate.toFixed(2)}`,
+        amount: roundCents(days * dailyRate),
+        charge_date: to,
+        period_start: from,
+        period_end: to,
+        recorded_by: userId,
+        created_at: now
+      });
+    });
+
+    if (charges.length > 0) {
+      await db.owner_charges.bulkAdd(charges);
+    }
+    return charges.length;
+  });
+}
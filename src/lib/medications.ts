@@ -0,0 +1,71 @@
+import { db, MedicationAdministration, WithdrawalRule, Race } from '@/lib/database';
+import { isStarter } from '@/lib/raceEntries';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const ROUTE_LABELS: Record<MedicationAdministration['route'], string> = {
+  oral: 'Oral',
+  intravenous: 'IV',
+  intramuscular: 'IM',
+  subcutaneous: 'SC',
+  topical: 'Topical',
+  inhaled: 'Inhaled'
+};
+
+// A race entry whose horse will still be inside a withdrawal window at post time
+export interface WithdrawalConflict {
+  race: Race;
+  horse_id: number;
+  administration: MedicationAdministration;
+  rule: WithdrawalRule;
+  clears_at: Date;
+}
+
+const findRule = (rules: WithdrawalRule[], substance: string) =>
+  rules.find(rule => rule.substance.toLowerCase() === substance.toLowerCase());
+
+export function getClearanceTime(administration: MedicationAdministration, rule: WithdrawalRule): Date {
+  return new Date(administration.administered_at.getTime() + rule.withdrawal_hours * HOUR_MS);
+}
+
+// Administrations whose withdrawal period has not ended at the given time
+export function getActiveWithdrawals(
+  administrations: MedicationAdministration[],
+  rules: WithdrawalRule[],
+  at: Date
+): { administration: MedicationAdministration; rule: WithdrawalRule; clears_at: Date }[] {
+  return administrations
+    .filter(administration => administration.administered_at <= at)
+    .map(administration => {
+      const rule = findRule(rules, administration.substance);
+      return rule ? { administration, rule, clears_at: getClearanceTime(administration, rule) } : null;
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => !!entry && entry.clears_at > at);
+}
+
+// Checks every entry in upcoming scheduled races against the medication log
+export async function getWithdrawalConflicts(races?: Race[]): Promise<WithdrawalConflict[]> {
+  const now = new Date();
+  const upcoming = (races ?? await db.races.where('status').equals('scheduled').toArray())
+    .filter(race => race.status === 'scheduled' && race.race_date >= now);
+  if (upcoming.length === 0) return [];
+
+  const participants = (await db.race_participants.where('race_id').anyOf(upcoming.map(r => r.id!)).toArray())
+    .filter(isStarter);
+  if (participants.length === 0) return [];
+
+  const [administrations, rules] = await Promise.all([
+    db.medication_administrations.where('horse_id').anyOf(participants.map(p => p.horse_id)).toArray(),
+    db.withdrawal_rules.toArray()
+  ]);
+
+  const conflicts: WithdrawalConflict[] = [];
+  participants.forEach(participant => {
+    const race = upcoming.find(r => r.id === participant.race_id)!;
+    const horseAdministrations = administrations.filter(a => a.horse_id === participant.horse_id);
+    getActiveWithdrawals(horseAdministrations, rules, race.race_date).forEach(withdrawal => {
+      conflicts.push({ race, horse_id: participant.horse_id, ...withdrawal });
+    });
+  });
+  return conflicts;
+}
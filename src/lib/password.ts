@@ -0,0 +1,86 @@
+// Password hashing with PBKDF2 via WebCrypto.
+// Stored format: pbkdf2$<iterations>$<salt base64>$<hash base64>
+
+const ALGORITHM = 'pbkdf2';
+const ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+// Constant-time comparison so verification time doesn't leak matching prefixes
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${ALGORITHM}$`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [ALGORITHM, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  // Legacy rows from before hashing hold the password itself
+  if (!isPasswordHash(stored)) {
+    return password === stored;
+  }
+
+  const [, iterations, salt, hash] = stored.split('$');
+  const expected = fromBase64(hash);
+  const actual = await derive(password, fromBase64(salt), parseInt(iterations));
+  return timingSafeEqual(actual, expected);
+}
+
+// Whether a stored hash should be recomputed with the current parameters
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  return parseInt(stored.split('$')[1]) < ITERATIONS;
+}
+
+export function validatePasswordStrength(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Password must contain both letters and numbers';
+  }
+  return null;
+}
+
+export function generateSessionToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
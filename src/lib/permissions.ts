@@ -0,0 +1,103 @@
+import { db, Horse, Owner, User } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+
+export type Role = User['role'];
+
+export type Permission =
+  | 'dashboard:read'
+  | 'operations:read' // Command Center and Problems
+  | 'incidents:manage' // Acknowledge, assign and resolve problem incidents
+  | 'horses:read'
+  | 'horses:write'
+  | 'horses:bulk' // Data Grid, bulk import/remove
+  | 'owners:read'
+  | 'owners:write'
+  | 'races:read'
+  | 'races:write'
+  | 'vet:read'
+  | 'vet:write'
+  | 'reports:read'
+  | 'seasons:manage'
+  | 'facilities:manage' // Barns and stalls
+  | 'users:manage'
+  | 'audit:read'
+  | 'backup:manage'; // Download backups and restore them
+
+// Single source of truth for what each role may do
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'dashboard:read',
+    'operations:read',
+    'incidents:manage',
+    'horses:read',
+    'horses:write',
+    'horses:bulk',
+    'owners:read',
+    'owners:write',
+    'races:read',
+    'races:write',
+    'vet:read',
+    'vet:write',
+    'reports:read',
+    'seasons:manage',
+    'facilities:manage',
+    'users:manage',
+    'audit:read',
+    'backup:manage'
+  ],
+  viewer: [
+    'dashboard:read',
+    'operations:read',
+    'horses:read',
+    'races:read',
+    'vet:read',
+    'reports:read'
+  ],
+  // Owners are further restricted to their own horses by getAccessibleHorses
+  owner: [
+    'dashboard:read',
+    'horses:read',
+    'horses:write',
+    'reports:read'
+  ]
+};
+
+export function hasPermission(user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+}
+
+// Whether a user's horse access is limited to the owner record they are linked to
+export function isOwnerScoped(user: Pick<User, 'role'> | null | undefined): boolean {
+  return user?.role === 'owner';
+}
+
+export async function getOwnerForUser(user: User): Promise<Owner | undefined> {
+  if (!user.id) return undefined;
+  return db.owners.where('user_id').equals(user.id).filter(isActive).first();
+}
+
+// All horse reads for the signed-in user go through here so owners never see other owners' horses
+export async function getAccessibleHorses(user: User | null, seasonId?: number): Promise<Horse[]> {
+  if (!user || !hasPermission(user, 'horses:read')) return [];
+
+  if (isOwnerScoped(user)) {
+    const owner = await getOwnerForUser(user);
+    if (!owner) return [];
+    const horses = await db.horses.where('owner_id').equals(owner.id!).filter(isActive).toArray();
+    return seasonId ? horses.filter(h => h.season_id === seasonId) : horses;
+  }
+
+  return seasonId
+    ? db.horses.where('season_id').equals(seasonId).filter(isActive).toArray()
+    : db.horses.filter(isActive).toArray();
+}
+
+export async function canAccessHorse(user: User | null, horseId: number): Promise<boolean> {
+  if (!user || !hasPermission(user, 'horses:read')) return false;
+  const [owner, horse] = await Promise.all([getOwnerForUser(user), db.horses.get(horseId)]);
+  if (!horse || !isActive(horse)) return false;
+  if (!isOwnerScoped(user)) return true;
+
+  return !!owner && horse.owner_id === owner.id;
+}
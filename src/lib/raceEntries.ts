@@ -0,0 +1,119 @@
+import { db, Horse, Race, RaceParticipant } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+
+export const SCRATCH_REASONS = [
+  'Veterinary',
+  'Trainer',
+  'Stewards',
+  'Track condition',
+  'Other'
+];
+
+// Entries that will actually leave the gate
+export function isStarter(participant: RaceParticipant): boolean {
+  return !participant.scratched_at;
+}
+
+export function areEntriesOpen(race: Race, at: Date = new Date()): boolean {
+  return race.status === 'scheduled' && (!race.entries_close_at || at < race.entries_close_at);
+}
+
+// Every reason a horse cannot be entered; empty when it is eligible
+export function getEntryIneligibility(horse: Horse, race: Race, participants: RaceParticipant[]): string[] {
+  const reasons: string[] = [];
+  if (!areEntriesOpen(race)) reasons.push('Entries are closed');
+  if (!isActive(horse)) reasons.push('Horse is archived');
+  if (horse.status !== 'active') reasons.push(`Horse is ${horse.status}`);
+  if (race.min_age !== undefined || race.max_age !== undefined) {
+    if (horse.age === undefined || horse.age === null) {
+      reasons.push('Age is not recorded');
+    } else if (race.min_age !== undefined && horse.age < race.min_age) {
+      reasons.push(`Under minimum age of ${race.min_age}`);
+    } else if (race.max_age !== undefined && horse.age > race.max_age) {
+      reasons.push(`Over maximum age of ${race.max_age}`);
+    }
+  }
+  if (participants.some(p => p.race_id === race.id && p.horse_id === horse.id)) {
+    reasons.push('Already entered');
+  }
+  return reasons;
+}
+
+export async function enterHorse(raceId: number, horseId: number, jockeyName?: string): Promise<void> {
+  await db.transaction('rw', db.races, db.horses, db.race_participants, async () => {
+    const [race, horse, participants] = await Promise.all([
+      db.races.get(raceId),
+      db.horses.get(horseId),
+      db.race_participants.where('race_id').equals(raceId).toArray()
+    ]);
+    if (!race) throw new Error('Race not found');
+    if (!horse) throw new Error('Horse not found');
+
+    const reasons = getEntryIneligibility(horse, race, participants);
+    if (reasons.length > 0) {
+      throw new Error(`${horse.name} cannot be entered: ${reasons.join(', ')}`);
+    }
+
+    await db.race_participants.add({
+      race_id: raceId,
+      horse_id: horseId,
+      jockey_name: jockeyName || undefined,
+      created_at: new Date()
+    });
+  });
+}
+
+export async function scratchEntry(participantId: number, reason: string): Promise<void> {
+  await db.transaction('rw', db.races, db.race_participants, async () => {
+    const participant = await db.race_participants.get(participantId);
+    if (!participant) throw new Error('Entry not found');
+    if (participant.scratched_at) throw new Error('Entry is already scratched');
+    const race = await db.races.get(participant.race_id);
+    if (!race || race.status !== 'scheduled') {
+      throw new Error('Only entries in scheduled races can be scratched');
+    }
+
+    await db.race_participants.update(participantId, {
+      scratched_at: new Date(),
+      scratch_reason: reason
+    });
+  });
+}
+
+// Randomly assigns post positions 1..n to the race's starters once entries have closed.
+// Scratched entries lose their post position; running it again redraws.
+export async function drawPostPositions(raceId: number): Promise<void> {
+  await db.transaction('rw', db.races, db.race_participants, async () => {
+    const race = await db.races.get(raceId);
+    if (!race) throw new Error('Race not found');
+    if (race.status !== 'scheduled') throw new Error('The draw can only be run for scheduled races');
+    if (!race.entries_close_at || areEntriesOpen(race)) {
+      throw new Error('Close entries before running the draw');
+    }
+
+    const participants = await db.race_participants.where('race_id').equals(raceId).toArray();
+    const starters = participants.filter(isStarter);
+    if (starters.length === 0) throw new Error('No starters to draw');
+
+    // Fisher-Yates shuffle
+    for (let i = starters.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [starters[i], starters[j]] = [starters[j], starters[i]];
+    }
+
+    await Promise.all([
+      ...starters.map((participant, index) =>
+        db.race_participants.update(participant.id!, { post_position: index + 1 })
+      ),
+      ...participants
+        .filter(p => !isStarter(p) && p.post_position !== undefined)
+        .map(p => db.race_participants.update(p.id!, { post_position: undefined }))
+    ]);
+    await db.races.update(raceId, { drawn_at: new Date(), updated_at: new Date() });
+  });
+}
+
+// Closes entries immediately rather than waiting for the deadline
+export async function closeEntries(raceId: number): Promise<void> {
+  await db.races.update(raceId, { entries_close_at: new Date(), updated_at: new Date() });
+}
@@ -0,0 +1,178 @@
+import { db, Race, RaceParticipant } from '@/lib/database';
+import { isStarter } from '@/lib/raceEntries';
+
+// Percent of the purse paid to each official position, winner first
+export const DEFAULT_PURSE_SPLIT = [60, 20, 12, 6, 2];
+
+// m:ss.ff or ss.ff
+const FINAL_TIME_PATTERN = /^(\d{1,2}:)?\d{1,2}\.\d{1,2}$/;
+
+// What the stewards enter for one starter
+export interface ResultEntry {
+  participant_id: number;
+  order_of_finish?: number;
+  beaten_lengths?: number;
+  disqualified: boolean;
+  dq_placed_position?: number;
+}
+
+export function getPurseSplit(race: Race): number[] {
+  return race.purse_split && race.purse_split.length > 0 ? race.purse_split : DEFAULT_PURSE_SPLIT;
+}
+
+export function toResultEntry(participant: RaceParticipant): ResultEntry {
+  return {
+    participant_id: participant.id!,
+    order_of_finish: participant.order_of_finish ?? participant.finish_position,
+    beaten_lengths: participant.beaten_lengths,
+    disqualified: !!participant.disqualified,
+    dq_placed_position: participant.dq_placed_position
+  };
+}
+
+export function validatePurseSplit(split: number[]): string[] {
+  const errors: string[] = [];
+  if (split.some(percent => !Number.isFinite(percent) || percent < 0)) {
+    errors.push('Split percentages must be zero or more');
+  }
+  const total = split.reduce((sum, percent) => sum + percent, 0);
+  if (total > 100) errors.push(`Split percentages add up to ${total}%, more than the purse`);
+  return errors;
+}
+
+export function validateResults(entries: ResultEntry[], finalTime: string): string[] {
+  const errors: string[] = [];
+  const finishers = entries.filter(e => e.order_of_finish !== undefined);
+  if (finishers.length === 0) errors.push('Enter the order of finish');
+  if (finishers.some(e => !Number.isInteger(e.order_of_finish) || e.order_of_finish! < 1 || e.order_of_finish! > entries.length)) {
+    errors.push(`Order of finish must be between 1 and ${entries.length}`);
+  }
+  if (!finishers.some(e => e.order_of_finish === 1)) errors.push('No horse finished first');
+  if (entries.some(e => e.beaten_lengths !== undefined && e.beaten_lengths < 0)) {
+    errors.push('Beaten lengths cannot be negative');
+  }
+  entries.filter(e => e.disqualified).forEach(e => {
+    if (e.order_of_finish === undefined) {
+      errors.push('Only horses that finished can be disqualified');
+    } else if (!e.dq_placed_position || e.dq_placed_position <= e.order_of_finish) {
+      errors.push('A disqualified horse must be placed behind where it finished');
+    }
+  });
+  if (finalTime && !FINAL_TIME_PATTERN.test(finalTime)) {
+    errors.push('Final time must look like 1:35.42');
+  }
+  return Array.from(new Set(errors));
+}
+
+// Official placing per participant. Disqualified horses are placed where the stewards put them
+// and everyone they displaced moves up; horses sharing an order of finish are a dead heat.
+export function computeOfficialPlacings(entries: ResultEntry[]): Map<number, number> {
+  const finishers = entries.filter(e => e.order_of_finish !== undefined);
+  const ranked = finishers
+    .filter(e => !e.disqualified)
+    .sort((a, b) => a.order_of_finish! - b.order_of_finish!);
+  finishers
+    .filter(e => e.disqualified)
+    .sort((a, b) => a.dq_placed_position! - b.dq_placed_position!)
+    .forEach(e => ranked.splice(Math.min(e.dq_placed_position! - 1, ranked.length), 0, e));
+
+  const placings = new Map<number, number>();
+  ranked.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    const deadHeat = previous && !previous.disqualified && !entry.disqualified &&
+      previous.order_of_finish === entry.order_of_finish;
+    placings.set(entry.participant_id, deadHeat ? placings.get(previous.participant_id)! : index + 1);
+  });
+  return placings;
+}
+
+// Purse earned per participant. Dead heats pool the shares of the positions they cover.
+export function computePurseDistribution(purse: number, split: number[], placings: Map<number, number>): Map<number, number> {
+  const byPosition = new Map<number, number[]>();
+  placings.forEach((position, participantId) => {
+    byPosition.set(position, [...(byPosition.get(position) ?? []), participantId]);
+  });
+
+  const payouts = new Map<number, number>();
+  byPosition.forEach((participantIds, position) => {
+    const pooled = split
+      .slice(position - 1, position - 1 + participantIds.length)
+      .reduce((sum, percent) => sum + percent, 0);
+    const each = Math.round((purse * pooled) / 100 / participantIds.length * 100) / 100;
+    participantIds.forEach(id => payouts.set(id, each));
+  });
+  return payouts;
+}
+
+async function loadEditableRace(raceId: number): Promise<Race> {
+  const race = await db.races.get(raceId);
+  if (!race) throw new Error('Race not found');
+  if (race.official_at) throw new Error('Results are already official');
+  if (race.status === 'scheduled' || race.status === 'cancelled') {
+    throw new Error(`Results cannot be entered for a ${race.status} race`);
+  }
+  return race;
+}
+
+async function writeEntries(entries: ResultEntry[]): Promise<void> {
+  await Promise.all(entries.map(entry => db.race_participants.update(entry.participant_id, {
+    order_of_finish: entry.order_of_finish,
+    beaten_lengths: entry.beaten_lengths,
+    disqualified: entry.disqualified || undefined,
+    dq_placed_position: entry.disqualified ? entry.dq_placed_position : undefined
+  })));
+}
+
+// Saves unofficial results so entry can be finished later
+export async function saveDraftResults(raceId: number, entries: ResultEntry[], finalTime: string, split: number[]): Promise<void> {
+  await db.transaction('rw', db.races, db.race_participants, async () => {
+    await loadEditableRace(raceId);
+    await writeEntries(entries);
+    await db.races.update(raceId, {
+      final_time: finalTime || undefined,
+      purse_split: split,
+      updated_at: new Date()
+    });
+  });
+}
+
+// Locks the results: sets official placings and purse earned, and completes the race
+export async function makeResultsOfficial(
+  raceId: number,
+  entries: ResultEntry[],
+  finalTime: string,
+  split: number[],
+  userId?: number
+): Promise<void> {
+  const errors = [...validateResults(entries, finalTime), ...validatePurseSplit(split)];
+  if (!finalTime) errors.push('Enter the final time');
+  if (errors.length > 0) throw new Error(errors.join('. '));
+
+  await db.transaction('rw', db.races, db.race_participants, async () => {
+    const race = await loadEditableRace(raceId);
+    const participants = await db.race_participants.where('race_id').equals(raceId).toArray();
+    const starterIds = new Set(participants.filter(isStarter).map(p => p.id!));
+    if (entries.length !== starterIds.size || entries.some(e => !starterIds.has(e.participant_id))) {
+      throw new Error('Results must cover every starter');
+    }
+
+    const placings = computeOfficialPlacings(entries);
+    const payouts = computePurseDistribution(race.purse ?? 0, split, placings);
+
+    await writeEntries(entries);
+    await Promise.all(entries.map(entry => db.race_participants.update(entry.participant_id, {
+      finish_position: placings.get(entry.participant_id),
+      purse_earned: payouts.get(entry.participant_id) || undefined
+    })));
+
+    const now = new Date();
+    await db.races.update(raceId, {
+      status: 'completed',
+      final_time: finalTime,
+      purse_split: split,
+      official_at: now,
+      official_by: userId,
+      updated_at: now
+    });
+  });
+}
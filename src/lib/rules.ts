@@ -0,0 +1,247 @@
+import { db, Activity, DrugTest, Horse, Location, LocationAssignment, Race, RaceParticipant, Racetrack, VeterinaryRecord } from '@/lib/database';
+import { getCurrentAssignments, getOccupancy } from '@/lib/stalls';
+import { getOpenActivities } from '@/lib/activities';
+import { FOLLOW_UP_DUE_SOON_DAYS, getDaysOverdue, getOverdueFollowUps } from '@/lib/veterinary';
+import { getWithdrawalConflicts, WithdrawalConflict } from '@/lib/medications';
+import { isStarter } from '@/lib/raceEntries';
+
+export type RuleSeverity = 'critical' | 'warning';
+
+export const WALKING_LIMIT_MINUTES = 60;
+export const FAILED_TEST_LOOKBACK_DAYS = 30;
+// Live views re-run the rules this often so time-based rules fire without a write
+export const RULE_RECHECK_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything the rules look at, loaded once per evaluation
+export interface RuleContext {
+  now: Date;
+  locations: Location[];
+  assignments: Map<number, LocationAssignment>; // Current assignment by horse id
+  occupancy: Map<number, number>; // Horses by location id
+  openActivities: Map<number, Activity>; // By horse id
+  overdueFollowUps: VeterinaryRecord[];
+  failedTests: DrugTest[];
+  upcomingEntries: { race: Race; participant: RaceParticipant }[];
+  withdrawalConflicts: WithdrawalConflict[];
+}
+
+export interface RuleFinding {
+  details: string;
+  severity?: RuleSeverity; // Overrides the rule's severity for this finding
+}
+
+export interface ProblemRule {
+  id: string;
+  name: string;
+  severity: RuleSeverity;
+  condition: string; // Plain-language description of when the rule fires
+  remediation: string;
+  enabledByDefault: boolean;
+  evaluate: (horse: Horse, context: RuleContext) => RuleFinding[];
+}
+
+// One rule firing for one horse
+export interface Problem {
+  rule_id: string;
+  horse_id: number;
+  severity: RuleSeverity;
+  title: string;
+  details: string;
+  remediation: string;
+}
+
+const locationOf = (horse: Horse, context: RuleContext) => {
+  const assignment = context.assignments.get(horse.id!);
+  return assignment ? context.locations.find(l => l.id === assignment.location_id) : undefined;
+};
+
+export const PROBLEM_RULES: ProblemRule[] = [
+  {
+    id: 'horse_injured',
+    name: 'Horse Injured',
+    severity: 'critical',
+    condition: 'Horse status is injured',
+    remediation: 'Keep the horse where it is until a veterinarian approves moving it.',
+    enabledByDefault: true,
+    evaluate: horse => horse.status === 'injured'
+      ? [{ details: 'Horse requires immediate medical attention and should not be moved without veterinary approval.' }]
+      : []
+  },
+  {
+    id: 'no_location',
+    name: 'No Location Assignment',
+    severity: 'critical',
+    condition: 'Active horse has no current location assignment',
+    remediation: 'Check the horse in to a barn, paddock or track location.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => horse.status === 'active' && !context.assignments.has(horse.id!)
+      ? [{ details: 'Active horse has no location assignment. This horse needs to be assigned to a proper location immediately.' }]
+      : []
+  },
+  {
+    id: 'walking_without_location',
+    name: 'Walking Without Location',
+    severity: 'warning',
+    condition: 'Horse is walking but has no current location assignment',
+    remediation: 'Assign the horse to the paddock or track it is walking on.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => horse.current_activity === 'walking' && !context.assignments.has(horse.id!)
+      ? [{ details: 'Horse is walking but has no specific location assigned. Consider assigning to a paddock or track.' }]
+      : []
+  },
+  {
+    id: 'walking_too_long',
+    name: 'Walking Too Long',
+    severity: 'warning',
+    condition: `Walking activity has been open for more than ${WALKING_LIMIT_MINUTES} minutes`,
+    remediation: 'Check on the horse and stop the activity in the Activities console once it is back.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => {
+      const activity = context.openActivities.get(horse.id!);
+      if (activity?.activity_type !== 'walking') return [];
+      const minutes = Math.floor((context.now.getTime() - activity.start_time.getTime()) / 60000);
+      return minutes > WALKING_LIMIT_MINUTES
+        ? [{ details: `Walking since ${activity.start_time.toLocaleTimeString()} (${minutes} minutes, limit ${WALKING_LIMIT_MINUTES}).` }]
+        : [];
+    }
+  },
+  {
+    id: 'location_over_capacity',
+    name: 'Location Over Capacity',
+    severity: 'warning',
+    condition: 'The horse\'s current location holds more horses than its capacity',
+    remediation: 'Transfer horses to a location with free space.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => {
+      const location = locationOf(horse, context);
+      const occupants = location ? context.occupancy.get(location.id!) ?? 0 : 0;
+      return location && occupants > location.capacity
+        ? [{ details: `${location.name} is over capacity (${occupants}/${location.capacity}). Consider redistributing horses.` }]
+        : [];
+    }
+  },
+  {
+    id: 'vet_follow_up_overdue',
+    name: 'Vet Follow-up Overdue',
+    severity: 'warning',
+    condition: `A veterinary follow-up is past due; critical after ${FOLLOW_UP_DUE_SOON_DAYS} days`,
+    remediation: 'Schedule the follow-up exam, or mark it complete on the Veterinary page.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => context.overdueFollowUps
+      .filter(record => record.horse_id === horse.id)
+      .map(record => {
+        const daysOverdue = getDaysOverdue(record, context.now);
+        return {
+          severity: daysOverdue > FOLLOW_UP_DUE_SOON_DAYS ? 'critical' as const : 'warning' as const,
+          details: `Follow-up from ${record.veterinarian}'s exam on ${record.examination_date.toLocaleDateString()}${record.diagnosis ? ` (${record.diagnosis})` : ''} was due ${record.follow_up_date!.toLocaleDateString()} and is ${daysOverdue} day(s) overdue.`
+        };
+      })
+  },
+  {
+    id: 'drug_test_failed',
+    name: 'Drug Test Failed',
+    severity: 'critical',
+    condition: `A drug test came back failed in the last ${FAILED_TEST_LOOKBACK_DAYS} days`,
+    remediation: 'Notify the stewards and hold the horse from entries until the ruling is made.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => context.failedTests
+      .filter(test => test.horse_id === horse.id)
+      .map(test => ({
+        details: `${test.test_type.replace('_', '-')} test from ${test.test_date.toLocaleDateString()} failed${test.results ? `: ${test.results}` : ''}.`
+      }))
+  },
+  {
+    id: 'entered_while_injured',
+    name: 'Entered Horse Injured',
+    severity: 'critical',
+    condition: 'Injured horse is entered in an upcoming race',
+    remediation: 'Scratch the entry or have a veterinarian clear the horse to run.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => horse.status !== 'injured' ? [] : context.upcomingEntries
+      .filter(entry => entry.participant.horse_id === horse.id)
+      .map(entry => ({ details: `Injured but entered in ${entry.race.name} on ${entry.race.race_date.toLocaleString()}.` }))
+  },
+  {
+    id: 'entered_within_withdrawal',
+    name: 'Entered Within Withdrawal',
+    severity: 'critical',
+    condition: 'Horse will still be inside a medication withdrawal period at post time',
+    remediation: 'Scratch the entry, or confirm the withdrawal rule and administration time are correct.',
+    enabledByDefault: true,
+    evaluate: (horse, context) => context.withdrawalConflicts
+      .filter(conflict => conflict.horse_id === horse.id)
+      .map(conflict => ({
+        details: `Entered in ${conflict.race.name} on ${conflict.race.race_date.toLocaleString()} but ${conflict.administration.substance} given ${conflict.administration.administered_at.toLocaleString()} does not clear until ${conflict.clears_at.toLocaleString()}.`
+      }))
+  }
+];
+
+// Tracks may switch rules off (or back on); anything they have not set uses the rule's default
+export function isRuleEnabled(rule: ProblemRule, racetrack?: Racetrack | null): boolean {
+  return racetrack?.problem_rules?.[rule.id] ?? rule.enabledByDefault;
+}
+
+export async function saveRuleSettings(racetrackId: number, settings: Record<string, boolean>): Promise<void> {
+  const known = new Set(PROBLEM_RULES.map(r => r.id));
+  const unknown = Object.keys(settings).filter(id => !known.has(id));
+  if (unknown.length > 0) throw new Error(`Unknown rule: ${unknown.join(', ')}`);
+  await db.racetracks.update(racetrackId, { problem_rules: settings, updated_at: new Date() });
+}
+
+async function loadRuleContext(horses: Horse[]): Promise<RuleContext> {
+  const now = new Date();
+  const horseIds = horses.map(h => h.id!);
+  const upcomingRaces = (await db.races.where('status').equals('scheduled').toArray()).filter(r => r.race_date >= now);
+
+  const [locations, assignments, openActivities, overdueFollowUps, failedTests, participants, withdrawalConflicts] = await Promise.all([
+    db.locations.toArray(),
+    db.location_assignments.toArray(),
+    getOpenActivities(horseIds),
+    getOverdueFollowUps(now),
+    db.drug_tests.where('status').equals('failed')
+      .filter(t => (t.resulted_at ?? t.test_date).getTime() >= now.getTime() - FAILED_TEST_LOOKBACK_DAYS * DAY_MS)
+      .toArray(),
+    db.race_participants.where('race_id').anyOf(upcomingRaces.map(r => r.id!)).filter(isStarter).toArray(),
+    getWithdrawalConflicts(upcomingRaces)
+  ]);
+
+  return {
+    now,
+    locations,
+    assignments: getCurrentAssignments(assignments, now),
+    occupancy: getOccupancy(assignments),
+    openActivities,
+    overdueFollowUps,
+    failedTests,
+    upcomingEntries: participants.map(participant => ({
+      participant,
+      race: upcomingRaces.find(r => r.id === participant.race_id)!
+    })),
+    withdrawalConflicts
+  };
+}
+
+// Runs every rule the track has enabled against each horse
+export async function evaluateProblems(horses: Horse[], racetrack?: Racetrack | null): Promise<Problem[]> {
+  const context = await loadRuleContext(horses);
+  const rules = PROBLEM_RULES.filter(rule => isRuleEnabled(rule, racetrack));
+
+  return horses.flatMap(horse => rules.flatMap(rule =>
+    rule.evaluate(horse, context).map(finding => ({
+      rule_id: rule.id,
+      horse_id: horse.id!,
+      severity: finding.severity ?? rule.severity,
+      title: rule.name,
+      details: finding.details,
+      remediation: rule.remediation
+    }))
+  ));
+}
+
+export function groupProblemsByHorse(problems: Problem[]): Map<number, Problem[]> {
+  const grouped = new Map<number, Problem[]>();
+  problems.forEach(p => grouped.set(p.horse_id, [...(grouped.get(p.horse_id) ?? []), p]));
+  return grouped;
+}
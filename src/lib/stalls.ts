@@ -0,0 +1,144 @@
+import { db, Location, LocationAssignment, Stall, STALL_LOCATION_TYPES } from '@/lib/database';
+
+export const STALL_SIZE_LABELS: Record<Stall['size'], string> = {
+  standard: 'Standard',
+  large: 'Large',
+  foaling: 'Foaling'
+};
+
+export function hasStalls(location: Pick<Location, 'type'>): boolean {
+  return STALL_LOCATION_TYPES.includes(location.type.toLowerCase());
+}
+
+export function isCurrentAssignment(assignment: LocationAssignment, at: Date = new Date()): boolean {
+  return assignment.assigned_at <= at && (!assignment.assigned_until || assignment.assigned_until > at);
+}
+
+// Where each horse is right now: its latest assignment that is open at `at`, keyed by horse id.
+// Every view that shows a horse's location should resolve it through here.
+export function getCurrentAssignments(assignments: LocationAssignment[], at: Date = new Date()): Map<number, LocationAssignment> {
+  const current = new Map<number, LocationAssignment>();
+  assignments.filter(a => isCurrentAssignment(a, at)).forEach(a => {
+    const existing = current.get(a.horse_id);
+    if (!existing || a.assigned_at > existing.assigned_at) current.set(a.horse_id, a);
+  });
+  return current;
+}
+
+// Horses currently at each location
+export function getOccupancy(assignments: LocationAssignment[]): Map<number, number> {
+  const occupancy = new Map<number, number>();
+  getCurrentAssignments(assignments).forEach(a => {
+    occupancy.set(a.location_id, (occupancy.get(a.location_id) ?? 0) + 1);
+  });
+  return occupancy;
+}
+
+// The current assignment occupying each stall
+export function getStallOccupants(assignments: LocationAssignment[]): Map<number, LocationAssignment> {
+  const occupants = new Map<number, LocationAssignment>();
+  getCurrentAssignments(assignments).forEach(a => {
+    if (a.stall_id) occupants.set(a.stall_id, a);
+  });
+  return occupants;
+}
+
+export function formatStall(location: Location | undefined, stall: Stall | undefined): string {
+  if (!stall) return location?.name ?? 'Unassigned';
+  return `${location?.name ?? 'Unknown'} · Stall ${stall.stall_number}`;
+}
+
+// Checks a horse in to a location (and stall, for barns) or transfers it there. In one transaction
+// the open assignment is closed, the new one opened and current_location_id updated.
+// Refuses double-booked or out-of-service stalls and locations that are already full.
+export async function assignHorse(assignment: Omit<LocationAssignment, 'id' | 'assigned_at' | 'assigned_until'>): Promise<number> {
+  return db.transaction('rw', db.horses, db.locations, db.stalls, db.location_assignments, async () => {
+    const [horse, location] = await Promise.all([
+      db.horses.get(assignment.horse_id),
+      db.locations.get(assignment.location_id)
+    ]);
+    if (!horse) throw new Error('Horse not found');
+    if (!location) throw new Error('Location not found');
+
+    const now = new Date();
+    const occupants = (await db.location_assignments.where('location_id').equals(location.id!).toArray())
+      .filter(a => isCurrentAssignment(a, now) && a.horse_id !== horse.id);
+
+    if (hasStalls(location)) {
+      if (!assignment.stall_id) throw new Error(`Choose a stall in ${location.name}`);
+      const stall = await db.stalls.get(assignment.stall_id);
+      if (!stall || stall.location_id !== location.id) throw new Error(`Stall is not in ${location.name}`);
+      if (stall.out_of_service) throw new Error(`Stall ${stall.stall_number} is out of service`);
+      if (occupants.some(a => a.stall_id === stall.id)) {
+        throw new Error(`Stall ${stall.stall_number} is already occupied`);
+      }
+    } else if (assignment.stall_id) {
+      throw new Error(`${location.name} does not have stalls`);
+    }
+    if (occupants.length >= location.capacity) {
+      throw new Error(`${location.name} is at capacity (${location.capacity})`);
+    }
+
+    await db.location_assignments
+      .where('horse_id')
+      .equals(horse.id!)
+      .filter(a => isCurrentAssignment(a, now))
+      .modify({ assigned_until: now });
+
+    const id = await db.location_assignments.add({ ...assignment, assigned_at: now });
+    await db.horses.update(horse.id!, { current_location_id: location.id, updated_at: now });
+    return id as number;
+  });
+}
+
+export async function saveStall(stall: Omit<Stall, 'id' | 'created_at' | 'updated_at'>, stallId?: number): Promise<void> {
+  const stallNumber = stall.stall_number.trim();
+  if (!stallNumber) throw new Error('Stall number is required');
+
+  await db.transaction('rw', db.locations, db.stalls, db.location_assignments, async () => {
+    const location = await db.locations.get(stall.location_id);
+    if (!location || !hasStalls(location)) throw new Error('Stalls can only be added to barns and stables');
+
+    const duplicate = await db.stalls
+      .where('[location_id+stall_number]')
+      .equals([stall.location_id, stallNumber])
+      .first();
+    if (duplicate && duplicate.id !== stallId) {
+      throw new Error(`${location.name} already has a stall ${stallNumber}`);
+    }
+
+    if (stall.out_of_service && stallId) {
+      const occupied = await db.location_assignments
+        .where('stall_id')
+        .equals(stallId)
+        .filter(a => isCurrentAssignment(a))
+        .count();
+      if (occupied > 0) throw new Error(`Move the horse out of stall ${stallNumber} first`);
+    }
+
+    const now = new Date();
+    const data = {
+      ...stall,
+      stall_number: stallNumber,
+      out_of_service_reason: stall.out_of_service ? stall.out_of_service_reason : undefined
+    };
+    if (stallId) {
+      await db.stalls.update(stallId, { ...data, updated_at: now });
+    } else {
+      await db.stalls.add({ ...data, created_at: now, updated_at: now });
+    }
+  });
+}
+
+// Checks a horse out: ends its current assignment without placing it anywhere else
+export async function releaseHorse(horseId: number): Promise<void> {
+  await db.transaction('rw', db.horses, db.location_assignments, async () => {
+    const now = new Date();
+    await db.location_assignments
+      .where('horse_id')
+      .equals(horseId)
+      .filter(a => isCurrentAssignment(a, now))
+      .modify({ assigned_until: now });
+    await db.horses.update(horseId, { current_location_id: undefined, updated_at: now });
+  });
+}
@@ -0,0 +1,538 @@
+import Dexie, { DBCore, DBCoreMutateRequest, DBCoreTable, Middleware, Table, Transaction } from 'dexie';
+import { db, SyncRecord } from '@/lib/database';
+import { RELATIONSHIPS } from '@/lib/dataService';
+import { reviveDates } from '@/lib/utils';
+
+// Sync with the REST API in server/. Local writes are marked dirty in an outbox (sync_records) in
+// the same transaction as the write, and pushed with the server version they were based on; the server refuses a push whose base version is stale,
+// and the record becomes a conflict until a user picks a side. Pulls follow the server's change
+// feed and skip anything this browser already has.
+
+// Base URL of the sync API, e.g. http://localhost:8787/api/sync. Sync is off when unset.
+const SYNC_URL: string | undefined = import.meta.env.VITE_SYNC_URL;
+
+export const SYNC_INTERVAL_MS = 30 * 1000;
+const PUSH_BATCH_SIZE = 200;
+
+const CLIENT_ID_KEY = 'equine_sync_client';
+const CURSOR_KEY = 'equine_sync_cursor';
+
+// Tables that never leave this browser. users syncs with its password hashes: sign-in is checked
+// against the local copy, so a user created at one office can only sign in at another if the hash
+// travels too. The hashes are salted PBKDF2 (see lib/password), and the sync server has to be
+// protected like any other credential store.
+const LOCAL_TABLES = ['sessions', 'sync_records', 'sync_conflicts'];
+
+// References RELATIONSHIPS leaves out because their parents are never deleted, but that a record
+// re-keyed by sync must take along
+const SYNC_REFERENCES: { parent: string; child: string; foreignKey: string }[] = [
+  { parent: 'users', child: 'sessions', foreignKey: 'user_id' },
+  { parent: 'users', child: 'owners', foreignKey: 'user_id' },
+  { parent: 'users', child: 'activities', foreignKey: 'recorded_by' },
+  { parent: 'users', child: 'races', foreignKey: 'official_by' },
+  { parent: 'users', child: 'veterinary_records', foreignKey: 'recorded_by' },
+  { parent: 'users', child: 'medication_administrations', foreignKey: 'recorded_by' },
+  { parent: 'users', child: 'owner_charges', foreignKey: 'recorded_by' },
+  { parent: 'users', child: 'custody_handoffs', foreignKey: 'recorded_by' },
+  { parent: 'users', child: 'location_assignments', foreignKey: 'assigned_by' },
+  { parent: 'users', child: 'incidents', foreignKey: 'acknowledged_by' },
+  { parent: 'users', child: 'incidents', foreignKey: 'assigned_to' },
+  { parent: 'users', child: 'incidents', foreignKey: 'resolved_by' },
+  { parent: 'users', child: 'incident_notes', foreignKey: 'user_id' },
+  { parent: 'users', child: 'audit_log', foreignKey: 'user_id' },
+  { parent: 'seasons', child: 'horses', foreignKey: 'season_id' },
+  { parent: 'seasons', child: 'races', foreignKey: 'season_id' },
+  { parent: 'seasons', child: 'location_assignments', foreignKey: 'season_id' },
+  { parent: 'racetracks', child: 'seasons', foreignKey: 'racetrack_id' }
+];
+
+// Floor plan shapes keep their own stall and location references inside locations.floor_plan
+const FLOOR_PLAN_REFERENCES: Record<string, 'stall_id' | 'location_id'> = {
+  stalls: 'stall_id',
+  locations: 'location_id'
+};
+
+type Row = Record<string, unknown> & { id?: number };
+
+interface PushChange {
+  table: string;
+  id: number;
+  base_version: number;
+  deleted: boolean;
+  record?: Row;
+}
+
+type PushResult =
+  | { status: 'applied'; version: number } // Version 0: deleted before the server ever had it
+  | { status: 'conflict'; reason: 'id_taken'; next_id: number }
+  | { status: 'conflict'; reason: 'version_mismatch'; server_version: number; server_deleted: boolean; server_record?: Row }
+  | { status: 'rejected'; error: string };
+
+interface PulledChange {
+  seq: number;
+  table: string;
+  id: number;
+  version: number;
+  deleted: boolean;
+  record?: Row;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+  rejected: number;
+}
+
+export interface SyncState {
+  status: 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+  lastSyncedAt?: Date;
+  lastError?: string;
+}
+
+export const isSyncConfigured = () => !!SYNC_URL;
+
+let syncState: SyncState = { status: SYNC_URL ? 'idle' : 'disabled' };
+const syncStateListeners = new Set<(state: SyncState) => void>();
+
+function setSyncState(changes: Partial<SyncState>) {
+  syncState = { ...syncState, ...changes };
+  syncStateListeners.forEach(listener => listener(syncState));
+}
+
+export const getSyncState = () => syncState;
+
+// Calls the listener on every sync state change. Returns an unsubscribe function.
+export function subscribeSyncState(listener: (state: SyncState) => void): () => void {
+  syncStateListeners.add(listener);
+  return () => {
+    syncStateListeners.delete(listener);
+  };
+}
+
+const syncTransactions = new WeakSet<Transaction>();
+
+// Writes made by sync itself: already audited where they happened and not pushed back
+export const isSyncTransaction = (transaction: Transaction) => syncTransactions.has(transaction);
+
+const syncedTables = () => db.tables.filter(table => !LOCAL_TABLES.includes(table.name));
+
+function applyFromServer<T>(tables: Table[], work: () => Promise<T>): Promise<T> {
+  return db.transaction('rw', [...tables, db.sessions, db.sync_records, db.sync_conflicts], async () => {
+    syncTransactions.add(Dexie.currentTransaction);
+    return work();
+  });
+}
+
+function getClientId(): string {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+}
+
+// Last change seq pulled; null until this browser has synced once
+function getCursor(): number | null {
+  const stored = localStorage.getItem(CURSOR_KEY);
+  return stored === null ? null : parseInt(stored);
+}
+
+const setCursor = (cursor: number) => localStorage.setItem(CURSOR_KEY, cursor.toString());
+
+async function request<T>(path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${SYNC_URL}${path}`, body === undefined ? undefined : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error ?? `Sync server returned ${response.status}`);
+  return data as T;
+}
+
+// Keys of the records a mutation touches. Ranges are read before they are deleted.
+function mutatedKeys(table: DBCoreTable, req: DBCoreMutateRequest): Promise<(res: { results?: unknown[]; failures: Record<number, Error> }) => number[]> {
+  const succeeded = (keys: unknown[], failures: Record<number, Error>) =>
+    keys.filter((key, index) => key != null && !failures[index]) as number[];
+  switch (req.type) {
+    case 'add':
+    case 'put':
+      return Promise.resolve(res => succeeded(res.results ?? [], res.failures));
+    case 'delete':
+      return Promise.resolve(res => succeeded(req.keys, res.failures));
+    case 'deleteRange':
+      return table.query({ trans: req.trans, values: false, query: { index: table.schema.primaryKey, range: req.range } })
+        .then(({ result }) => () => result as number[]);
+  }
+}
+
+// Adds sync_records to every read-write transaction on a synced table and writes the outbox
+// entry for each change in it, so a write and its entry commit together or not at all. Sits
+// below Dexie's hooks middleware, which is where add() results carry their generated keys.
+const outboxMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'SyncOutbox',
+  level: 1,
+  create: down => ({
+    transaction: (stores, mode, options) => down.transaction(
+      mode === 'readwrite' && !stores.includes('sync_records') && stores.some(name => !LOCAL_TABLES.includes(name))
+        ? [...stores, 'sync_records']
+        : stores,
+      mode,
+      options
+    ),
+    table: tableName => {
+      const table = down.table(tableName);
+      if (LOCAL_TABLES.includes(tableName)) return table;
+      const outbox = down.table('sync_records');
+
+      return {
+        ...table,
+        mutate: req => {
+          const transaction = Dexie.currentTransaction;
+          // Sync's own writes are not pushed back; schema upgrades run before sync_records exists
+          if (!transaction || isSyncTransaction(transaction) || transaction.idbtrans.mode !== 'readwrite') {
+            return table.mutate(req);
+          }
+
+          return mutatedKeys(table, req).then(keysOf => table.mutate(req).then(res => {
+            const ids = keysOf(res);
+            if (ids.length === 0) return res;
+            return outbox.getMany({ trans: req.trans, keys: ids.map(id => [tableName, id]) }).then((existing: (SyncRecord | undefined)[]) => {
+              const now = new Date();
+              return outbox.mutate({
+                trans: req.trans,
+                type: 'put',
+                values: ids.map((id, index): SyncRecord => ({
+                  table_name: tableName,
+                  record_id: id,
+                  version: existing[index]?.version ?? 0,
+                  dirty: 1,
+                  deleted: req.type === 'delete' || req.type === 'deleteRange' ? 1 : 0,
+                  changed_at: now
+                }))
+              });
+            }).then(outboxRes => {
+              if (outboxRes.numFailures > 0) throw Object.values(outboxRes.failures)[0];
+              return res;
+            });
+          }));
+        }
+      };
+    }
+  })
+};
+
+let outboxInstalled = false;
+
+// Must run before the database opens: Dexie builds its middleware stack when it opens. Does
+// nothing without a sync server, since nothing would ever empty the outbox.
+export function installSyncOutbox() {
+  if (outboxInstalled || !SYNC_URL) return;
+  if (db.isOpen()) throw new Error('Sync must be installed before the database is opened');
+  outboxInstalled = true;
+  db.use(outboxMiddleware);
+}
+
+const markDirty = async (tableName: string, recordId: number, version: number) => {
+  await db.sync_records.put({ table_name: tableName, record_id: recordId, version, dirty: 1, deleted: 0, changed_at: new Date() });
+};
+
+// Marks a record whose reference was rewritten by a re-key, keeping its server version
+async function markReferenceChanged(tableName: string, recordId: number) {
+  if (LOCAL_TABLES.includes(tableName)) return;
+  const state = await db.sync_records.get([tableName, recordId]);
+  await markDirty(tableName, recordId, state?.version ?? 0);
+}
+
+// A record created here whose id the server already gave to a different record moves to a free
+// id. References listed in RELATIONSHIPS, SYNC_REFERENCES and FLOOR_PLAN_REFERENCES follow it.
+// Runs inside applyFromServer, so the record and everything pointing at it move together.
+async function rekeyLocalRecord(tableName: string, oldId: number, minId: number): Promise<void> {
+  const table = db.table(tableName);
+  const record = await table.get(oldId);
+  await db.sync_records.delete([tableName, oldId]);
+  if (!record) return;
+
+  const lastId: number = (await table.orderBy(':id').last())?.id ?? 0;
+  const newId = Math.max(minId, lastId + 1);
+  await table.delete(oldId);
+  await table.add({ ...record, id: newId });
+  await markDirty(tableName, newId, 0);
+
+  const references = [...RELATIONSHIPS, ...SYNC_REFERENCES].filter(r => r.parent === tableName);
+  for (const reference of references) {
+    const childTable = db.table(reference.child);
+    const children: Row[] = await childTable.filter(row => row[reference.foreignKey] === oldId).toArray();
+    for (const child of children) {
+      await childTable.update(child.id, { [reference.foreignKey]: newId });
+      await markReferenceChanged(reference.child, child.id!);
+    }
+  }
+
+  const shapeKey = FLOOR_PLAN_REFERENCES[tableName];
+  if (!shapeKey) return;
+  const plans = await db.locations.filter(l => !!l.floor_plan?.shapes.some(shape => shape[shapeKey] === oldId)).toArray();
+  for (const location of plans) {
+    const shapes = location.floor_plan!.shapes.map(shape => shape[shapeKey] === oldId ? { ...shape, [shapeKey]: newId } : shape);
+    await db.locations.update(location.id!, { floor_plan: { ...location.floor_plan!, shapes } });
+    await markReferenceChanged('locations', location.id!);
+  }
+}
+
+async function writeServerVersion(tableName: string, recordId: number, version: number, record?: Row) {
+  const table = db.table(tableName);
+  if (record) {
+    await table.put(reviveDates(record));
+  } else {
+    await table.delete(recordId);
+  }
+  await db.sync_records.put({
+    table_name: tableName,
+    record_id: recordId,
+    version,
+    dirty: 0,
+    deleted: record ? 0 : 1,
+    changed_at: new Date()
+  });
+}
+
+async function recordConflict(tableName: string, recordId: number, serverVersion: number, serverRecord?: Row) {
+  const conflict = {
+    table_name: tableName,
+    record_id: recordId,
+    local_record: await db.table(tableName).get(recordId),
+    server_record: serverRecord ? reviveDates(serverRecord) : undefined,
+    server_version: serverVersion
+  };
+  const existing = await db.sync_conflicts.where('[table_name+record_id]').equals([tableName, recordId]).first();
+  if (existing) {
+    await db.sync_conflicts.update(existing.id!, conflict);
+  } else {
+    await db.sync_conflicts.add({ ...conflict, detected_at: new Date() });
+  }
+}
+
+const dataReplacedListeners = new Set<() => void>();
+
+// Calls the listener when a first sync has replaced this browser's data with the server's. Every
+// session was signed out with it, since the users they belonged to are gone.
+export function onLocalDataReplaced(listener: () => void): () => void {
+  dataReplacedListeners.add(listener);
+  return () => {
+    dataReplacedListeners.delete(listener);
+  };
+}
+
+// First sync from this browser. An empty server takes everything here; otherwise this browser
+// drops its own data and sessions and takes the server's, so two separately seeded databases
+// never merge.
+async function bootstrap(): Promise<void> {
+  const { seq } = await request<{ seq: number }>('/status');
+  const tables = syncedTables();
+
+  if (seq === 0) {
+    await db.transaction('rw', [...tables, db.sync_records], async () => {
+      const now = new Date();
+      for (const table of tables) {
+        const ids = (await table.toCollection().primaryKeys()) as number[];
+        await db.sync_records.bulkPut(ids.map(id => ({
+          table_name: table.name,
+          record_id: id,
+          version: 0,
+          dirty: 1 as const,
+          deleted: 0 as const,
+          changed_at: now
+        })));
+      }
+    });
+  } else {
+    await applyFromServer(tables, async () => {
+      for (const table of tables) await table.clear();
+      await db.sessions.clear();
+      await db.sync_records.clear();
+      await db.sync_conflicts.clear();
+    });
+  }
+  setCursor(0);
+  if (seq > 0) dataReplacedListeners.forEach(listener => listener());
+}
+
+async function applyPulledChanges(changes: PulledChange[]): Promise<number> {
+  return applyFromServer(syncedTables(), async () => {
+    let applied = 0;
+    for (const change of changes) {
+      const state = await db.sync_records.get([change.table, change.id]);
+      if (state && state.version >= change.version) continue; // Usually our own push coming back
+
+      if (state?.dirty && state.version > 0) {
+        await recordConflict(change.table, change.id, change.version, change.record);
+        continue;
+      }
+      if (state?.dirty) {
+        await rekeyLocalRecord(change.table, change.id, change.id + 1);
+      }
+      await writeServerVersion(change.table, change.id, change.version, change.deleted ? undefined : change.record);
+      applied++;
+    }
+    return applied;
+  });
+}
+
+async function pull(): Promise<number> {
+  let cursor = getCursor() ?? 0;
+  let pulled = 0;
+  for (;;) {
+    const page = await request<{ changes: PulledChange[]; cursor: number; has_more: boolean }>(`/changes?since=${cursor}`);
+    pulled += await applyPulledChanges(page.changes);
+    cursor = page.cursor;
+    setCursor(cursor);
+    if (!page.has_more) return pulled;
+  }
+}
+
+async function pushBatch(batch: SyncRecord[]): Promise<Omit<SyncResult, 'pulled'>> {
+  const changes: PushChange[] = await Promise.all(batch.map(async state => {
+    const record: Row | undefined = state.deleted ? undefined : await db.table(state.table_name).get(state.record_id);
+    return {
+      table: state.table_name,
+      id: state.record_id,
+      base_version: state.version,
+      deleted: !record, // A record marked changed that is gone now was deleted
+      record
+    };
+  }));
+  const { results } = await request<{ results: PushResult[] }>('/push', { client_id: getClientId(), changes });
+
+  const tally = { pushed: 0, conflicts: 0, rejected: 0 };
+  await applyFromServer(syncedTables(), async () => {
+    for (const [index, result] of results.entries()) {
+      const sent = batch[index];
+      const current = await db.sync_records.get([sent.table_name, sent.record_id]);
+      // Written again while the push was in flight; stays dirty for the next round
+      const unchanged = current?.changed_at.getTime() === sent.changed_at.getTime();
+
+      if (result.status === 'applied') {
+        tally.pushed++;
+        if (result.version === 0 && unchanged) {
+          await db.sync_records.delete([sent.table_name, sent.record_id]);
+        } else {
+          await db.sync_records.put({ ...(current ?? sent), version: result.version, dirty: unchanged ? 0 : 1 });
+        }
+      } else if (result.status === 'conflict' && result.reason === 'id_taken') {
+        await rekeyLocalRecord(sent.table_name, sent.record_id, result.next_id);
+      } else if (result.status === 'conflict') {
+        tally.conflicts++;
+        await recordConflict(sent.table_name, sent.record_id, result.server_version, result.server_record);
+      } else {
+        tally.rejected++;
+        console.error(`Sync server rejected ${sent.table_name} ${sent.record_id}: ${result.error}`);
+      }
+    }
+  });
+  return tally;
+}
+
+async function push(): Promise<Omit<SyncResult, 'pulled'>> {
+  const conflicted = new Set((await db.sync_conflicts.toArray()).map(c => `${c.table_name}:${c.record_id}`));
+  const dirty = (await db.sync_records.where('dirty').equals(1).toArray())
+    .filter(state => !conflicted.has(`${state.table_name}:${state.record_id}`));
+
+  const total = { pushed: 0, conflicts: 0, rejected: 0 };
+  for (let start = 0; start < dirty.length; start += PUSH_BATCH_SIZE) {
+    const tally = await pushBatch(dirty.slice(start, start + PUSH_BATCH_SIZE));
+    total.pushed += tally.pushed;
+    total.conflicts += tally.conflicts;
+    total.rejected += tally.rejected;
+  }
+  return total;
+}
+
+let running: Promise<SyncResult> | null = null;
+
+// Pulls, then pushes. Calls made while a sync is running share it.
+export function syncNow(): Promise<SyncResult> {
+  if (!SYNC_URL) return Promise.reject(new Error('Sync is not configured; set VITE_SYNC_URL'));
+  if (!navigator.onLine) {
+    setSyncState({ status: 'offline' });
+    return Promise.reject(new Error('You are offline; changes will sync when the connection is back'));
+  }
+  running ??= (async () => {
+    setSyncState({ status: 'syncing' });
+    if (getCursor() === null) await bootstrap();
+    const pulled = await pull();
+    return { pulled, ...(await push()) };
+  })().then(result => {
+    setSyncState({ status: 'idle', lastSyncedAt: new Date(), lastError: undefined });
+    return result;
+  }, error => {
+    // A dropped connection shows up as a failed fetch before the offline event fires
+    setSyncState(navigator.onLine
+      ? { status: 'error', lastError: error instanceof Error ? error.message : String(error) }
+      : { status: 'offline' });
+    throw error;
+  }).finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+// Syncs now, on an interval and whenever the browser comes back online. Skips runs while offline;
+// local writes keep queuing in the meantime. Returns a stop function.
+export function startBackgroundSync(intervalMs: number = SYNC_INTERVAL_MS): () => void {
+  if (!SYNC_URL) return () => undefined;
+  const run = () => {
+    if (!navigator.onLine) {
+      setSyncState({ status: 'offline' });
+      return;
+    }
+    syncNow().catch(error => console.error('Sync failed:', error));
+  };
+  const goOffline = () => setSyncState({ status: 'offline' });
+  run();
+  const timer = setInterval(run, intervalMs);
+  window.addEventListener('online', run);
+  window.addEventListener('offline', goOffline);
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('online', run);
+    window.removeEventListener('offline', goOffline);
+  };
+}
+
+// Keeping the local copy pushes it over the server's on the next sync; keeping the server's
+// copy overwrites the local one now. When both copies exist, serverFields lists fields that take
+// the server's value in the kept local copy, so a conflict can be settled field by field.
+export async function resolveConflict(conflictId: number, keep: 'local' | 'server', serverFields: string[] = []): Promise<void> {
+  const conflict = await db.sync_conflicts.get(conflictId);
+  if (!conflict) throw new Error('Conflict not found');
+
+  const table = db.table(conflict.table_name);
+  await applyFromServer([table], async () => {
+    if (keep === 'server') {
+      await writeServerVersion(conflict.table_name, conflict.record_id, conflict.server_version, conflict.server_record);
+    } else {
+      const local: Row | undefined = await table.get(conflict.record_id);
+      if (local && conflict.server_record && serverFields.length > 0) {
+        const merged: Row = { ...local };
+        for (const field of serverFields) {
+          if (field in conflict.server_record) merged[field] = conflict.server_record[field];
+          else delete merged[field];
+        }
+        await table.put(merged);
+      }
+      const state = await db.sync_records.get([conflict.table_name, conflict.record_id]);
+      await db.sync_records.put({
+        table_name: conflict.table_name,
+        record_id: conflict.record_id,
+        version: conflict.server_version,
+        dirty: 1,
+        deleted: state?.deleted ?? 0,
+        changed_at: new Date()
+      });
+    }
+    await db.sync_conflicts.delete(conflictId);
+  });
+}
@@ -0,0 +1,149 @@
+import { db } from '@/lib/database';
+import { ROUTE_LABELS } from '@/lib/medications';
+import { formatStall } from '@/lib/stalls';
+
+export type TimelineEventType = 'location' | 'activity' | 'race' | 'veterinary' | 'medication' | 'drug_test';
+
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventType, string> = {
+  location: 'Location',
+  activity: 'Activity',
+  race: 'Race',
+  veterinary: 'Veterinary',
+  medication: 'Medication',
+  drug_test: 'Drug Test'
+};
+
+export interface TimelineEvent {
+  key: string; // Unique across event types
+  type: TimelineEventType;
+  date: Date;
+  endDate?: Date;
+  title: string;
+  details: string[];
+  status?: string;
+}
+
+const ordinal = (n: number) => {
+  const suffix = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffix[(v - 20) % 10] || suffix[v] || suffix[0]);
+};
+
+// Everything that has happened to a horse, newest first
+export async function buildHorseTimeline(horseId: number): Promise<TimelineEvent[]> {
+  const [assignments, activities, participants, vetRecords, medications, drugTests, locations, races, stalls] = await Promise.all([
+    db.location_assignments.where('horse_id').equals(horseId).toArray(),
+    db.activities.where('horse_id').equals(horseId).toArray(),
+    db.race_participants.where('horse_id').equals(horseId).toArray(),
+    db.veterinary_records.where('horse_id').equals(horseId).toArray(),
+    db.medication_administrations.where('horse_id').equals(horseId).toArray(),
+    db.drug_tests.where('horse_id').equals(horseId).toArray(),
+    db.locations.toArray(),
+    db.races.toArray(),
+    db.stalls.toArray()
+  ]);
+
+  const locationName = (id?: number) => locations.find(l => l.id === id)?.name || 'Unknown location';
+  const raceName = (id?: number) => races.find(r => r.id === id)?.name;
+  const events: TimelineEvent[] = [];
+
+  assignments.forEach(assignment => {
+    events.push({
+      key: `location-${assignment.id}`,
+      type: 'location',
+      date: assignment.assigned_at,
+      endDate: assignment.assigned_until,
+      title: `Moved to ${formatStall(locations.find(l => l.id === assignment.location_id), stalls.find(s => s.id === assignment.stall_id))}`,
+      details: [assignment.notes].filter(Boolean) as string[],
+      status: assignment.assigned_until && assignment.assigned_until <= new Date() ? 'ended' : 'current'
+    });
+  });
+
+  activities.forEach(activity => {
+    events.push({
+      key: `activity-${activity.id}`,
+      type: 'activity',
+      date: activity.start_time,
+      endDate: activity.end_time,
+      title: `${activity.activity_type.charAt(0).toUpperCase()}${activity.activity_type.slice(1)}${activity.location_id ? ` at ${locationName(activity.location_id)}` : ''}`,
+      details: [activity.notes].filter(Boolean) as string[],
+      status: activity.end_time ? 'completed' : 'in progress'
+    });
+  });
+
+  participants.forEach(participant => {
+    const race = races.find(r => r.id === participant.race_id);
+    if (!race) return;
+    const details = [
+      `${race.track} • ${race.distance} • ${race.race_type}`,
+      participant.jockey_name && `Jockey: ${participant.jockey_name}`,
+      participant.post_position && `Post position ${participant.post_position}`,
+      participant.odds && `Odds ${participant.odds}`,
+      participant.disqualified && participant.order_of_finish && `Disqualified from ${ordinal(participant.order_of_finish)}`,
+      participant.beaten_lengths && `Beaten ${participant.beaten_lengths} length(s)`,
+      participant.purse_earned && `Earned $${participant.purse_earned.toLocaleString()}`,
+      participant.failed_drug_test_id && 'Failed post-race drug test',
+      participant.scratched_at && `Scratched ${participant.scratched_at.toLocaleDateString()}${participant.scratch_reason ? `: ${participant.scratch_reason}` : ''}`
+    ].filter(Boolean) as string[];
+    events.push({
+      key: `race-${participant.id}`,
+      type: 'race',
+      date: race.race_date,
+      title: participant.scratched_at
+        ? `Scratched from ${race.name}`
+        : participant.finish_position
+          ? `Finished ${ordinal(participant.finish_position)} in ${race.name}`
+          : `Entered in ${race.name}`,
+      details,
+      status: race.status
+    });
+  });
+
+  vetRecords.forEach(record => {
+    events.push({
+      key: `veterinary-${record.id}`,
+      type: 'veterinary',
+      date: record.examination_date,
+      title: `Examined by ${record.veterinarian}`,
+      details: [
+        record.diagnosis && `Diagnosis: ${record.diagnosis}`,
+        record.treatment && `Treatment: ${record.treatment}`,
+        record.medications && `Medications: ${record.medications}`,
+        record.follow_up_date && `Follow-up due ${record.follow_up_date.toLocaleDateString()}`,
+        record.notes
+      ].filter(Boolean) as string[],
+      status: record.follow_up_required && !record.follow_up_completed_at ? 'follow-up required' : undefined
+    });
+  });
+
+  medications.forEach(administration => {
+    events.push({
+      key: `medication-${administration.id}`,
+      type: 'medication',
+      date: administration.administered_at,
+      title: `${administration.substance} administered`,
+      details: [
+        `${administration.dose} • ${ROUTE_LABELS[administration.route]} • by ${administration.administered_by}`,
+        administration.notes
+      ].filter(Boolean) as string[]
+    });
+  });
+
+  drugTests.forEach(test => {
+    const race = raceName(test.race_id);
+    events.push({
+      key: `drug_test-${test.id}`,
+      type: 'drug_test',
+      date: test.test_date,
+      title: `${test.test_type.replace('_', '-')} drug test${race ? ` for ${race}` : ''}`,
+      details: [
+        test.substances_tested && `Tested for: ${test.substances_tested}`,
+        test.results && `Results: ${test.results}`,
+        test.notes
+      ].filter(Boolean) as string[],
+      status: test.status
+    });
+  });
+
+  return events.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+// Turns the ISO strings JSON leaves behind back into Dates, for data read from a file or the network
+export function reviveDates<T>(value: T): T {
+  if (typeof value === "string" && ISO_DATE.test(value)) return new Date(value) as T
+  if (Array.isArray(value)) return value.map(reviveDates) as T
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, reviveDates(v)])) as T
+  }
+  return value
+}
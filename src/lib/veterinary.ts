@@ -0,0 +1,42 @@
+import { db, VeterinaryRecord } from '@/lib/database';
+
+export type FollowUpStatus = 'none' | 'scheduled' | 'due_soon' | 'overdue' | 'completed';
+
+// Follow-ups due within this many days show up on the worklist before they are overdue
+export const FOLLOW_UP_DUE_SOON_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getFollowUpStatus(record: VeterinaryRecord, now: Date = new Date()): FollowUpStatus {
+  if (!record.follow_up_required) return 'none';
+  if (record.follow_up_completed_at) return 'completed';
+  if (!record.follow_up_date) return 'scheduled';
+  if (record.follow_up_date < now) return 'overdue';
+  if (record.follow_up_date.getTime() - now.getTime() <= FOLLOW_UP_DUE_SOON_DAYS * DAY_MS) return 'due_soon';
+  return 'scheduled';
+}
+
+export function getDaysOverdue(record: VeterinaryRecord, now: Date = new Date()): number {
+  if (!record.follow_up_date) return 0;
+  return Math.max(0, Math.floor((now.getTime() - record.follow_up_date.getTime()) / DAY_MS));
+}
+
+// Open follow-ups, soonest due first; records without a due date sort last
+export async function getOpenFollowUps(): Promise<VeterinaryRecord[]> {
+  const records = await db.veterinary_records
+    .filter(record => record.follow_up_required && !record.follow_up_completed_at)
+    .toArray();
+  return records.sort((a, b) =>
+    (a.follow_up_date?.getTime() ?? Infinity) - (b.follow_up_date?.getTime() ?? Infinity)
+  );
+}
+
+export async function getOverdueFollowUps(now: Date = new Date()): Promise<VeterinaryRecord[]> {
+  const open = await getOpenFollowUps();
+  return open.filter(record => getFollowUpStatus(record, now) === 'overdue');
+}
+
+export async function completeFollowUp(recordId: number): Promise<void> {
+  const now = new Date();
+  await db.veterinary_records.update(recordId, { follow_up_completed_at: now, updated_at: now });
+}
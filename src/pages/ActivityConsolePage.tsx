@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { getAccessibleHorses } from '@/lib/permissions';
+import { useLiveData } from '@/hooks/useLiveData';
+import { db, Activity } from '@/lib/database';
+import { ACTIVITY_TYPE_LABELS, getOpenActivities, startActivity, stopActivities } from '@/lib/activities';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { useToast } from '@/hooks/use-toast';
+import { Play, Square, Search, Timer } from 'lucide-react';
+import { format, formatDistanceStrict, startOfDay } from 'date-fns';
+
+const NO_LOCATION = 'none';
+
+export function ActivityConsolePage() {
+  const { user } = useAuth();
+  const { activeSeason } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [activityType, setActivityType] = useState<Activity['activity_type']>('walking');
+  const [locationId, setLocationId] = useState(NO_LOCATION);
+  const [notes, setNotes] = useState('');
+  const canWrite = can('horses:write');
+
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    if (!activeSeason) return undefined;
+
+    const horses = (await getAccessibleHorses(user, activeSeason.id)).sort((a, b) => a.name.localeCompare(b.name));
+    const horseIds = horses.map(h => h.id!);
+    const [locations, openActivities, today] = await Promise.all([
+      db.locations.toArray(),
+      getOpenActivities(horseIds),
+      db.activities
+        .where('start_time').aboveOrEqual(startOfDay(new Date()))
+        .filter(a => !!a.end_time && horseIds.includes(a.horse_id))
+        .toArray()
+    ]);
+    return {
+      horses,
+      locations: locations.sort((a, b) => a.name.localeCompare(b.name)),
+      openActivities,
+      completedToday: today.sort((a, b) => b.end_time!.getTime() - a.end_time!.getTime())
+    };
+  }, [activeSeason, user]);
+
+  const horses = data?.horses ?? [];
+  const locations = data?.locations ?? [];
+  const openActivities = data?.openActivities ?? new Map<number, Activity>();
+  const completedToday = data?.completedToday ?? [];
+
+  const runAction = async (action: () => Promise<number>, success: (count: number) => string) => {
+    try {
+      const count = await action();
+      toast({
+        title: "Success",
+        description: success(count),
+      });
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('Error updating activities:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update activities',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const start = (horseIds: number[]) => runAction(
+    () => startActivity(horseIds, {
+      activity_type: activityType,
+      location_id: locationId === NO_LOCATION ? undefined : parseInt(locationId),
+      notes: notes.trim() || undefined
+    }, user!.id!),
+    count => `Started ${ACTIVITY_TYPE_LABELS[activityType].toLowerCase()} for ${count} horse(s)`
+  );
+
+  const stop = (horseIds: number[]) => runAction(
+    () => stopActivities(horseIds),
+    count => count > 0 ? `Stopped ${count} activit${count === 1 ? 'y' : 'ies'}` : 'No open activities to stop'
+  );
+
+  const horseName = (horseId: number) => horses.find(h => h.id === horseId)?.name || `Horse ${horseId}`;
+  const locationName = (id?: number) => locations.find(l => l.id === id)?.name;
+  const visibleHorses = horses.filter(h =>
+    !searchTerm ||
+    h.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    h.tracking_id.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+  const selectedBusy = selectedIds.filter(id => openActivities.has(id));
+  const selectedIdle = selectedIds.filter(id => !openActivities.has(id));
+  const allVisibleSelected = visibleHorses.length > 0 && visibleHorses.every(h => selectedIds.includes(h.id!));
+  const now = new Date();
+
+  const toggleHorse = (horseId: number) => {
+    setSelectedIds(prev => prev.includes(horseId) ? prev.filter(id => id !== horseId) : [...prev, horseId]);
+  };
+
+  const toggleAllVisible = () => {
+    const visibleIds = visibleHorses.map(h => h.id!);
+    setSelectedIds(prev => allVisibleSelected
+      ? prev.filter(id => !visibleIds.includes(id))
+      : Array.from(new Set([...prev, ...visibleIds])));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Activities</h1>
+          <p className="text-muted-foreground">
+            Start and stop training, walking and other activities as they happen
+          </p>
+        </div>
+        <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+        {(Object.keys(ACTIVITY_TYPE_LABELS) as Activity['activity_type'][]).map(type => (
+          <Card key={type}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{ACTIVITY_TYPE_LABELS[type]}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {Array.from(openActivities.values()).filter(a => a.activity_type === type).length}
+              </div>
+              <p className="text-xs text-muted-foreground">in progress</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {canWrite && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2 w-40">
+                <Label>Activity</Label>
+                <Select value={activityType} onValueChange={(value) => setActivityType(value as Activity['activity_type'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACTIVITY_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 w-48">
+                <Label>Where</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LOCATION}>Not recorded</SelectItem>
+                    {locations.map(l => (
+                      <SelectItem key={l.id} value={l.id!.toString()}>{l.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 flex-1 min-w-48">
+                <Label htmlFor="activity-notes">Notes</Label>
+                <Input id="activity-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+              <Button onClick={() => start(selectedIdle)} disabled={selectedIdle.length === 0}>
+                <Play className="h-4 w-4 mr-2" />
+                Start ({selectedIdle.length})
+              </Button>
+              <Button variant="outline" onClick={() => stop(selectedBusy)} disabled={selectedBusy.length === 0}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop ({selectedBusy.length})
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>Horses</CardTitle>
+              <CardDescription>
+                {openActivities.size} of {horses.length} horse(s) in an activity
+              </CardDescription>
+            </div>
+            <div className="relative w-64">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search horses..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading && horses.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {canWrite && (
+                    <TableHead className="w-10">
+                      <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAllVisible} />
+                    </TableHead>
+                  )}
+                  <TableHead>Horse</TableHead>
+                  <TableHead>Current Activity</TableHead>
+                  <TableHead>Where</TableHead>
+                  <TableHead>Elapsed</TableHead>
+                  {canWrite && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleHorses.map(horse => {
+                  const open = openActivities.get(horse.id!);
+                  return (
+                    <TableRow key={horse.id}>
+                      {canWrite && (
+                        <TableCell>
+                          <Checkbox checked={selectedIds.includes(horse.id!)} onCheckedChange={() => toggleHorse(horse.id!)} />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Link to={`/horses/${horse.id}`} className="font-medium hover:underline">{horse.name}</Link>
+                        <div className="text-xs text-muted-foreground">{horse.tracking_id}</div>
+                      </TableCell>
+                      <TableCell>
+                        {open ? (
+                          <Badge>{ACTIVITY_TYPE_LABELS[open.activity_type]}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">Idle</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{open ? locationName(open.location_id) ?? '—' : '—'}</TableCell>
+                      <TableCell>{open ? formatDistanceStrict(open.start_time, now) : '—'}</TableCell>
+                      {canWrite && (
+                        <TableCell className="text-right">
+                          {open ? (
+                            <Button size="sm" variant="outline" onClick={() => stop([horse.id!])}>
+                              <Square className="h-3 w-3 mr-1" />
+                              Stop
+                            </Button>
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => start([horse.id!])}>
+                              <Play className="h-3 w-3 mr-1" />
+                              {ACTIVITY_TYPE_LABELS[activityType]}
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Completed Today
+          </CardTitle>
+          <CardDescription>{completedToday.length} activit{completedToday.length === 1 ? 'y' : 'ies'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {completedToday.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No activities finished today.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Horse</TableHead>
+                  <TableHead>Activity</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Ended</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {completedToday.map(activity => (
+                  <TableRow key={activity.id}>
+                    <TableCell className="font-medium">{horseName(activity.horse_id)}</TableCell>
+                    <TableCell>{ACTIVITY_TYPE_LABELS[activity.activity_type]}</TableCell>
+                    <TableCell>{format(activity.start_time, 'h:mm a')}</TableCell>
+                    <TableCell>{format(activity.end_time!, 'h:mm a')}</TableCell>
+                    <TableCell>{formatDistanceStrict(activity.start_time, activity.end_time!)}</TableCell>
+                    <TableCell className="text-muted-foreground">{activity.notes || ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
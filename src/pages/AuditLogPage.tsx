@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { db, AuditLogEntry, User } from '@/lib/database';
+import { getChangedFields } from '@/lib/audit';
+import { useLiveData } from '@/hooks/useLiveData';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronRight, X } from 'lucide-react';
+
+const MAX_ROWS = 500;
+
+export function AuditLogPage() {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Filters
+  const [entityFilter, setEntityFilter] = useState('all');
+  const [userFilter, setUserFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const { data: entries = [], isLoading, isLive, updatedAt } = useLiveData(async (): Promise<AuditLogEntry[]> => {
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`) : new Date(0);
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`) : new Date(8640000000000000);
+
+    return db.audit_log
+      .where('timestamp')
+      .between(from, to, true, true)
+      .reverse()
+      .filter(entry =>
+        (entityFilter === 'all' || entry.table_name === entityFilter) &&
+        (actionFilter === 'all' || entry.action === actionFilter) &&
+        (userFilter === 'all' ||
+          (userFilter === 'system' ? !entry.user_id : entry.user_id === parseInt(userFilter)))
+      )
+      .limit(MAX_ROWS)
+      .toArray();
+  }, [entityFilter, userFilter, actionFilter, fromDate, toDate]);
+
+  const { data: filterData } = useLiveData(async () => {
+    const [usersData, tableNamesData] = await Promise.all([
+      db.users.toArray(),
+      db.audit_log.orderBy('table_name').uniqueKeys()
+    ]);
+    return { users: usersData, tableNames: tableNamesData as string[] };
+  }, []);
+
+  const users: User[] = filterData?.users ?? [];
+  const tableNames: string[] = filterData?.tableNames ?? [];
+
+  const clearFilters = () => {
+    setEntityFilter('all');
+    setUserFilter('all');
+    setActionFilter('all');
+    setFromDate('');
+    setToDate('');
+  };
+
+  const getActionVariant = (action: string) => {
+    switch (action) {
+      case 'create': return 'default';
+      case 'update': return 'secondary';
+      case 'delete': return 'destructive';
+      default: return 'outline';
+    }
+  };
+
+  const describeEntry = (entry: AuditLogEntry) => {
+    const record = entry.after || entry.before || {};
+    const label = (record.name || record.username || record.tracking_id) as string | undefined;
+    if (entry.action === 'update') {
+      const fields = getChangedFields(entry);
+      return `${label ? `${label}: ` : ''}${fields.length > 0 ? fields.join(', ') : 'no field changes'}`;
+    }
+    return label || '-';
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value instanceof Date) return value.toLocaleString();
+    if (value === undefined) return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  const hasActiveFilters = entityFilter !== 'all' || userFilter !== 'all' || actionFilter !== 'all' || fromDate || toDate;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change to the database, who made it and what it changed
+          </p>
+        </div>
+        <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Filters</CardTitle>
+            {hasActiveFilters && (
+              <Button variant="outline" size="sm" onClick={clearFilters}>
+                <X className="h-3 w-3 mr-1" />
+                Clear All
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select value={entityFilter} onValueChange={setEntityFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Entities</SelectItem>
+                  {tableNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={userFilter} onValueChange={setUserFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  <SelectItem value="system">System</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id!.toString()}>{user.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={setActionFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  <SelectItem value="create">Create</SelectItem>
+                  <SelectItem value="update">Update</SelectItem>
+                  <SelectItem value="delete">Delete</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>
+            Showing {entries.length}{entries.length === MAX_ROWS ? ` most recent (limit ${MAX_ROWS})` : ''} entries
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No audit entries match your filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const fields = Array.from(new Set([
+                    ...Object.keys(entry.before || {}),
+                    ...Object.keys(entry.after || {})
+                  ]));
+                  const changed = getChangedFields(entry);
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id!)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{entry.timestamp.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm">{entry.username || 'System'}</TableCell>
+                        <TableCell>
+                          <Badge variant={getActionVariant(entry.action)}>{entry.action}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm font-mono">{entry.table_name}</TableCell>
+                        <TableCell className="text-sm">#{entry.record_id}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{describeEntry(entry)}</TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={7} className="bg-muted/30">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-muted-foreground">
+                                  <th className="py-1 pr-4">Field</th>
+                                  <th className="py-1 pr-4">Before</th>
+                                  <th className="py-1">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {fields.map(field => (
+                                  <tr key={field} className={changed.includes(field) ? 'font-medium' : 'text-muted-foreground'}>
+                                    <td className="py-1 pr-4 font-mono">{field}</td>
+                                    <td className="py-1 pr-4 break-all">{formatValue(entry.before?.[field])}</td>
+                                    <td className="py-1 break-all">{formatValue(entry.after?.[field])}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLiveData } from '@/hooks/useLiveData';
+import {
+  BackupArchive,
+  backupFileName,
+  createBackup,
+  getTableCounts,
+  parseBackup,
+  previewRestore,
+  restoreBackup,
+  RestoreMode,
+  TableRestorePreview
+} from '@/lib/backup';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, DatabaseBackup, Download, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const tableLabel = (tableName: string) => tableName.replace(/_/g, ' ');
+
+export function BackupRestorePage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<TableRestorePreview[] | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data: counts } = useLiveData(getTableCounts, []);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!archive) return;
+    previewRestore(archive, mode)
+      .then(setPreview)
+      .catch(error => console.error('Error previewing restore:', error));
+  }, [archive, mode, counts]);
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const backup = await createBackup(user?.username);
+      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = backupFileName(backup);
+      a.click();
+      URL.revokeObjectURL(url);
+      toast({
+        title: "Success",
+        description: "Backup downloaded",
+      });
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create backup",
+        variant: "destructive"
+      });
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setArchive(null);
+    setFileError(null);
+    if (!file) return;
+    try {
+      setArchive(await parseBackup(await file.text()));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Failed to read backup');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    setIsRestoring(true);
+    try {
+      await restoreBackup(archive, mode);
+      if (mode === 'replace') {
+        // Every session was signed out; start over at the login screen
+        window.location.reload();
+        return;
+      }
+      toast({
+        title: "Success",
+        description: "Backup merged into the database",
+      });
+      setIsConfirmOpen(false);
+      setArchive(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to restore backup',
+        variant: "destructive"
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const currentTotal = Object.values(counts ?? {}).reduce((sum, n) => sum + n, 0);
+  const totals = preview?.reduce((sum, row) => ({
+    in_backup: sum.in_backup + row.in_backup,
+    current: sum.current + row.current,
+    added: sum.added + row.added,
+    overwritten: sum.overwritten + row.overwritten,
+    removed: sum.removed + row.removed,
+    after: sum.after + row.after
+  }), { in_backup: 0, current: 0, added: 0, overwritten: 0, removed: 0, after: 0 });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Backup & Restore</h1>
+        <p className="text-muted-foreground">
+          Move the whole database between machines or recover it after a browser profile is wiped
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DatabaseBackup className="h-5 w-5" />
+            Create Backup
+          </CardTitle>
+          <CardDescription>
+            Downloads every table as one JSON file, {currentTotal} records in all. The file includes password hashes; store it somewhere safe.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={handleBackup} disabled={isBackingUp}>
+            <Download className="h-4 w-4 mr-2" />
+            {isBackingUp ? 'Preparing...' : 'Download Backup'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Restore
+          </CardTitle>
+          <CardDescription>
+            The backup must come from this version of the app. Nothing is written until you confirm.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="backup-file">Backup File</Label>
+              <Input
+                id="backup-file"
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge: add and update records from the backup</SelectItem>
+                  <SelectItem value="replace">Replace: make the database match the backup</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+
+          {archive && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Made {format(new Date(archive.created_at), 'MMM d, yyyy HH:mm')}
+                {archive.created_by && ` by ${archive.created_by}`} · schema version {archive.schema_version} · checksum verified
+              </p>
+
+              {!preview || !totals ? (
+                <div className="flex items-center justify-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Table</TableHead>
+                      <TableHead className="text-right">In Backup</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">New</TableHead>
+                      <TableHead className="text-right">Overwritten</TableHead>
+                      {mode === 'replace' && <TableHead className="text-right">Removed</TableHead>}
+                      <TableHead className="text-right">After Restore</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map(row => (
+                      <TableRow key={row.table}>
+                        <TableCell className="capitalize">{tableLabel(row.table)}</TableCell>
+                        <TableCell className="text-right">{row.in_backup}</TableCell>
+                        <TableCell className="text-right">{row.current}</TableCell>
+                        <TableCell className="text-right">{row.added}</TableCell>
+                        <TableCell className="text-right">{row.overwritten}</TableCell>
+                        {mode === 'replace' && (
+                          <TableCell className={`text-right ${row.removed > 0 ? 'text-destructive font-medium' : ''}`}>
+                            {row.removed}
+                          </TableCell>
+                        )}
+                        <TableCell className="text-right">{row.after}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">{totals.in_backup}</TableCell>
+                      <TableCell className="text-right">{totals.current}</TableCell>
+                      <TableCell className="text-right">{totals.added}</TableCell>
+                      <TableCell className="text-right">{totals.overwritten}</TableCell>
+                      {mode === 'replace' && <TableCell className="text-right">{totals.removed}</TableCell>}
+                      <TableCell className="text-right">{totals.after}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  variant={mode === 'replace' ? 'destructive' : 'default'}
+                  onClick={() => setIsConfirmOpen(true)}
+                  disabled={!preview}
+                >
+                  {mode === 'replace' ? 'Replace Database' : 'Merge Backup'}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{mode === 'replace' ? 'Replace the database?' : 'Merge the backup?'}</DialogTitle>
+            <DialogDescription>
+              {mode === 'replace'
+                ? `${totals?.removed ?? 0} record(s) not in the backup will be deleted and ${totals?.overwritten ?? 0} overwritten. Everyone is signed out afterwards. This cannot be undone; download a backup first if you may need the current data.`
+                : `${totals?.added ?? 0} record(s) will be added and ${totals?.overwritten ?? 0} overwritten with the backup's copy. Records that are not in the backup are kept.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)} disabled={isRestoring}>
+              Cancel
+            </Button>
+            <Button variant={mode === 'replace' ? 'destructive' : 'default'} onClick={handleRestore} disabled={isRestoring}>
+              {isRestoring ? 'Restoring...' : mode === 'replace' ? 'Replace Database' : 'Merge Backup'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
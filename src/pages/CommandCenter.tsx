@@ -1,88 +1,66 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { db, Horse, Location, LocationAssignment, Owner } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+import { getHorseStatus, StatusColor } from '@/lib/horseStatus';
+import { getCurrentAssignments } from '@/lib/stalls';
+import { evaluateProblems, groupProblemsByHorse, RULE_RECHECK_MS } from '@/lib/rules';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { useClock, useLiveData } from '@/hooks/useLiveData';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { RefreshCw, AlertTriangle, CheckCircle, Clock, Eye } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Clock, Eye } from 'lucide-react';
 import { UnifiedFilters } from '@/components/UnifiedFilters';
+import { MoveHorseDialog } from '@/components/MoveHorseDialog';
+import { LiveIndicator } from '@/components/LiveIndicator';
 import { useUnifiedFilters, filterFunctions } from '@/hooks/useUnifiedFilters';
 
 interface HorseStatus {
   horse: Horse & { owner?: Owner };
   location?: Location;
   assignment?: LocationAssignment;
-  status: 'green' | 'yellow' | 'red' | 'grey';
+  status: StatusColor;
   statusText: string;
 }
 
 export function CommandCenter() {
+  const { activeSeason, activeRacetrack } = useSeason();
+  const { can } = usePermissions();
   const { filters, filterData, updateFilter, clearFilters, getFilteredData } = useUnifiedFilters();
-  const [horseStatuses, setHorseStatuses] = useState<HorseStatus[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [lastUpdate, setLastUpdate] = useState(new Date());
-
-  const loadCommandData = async () => {
-    setIsLoading(true);
-    try {
-      const horses = await db.horses.toArray();
-      const owners = await db.owners.toArray();
-      const locations = await db.locations.toArray();
-      const assignments = await db.location_assignments.toArray();
-
-      const statuses: HorseStatus[] = horses.map(horse => {
-        const owner = owners.find(o => o.id === horse.owner_id);
-        const horseWithOwner = { ...horse, owner };
-        const assignment = assignments.find(a => a.horse_id === horse.id);
-        const location = assignment ? locations.find(l => l.id === assignment.location_id) : undefined;
-
-        let status: 'green' | 'yellow' | 'red' | 'grey' = 'grey';
-        let statusText = 'Unknown';
-
-        if (horse.status === 'inactive' || horse.status === 'retired') {
-          status = 'grey';
-          statusText = horse.status === 'inactive' ? 'Inactive' : 'Retired';
-        } else if (horse.status === 'injured') {
-          status = 'red';
-          statusText = 'Injured - Medical Attention Required';
-        } else if (horse.current_activity === 'walking' && !assignment) {
-          status = 'yellow';
-          statusText = 'Walking - No Location Assigned';
-        } else if (assignment && location) {
-          status = 'green';
-          statusText = `In ${location.name} - ${horse.current_activity || 'Assigned'}`;
-        } else if (!assignment) {
-          status = 'red';
-          statusText = 'No Location Assignment';
-        } else {
-          status = 'yellow';
-          statusText = 'Location Assignment Issue';
-        }
-
-        return {
-          horse: horseWithOwner,
-          location,
-          assignment,
-          status,
-          statusText
-        };
-      });
-
-      setHorseStatuses(statuses);
-      setLastUpdate(new Date());
-    } catch (error) {
-      console.error('Error loading command center data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadCommandData();
-    
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(loadCommandData, 30000);
-    return () => clearInterval(interval);
-  }, []);
+  const [movingHorse, setMovingHorse] = useState<Horse | null>(null);
+  const ruleClock = useClock(RULE_RECHECK_MS);
+
+  const { data: horseStatuses = [], isLoading, isLive, updatedAt } = useLiveData(async (): Promise<HorseStatus[]> => {
+    if (!activeSeason) return [];
+
+    const horses = await db.horses.where('season_id').equals(activeSeason.id!).filter(isActive).toArray();
+    const owners = await db.owners.filter(isActive).toArray();
+    const locations = await db.locations.toArray();
+    const assignments = getCurrentAssignments(
+      await db.location_assignments.where('horse_id').anyOf(horses.map(h => h.id!)).toArray()
+    );
+    const problems = groupProblemsByHorse(await evaluateProblems(horses, activeRacetrack));
+
+    const statuses: HorseStatus[] = horses.map(horse => {
+      const owner = owners.find(o => o.id === horse.owner_id);
+      const horseWithOwner = { ...horse, owner };
+      const assignment = assignments.get(horse.id!);
+      const location = assignment ? locations.find(l => l.id === assignment.location_id) : undefined;
+
+      const { status, statusText } = getHorseStatus(horse, problems.get(horse.id!) ?? [], location);
+
+      return {
+        horse: horseWithOwner,
+        location,
+        assignment,
+        status,
+        statusText
+      };
+    });
+
+    return statuses;
+  }, [activeSeason, activeRacetrack, ruleClock]);
 
   // Apply filters to horse statuses
   const filteredHorseStatuses = getFilteredData(horseStatuses, (status, filters, filterData) => 
@@ -130,10 +108,7 @@ export function CommandCenter() {
             Real-time NOC-style horse location and status monitoring
           </p>
         </div>
-        <Button onClick={loadCommandData} disabled={isLoading}>
-          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
       </div>
 
       {/* Filters */}
@@ -205,7 +180,7 @@ export function CommandCenter() {
         <CardHeader>
           <CardTitle>Live Horse Status Monitor</CardTitle>
           <CardDescription>
-            Last updated: {lastUpdate.toLocaleTimeString()} • Auto-refresh every 30 seconds
+            Updates as soon as any tab records a change
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -241,12 +216,24 @@ export function CommandCenter() {
                   <div className="text-xs font-medium">
                     {horseStatus.statusText}
                   </div>
+                  {can('facilities:manage') && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 mt-1 text-xs"
+                      onClick={() => setMovingHorse(horseStatus.horse)}
+                    >
+                      {horseStatus.assignment ? 'Transfer' : 'Check in'}
+                    </Button>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <MoveHorseDialog horse={movingHorse} onClose={() => setMovingHorse(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,10 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { db, Horse, Activity, Race, DrugTest, Owner } from '@/lib/database';
+import { useSeason } from '@/contexts/SeasonContext';
+import { getAccessibleHorses, getOwnerForUser, isOwnerScoped } from '@/lib/permissions';
+import { useLiveData } from '@/hooks/useLiveData';
+import { db, Activity, Race } from '@/lib/database';
+import { isActive } from '@/lib/archive';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { 
@@ -16,79 +20,78 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, ResponsiveContainer } from 'recharts';
 import { UnifiedFilters } from '@/components/UnifiedFilters';
 import { useUnifiedFilters, filterFunctions } from '@/hooks/useUnifiedFilters';
+import { OwnerStatement } from '@/components/OwnerStatement';
+import { LiveIndicator } from '@/components/LiveIndicator';
+
+const EMPTY_STATS = {
+  totalHorses: 0,
+  activeHorses: 0,
+  inactiveHorses: 0,
+  injuredHorses: 0,
+  recentActivities: [] as Activity[],
+  upcomingRaces: [] as Race[],
+  pendingTests: 0,
+  passedTests: 0,
+  failedTests: 0
+};
 
 export function Dashboard() {
   const { user } = useAuth();
+  const { activeSeason } = useSeason();
   const { filters, filterData, updateFilter, clearFilters, getFilteredData } = useUnifiedFilters();
-  const [allHorses, setAllHorses] = useState<(Horse & { owner?: Owner })[]>([]);
-  const [stats, setStats] = useState({
-    totalHorses: 0,
-    activeHorses: 0,
-    inactiveHorses: 0,
-    injuredHorses: 0,
-    recentActivities: [] as Activity[],
-    upcomingRaces: [] as Race[],
-    pendingTests: 0,
-    passedTests: 0,
-    failedTests: 0
-  });
+  const { data, isLive, updatedAt } = useLiveData(async () => {
+    if (!activeSeason) return undefined;
 
-  useEffect(() => {
-    const loadDashboardData = async () => {
-      try {
-        let horses: Horse[] = [];
-        
-        if (user?.role === 'admin' || user?.role === 'viewer') {
-          horses = await db.horses.toArray();
-        } else if (user?.role === 'owner') {
-          // Get owner ID for current user
-          const owner = await db.owners.where('email').equals(user.email).first();
-          if (owner) {
-            horses = await db.horses.where('owner_id').equals(owner.id!).toArray();
-          }
-        }
+    const horses = await getAccessibleHorses(user, activeSeason.id);
+    const horseIds = new Set(horses.map(h => h.id));
 
-        // Get owner information for each horse
-        const owners = await db.owners.toArray();
-        const horsesWithOwners = horses.map(horse => ({
-          ...horse,
-          owner: owners.find(o => o.id === horse.owner_id)
-        }));
+    // Get owner information for each horse
+    const owners = await db.owners.filter(isActive).toArray();
+    const allHorses = horses.map(horse => ({
+      ...horse,
+      owner: owners.find(o => o.id === horse.owner_id)
+    }));
 
-        setAllHorses(horsesWithOwners);
+    // Owners see their own earnings statement
+    const ownAccount = user && isOwnerScoped(user) ? (await getOwnerForUser(user)) ?? null : null;
 
-        const activities = await db.activities
-          .orderBy('created_at')
-          .reverse()
-          .limit(10)
-          .toArray();
+    // Newest first by the indexed start time; horseIds already limits them to this season
+    const activities = await db.activities
+      .orderBy('start_time')
+      .reverse()
+      .filter(a => horseIds.has(a.horse_id))
+      .limit(10)
+      .toArray();
 
-        const races = await db.races
-          .where('race_date')
-          .above(new Date())
-          .limit(5)
-          .toArray();
+    const races = await db.races
+      .where('race_date')
+      .above(new Date())
+      .filter(r => r.season_id === activeSeason.id)
+      .limit(5)
+      .toArray();
 
-        const drugTests = await db.drug_tests.toArray();
+    const drugTests = (await db.drug_tests.toArray()).filter(t => horseIds.has(t.horse_id));
 
-        setStats({
-          totalHorses: horses.length,
-          activeHorses: horses.filter(h => h.status === 'active').length,
-          inactiveHorses: horses.filter(h => h.status === 'inactive').length,
-          injuredHorses: horses.filter(h => h.status === 'injured').length,
-          recentActivities: activities,
-          upcomingRaces: races,
-          pendingTests: drugTests.filter(t => t.status === 'pending').length,
-          passedTests: drugTests.filter(t => t.status === 'passed').length,
-          failedTests: drugTests.filter(t => t.status === 'failed').length,
-        });
-      } catch (error) {
-        console.error('Error loading dashboard data:', error);
+    return {
+      allHorses,
+      ownAccount,
+      stats: {
+        totalHorses: horses.length,
+        activeHorses: horses.filter(h => h.status === 'active').length,
+        inactiveHorses: horses.filter(h => h.status === 'inactive').length,
+        injuredHorses: horses.filter(h => h.status === 'injured').length,
+        recentActivities: activities,
+        upcomingRaces: races,
+        pendingTests: drugTests.filter(t => t.status === 'pending').length,
+        passedTests: drugTests.filter(t => t.status === 'passed').length,
+        failedTests: drugTests.filter(t => t.status === 'failed').length,
       }
     };
+  }, [user, activeSeason]);
 
-    loadDashboardData();
-  }, [user]);
+  const allHorses = data?.allHorses ?? [];
+  const ownAccount = data?.ownAccount ?? null;
+  const stats = data?.stats ?? EMPTY_STATS;
 
   // Apply filters to horses for filtered stats
   const filteredHorses = getFilteredData(allHorses, filterFunctions.horses);
@@ -113,11 +116,14 @@ export function Dashboard() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
-        <p className="text-muted-foreground">
-          Welcome back, {user?.username}. Here's what's happening with your horses.
-        </p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+          <p className="text-muted-foreground">
+            Welcome back, {user?.username}. Here's what's happening with your horses{activeSeason ? ` during the ${activeSeason.name}` : ''}.
+          </p>
+        </div>
+        <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
       </div>
 
       {/* Filters */}
@@ -250,6 +256,8 @@ export function Dashboard() {
         </Card>
       </div>
 
+      {ownAccount && <OwnerStatement owner={ownAccount} />}
+
       <div className="grid gap-4 md:grid-cols-2">
         {/* Upcoming Races */}
         <Card>
@@ -1,5 +1,7 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { db, Horse, Owner, Location } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+import { getCurrentAssignments } from '@/lib/stalls';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -12,7 +14,9 @@ import {
   MoreHorizontal 
 } from 'lucide-react';
 import { UnifiedFilters } from '@/components/UnifiedFilters';
+import { LiveIndicator } from '@/components/LiveIndicator';
 import { useUnifiedFilters, filterFunctions } from '@/hooks/useUnifiedFilters';
+import { useLiveData } from '@/hooks/useLiveData';
 
 interface HorseGridData extends Horse {
   ownerName: string;
@@ -21,42 +25,27 @@ interface HorseGridData extends Horse {
 
 export function DataGridPage() {
   const { filters, filterData, updateFilter, clearFilters, getFilteredData } = useUnifiedFilters();
-  const [horses, setHorses] = useState<HorseGridData[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [selectedHorses, setSelectedHorses] = useState<number[]>([]);
   const [sortField, setSortField] = useState<keyof HorseGridData>('name');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
-  const loadGridData = async () => {
-    setIsLoading(true);
-    try {
-      const horsesData = await db.horses.toArray();
-      const owners = await db.owners.toArray();
-      const locations = await db.locations.toArray();
-      const assignments = await db.location_assignments.toArray();
+  const { data: horses = [], isLoading, isLive, updatedAt } = useLiveData(async (): Promise<HorseGridData[]> => {
+    const horsesData = await db.horses.filter(isActive).toArray();
+    const owners = await db.owners.filter(isActive).toArray();
+    const locations = await db.locations.toArray();
+    const assignments = getCurrentAssignments(await db.location_assignments.toArray());
 
-      const gridData: HorseGridData[] = horsesData.map(horse => {
-        const owner = owners.find(o => o.id === horse.owner_id);
-        const assignment = assignments.find(a => a.horse_id === horse.id);
-        const location = assignment ? locations.find(l => l.id === assignment.location_id) : undefined;
+    return horsesData.map(horse => {
+      const owner = owners.find(o => o.id === horse.owner_id);
+      const assignment = assignments.get(horse.id!);
+      const location = assignment ? locations.find(l => l.id === assignment.location_id) : undefined;
 
-        return {
-          ...horse,
-          ownerName: owner?.name || 'Unknown',
-          locationName: location?.name || 'Unassigned'
-        };
-      });
-
-      setHorses(gridData);
-    } catch (error) {
-      console.error('Error loading grid data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadGridData();
+      return {
+        ...horse,
+        ownerName: owner?.name || 'Unknown',
+        locationName: location?.name || 'Unassigned'
+      };
+    });
   }, []);
 
   // Apply filters and sorting
@@ -156,7 +145,8 @@ export function DataGridPage() {
             Excel-like interface for bulk horse data management
           </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
           <Button variant="outline">
             <Upload className="h-4 w-4 mr-2" />
             Import
@@ -0,0 +1,630 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { getAccessibleHorses } from '@/lib/permissions';
+import { db, Horse, Race, DrugTest, CustodyHandoff } from '@/lib/database';
+import {
+  generateRequiredTests,
+  transitionDrugTest,
+  addCustodyHandoff,
+  getCustodyChain,
+  STATUS_TRANSITIONS,
+  DrugTestStatus
+} from '@/lib/drugTesting';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveData } from '@/hooks/useLiveData';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { FlaskConical, Plus, ArrowRight, CheckCircle, XCircle, HelpCircle, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+
+const TEST_TYPE_LABELS: Record<DrugTest['test_type'], string> = {
+  pre_race: 'Pre-race',
+  post_race: 'Post-race',
+  random: 'Random',
+  follow_up: 'Follow-up'
+};
+
+const STATUS_ICONS: Record<DrugTestStatus, typeof Clock> = {
+  pending: Clock,
+  passed: CheckCircle,
+  failed: XCircle,
+  inconclusive: HelpCircle
+};
+
+interface SampleForm {
+  sample_id: string;
+  collected_by: string;
+  collected_at: string;
+  lab: string;
+  substances_tested: string;
+  results: string;
+  notes: string;
+}
+
+const toDateTimeInput = (date?: Date) => date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+
+export function DrugTestingPage() {
+  const { user } = useAuth();
+  const { activeSeason } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Sample / custody dialog
+  const [selectedTest, setSelectedTest] = useState<DrugTest | null>(null);
+  const [sampleForm, setSampleForm] = useState<SampleForm | null>(null);
+  const [custodyChain, setCustodyChain] = useState<CustodyHandoff[]>([]);
+  const [handoff, setHandoff] = useState({ from_party: '', to_party: '', handed_at: '', notes: '' });
+
+  // New test dialog
+  const [isNewTestOpen, setIsNewTestOpen] = useState(false);
+  const [newTest, setNewTest] = useState({ horse_id: '', test_type: 'random' as DrugTest['test_type'], test_date: '' });
+
+  const canWriteVet = can('vet:write');
+
+  // Test generation writes, so it runs here rather than inside the live
+  // query; the new rows then reach the table through the query below.
+  useEffect(() => {
+    if (!activeSeason || !canWriteVet) return;
+    generateRequiredTests(activeSeason.id)
+      .then(created => {
+        if (created > 0) {
+          toast({
+            title: "Tests Generated",
+            description: `${created} required race test(s) created from completed races`,
+          });
+        }
+      })
+      .catch(error => console.error('Error generating required tests:', error));
+  }, [activeSeason, canWriteVet, toast]);
+
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    if (!activeSeason) return undefined;
+
+    const horsesData = await getAccessibleHorses(user, activeSeason.id);
+    const horseIds = horsesData.map(h => h.id!);
+    const [testsData, racesData] = await Promise.all([
+      db.drug_tests.where('horse_id').anyOf(horseIds).toArray(),
+      db.races.where('season_id').equals(activeSeason.id!).toArray()
+    ]);
+    testsData.sort((a, b) => b.test_date.getTime() - a.test_date.getTime());
+
+    return {
+      horses: horsesData.sort((a, b) => a.name.localeCompare(b.name)),
+      races: racesData,
+      tests: testsData
+    };
+  }, [activeSeason, user]);
+
+  const horses: Horse[] = data?.horses ?? [];
+  const races: Race[] = data?.races ?? [];
+  const tests: DrugTest[] = data?.tests ?? [];
+
+  const horseName = (horseId: number) => horses.find(h => h.id === horseId)?.name || 'Unknown';
+  const raceName = (raceId?: number) => races.find(r => r.id === raceId)?.name;
+
+  const getStatusVariant = (status: DrugTestStatus) => {
+    switch (status) {
+      case 'passed': return 'default';
+      case 'failed': return 'destructive';
+      case 'inconclusive': return 'secondary';
+      default: return 'outline';
+    }
+  };
+
+  const openTest = async (test: DrugTest) => {
+    setSelectedTest(test);
+    setSampleForm({
+      sample_id: test.sample_id || '',
+      collected_by: test.collected_by || '',
+      collected_at: toDateTimeInput(test.collected_at),
+      lab: test.lab || '',
+      substances_tested: test.substances_tested || '',
+      results: test.results || '',
+      notes: test.notes || ''
+    });
+    setHandoff({ from_party: '', to_party: '', handed_at: toDateTimeInput(new Date()), notes: '' });
+    setCustodyChain(await getCustodyChain(test.id!));
+  };
+
+  const closeTest = () => {
+    setSelectedTest(null);
+    setSampleForm(null);
+  };
+
+  const refreshSelected = async (testId: number) => {
+    const updated = await db.drug_tests.get(testId);
+    if (updated) setSelectedTest(updated);
+    setCustodyChain(await getCustodyChain(testId));
+  };
+
+  const saveSample = async () => {
+    if (!selectedTest || !sampleForm) return;
+
+    const sampleId = sampleForm.sample_id.trim();
+    if (sampleId) {
+      const duplicate = await db.drug_tests.where('sample_id').equals(sampleId).first();
+      if (duplicate && duplicate.id !== selectedTest.id) {
+        toast({
+          title: "Validation Error",
+          description: `Sample ID ${sampleId} is already used by another test`,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    try {
+      await db.drug_tests.update(selectedTest.id!, {
+        sample_id: sampleId || undefined,
+        collected_by: sampleForm.collected_by.trim() || undefined,
+        collected_at: sampleForm.collected_at ? new Date(sampleForm.collected_at) : undefined,
+        lab: sampleForm.lab.trim() || undefined,
+        substances_tested: sampleForm.substances_tested.trim() || undefined,
+        results: sampleForm.results.trim() || undefined,
+        notes: sampleForm.notes.trim() || undefined,
+        updated_at: new Date()
+      });
+      toast({
+        title: "Saved",
+        description: "Sample details updated",
+      });
+      await refreshSelected(selectedTest.id!);
+    } catch (error) {
+      console.error('Error saving sample:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save sample details",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const recordHandoff = async () => {
+    if (!selectedTest) return;
+    if (!handoff.from_party.trim() || !handoff.to_party.trim() || !handoff.handed_at) {
+      toast({
+        title: "Validation Error",
+        description: "From, to and time are required for a custody handoff",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await addCustodyHandoff({
+        drug_test_id: selectedTest.id!,
+        from_party: handoff.from_party.trim(),
+        to_party: handoff.to_party.trim(),
+        handed_at: new Date(handoff.handed_at),
+        notes: handoff.notes.trim() || undefined,
+        recorded_by: user?.id
+      });
+      // The next handoff starts where this one ended
+      setHandoff({ from_party: handoff.to_party.trim(), to_party: '', handed_at: toDateTimeInput(new Date()), notes: '' });
+      await refreshSelected(selectedTest.id!);
+    } catch (error) {
+      console.error('Error recording handoff:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record custody handoff",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const changeStatus = async (status: DrugTestStatus) => {
+    if (!selectedTest) return;
+
+    try {
+      await transitionDrugTest(selectedTest.id!, status, sampleForm?.results.trim() || undefined);
+      toast({
+        title: "Result Recorded",
+        description: status === 'failed' && selectedTest.test_type === 'post_race'
+          ? `Test marked failed and flagged on ${horseName(selectedTest.horse_id)}'s race result`
+          : `Test marked ${status}`,
+        variant: status === 'failed' ? 'destructive' : 'default'
+      });
+      await refreshSelected(selectedTest.id!);
+    } catch (error) {
+      toast({
+        title: "Cannot Update Status",
+        description: error instanceof Error ? error.message : 'Failed to update status',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const createTest = async () => {
+    if (!newTest.horse_id || !newTest.test_date) {
+      toast({
+        title: "Validation Error",
+        description: "Horse and test date are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const now = new Date();
+      await db.drug_tests.add({
+        horse_id: parseInt(newTest.horse_id),
+        test_type: newTest.test_type,
+        test_date: new Date(`${newTest.test_date}T00:00:00`),
+        status: 'pending',
+        created_at: now,
+        updated_at: now
+      });
+      setIsNewTestOpen(false);
+      setNewTest({ horse_id: '', test_type: 'random', test_date: '' });
+    } catch (error) {
+      console.error('Error creating test:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create test",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const filteredTests = tests.filter(test => {
+    if (statusFilter !== 'all' && test.status !== statusFilter) return false;
+    if (typeFilter !== 'all' && test.test_type !== typeFilter) return false;
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return [horseName(test.horse_id), raceName(test.race_id), test.sample_id, test.lab]
+      .some(value => value?.toLowerCase().includes(term));
+  });
+
+  const countByStatus = (status: DrugTestStatus) => tests.filter(t => t.status === status).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Drug Testing</h1>
+          <p className="text-muted-foreground">
+            Race-day testing, sample chain of custody and lab results
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          {can('vet:write') && (
+            <Button onClick={() => setIsNewTestOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Test
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Status Summary */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {(Object.keys(STATUS_TRANSITIONS) as DrugTestStatus[]).map(status => {
+          const Icon = STATUS_ICONS[status];
+          return (
+            <Card key={status}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium capitalize">{status}</CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${status === 'failed' ? 'text-red-600' : ''}`}>{countByStatus(status)}</div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Tests */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tests</CardTitle>
+          <div className="flex flex-col gap-2 pt-2 md:flex-row">
+            <Input
+              placeholder="Search horse, race, sample ID, lab..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="md:max-w-sm"
+            />
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="passed">Passed</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="inconclusive">Inconclusive</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {Object.entries(TEST_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : filteredTests.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No drug tests found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Horse</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Race</TableHead>
+                  <TableHead>Sample ID</TableHead>
+                  <TableHead>Lab</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTests.map(test => (
+                  <TableRow key={test.id}>
+                    <TableCell className="whitespace-nowrap">{format(test.test_date, 'MMM d, yyyy')}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/horses/${test.horse_id}`} className="hover:underline">
+                        {horseName(test.horse_id)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{TEST_TYPE_LABELS[test.test_type]}</TableCell>
+                    <TableCell className="text-muted-foreground">{raceName(test.race_id) || '—'}</TableCell>
+                    <TableCell className="font-mono text-sm">{test.sample_id || '—'}</TableCell>
+                    <TableCell>{test.lab || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusVariant(test.status)}>{test.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => openTest(test)}>
+                        {can('vet:write') ? 'Manage' : 'View'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sample & Custody Dialog */}
+      <Dialog open={!!selectedTest} onOpenChange={(open) => !open && closeTest()}>
+        <DialogContent className="max-w-2xl">
+          {selectedTest && sampleForm && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <FlaskConical className="h-5 w-5" />
+                  {TEST_TYPE_LABELS[selectedTest.test_type]} test: {horseName(selectedTest.horse_id)}
+                  <Badge variant={getStatusVariant(selectedTest.status)}>{selectedTest.status}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {format(selectedTest.test_date, 'MMM d, yyyy')}
+                  {raceName(selectedTest.race_id) && ` • ${raceName(selectedTest.race_id)}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-id">Sample ID</Label>
+                    <Input
+                      id="sample-id"
+                      value={sampleForm.sample_id}
+                      disabled={!can('vet:write')}
+                      onChange={(e) => setSampleForm({ ...sampleForm, sample_id: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-lab">Lab</Label>
+                    <Input
+                      id="sample-lab"
+                      value={sampleForm.lab}
+                      disabled={!can('vet:write')}
+                      onChange={(e) => setSampleForm({ ...sampleForm, lab: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-collector">Collected By</Label>
+                    <Input
+                      id="sample-collector"
+                      value={sampleForm.collected_by}
+                      disabled={!can('vet:write')}
+                      onChange={(e) => setSampleForm({ ...sampleForm, collected_by: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sample-collected-at">Collected At</Label>
+                    <Input
+                      id="sample-collected-at"
+                      type="datetime-local"
+                      value={sampleForm.collected_at}
+                      disabled={!can('vet:write')}
+                      onChange={(e) => setSampleForm({ ...sampleForm, collected_at: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sample-substances">Substances Tested</Label>
+                  <Input
+                    id="sample-substances"
+                    value={sampleForm.substances_tested}
+                    disabled={!can('vet:write')}
+                    onChange={(e) => setSampleForm({ ...sampleForm, substances_tested: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sample-results">Results</Label>
+                  <Textarea
+                    id="sample-results"
+                    value={sampleForm.results}
+                    disabled={!can('vet:write')}
+                    onChange={(e) => setSampleForm({ ...sampleForm, results: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sample-notes">Notes</Label>
+                  <Textarea
+                    id="sample-notes"
+                    value={sampleForm.notes}
+                    disabled={!can('vet:write')}
+                    onChange={(e) => setSampleForm({ ...sampleForm, notes: e.target.value })}
+                  />
+                </div>
+                {can('vet:write') && (
+                  <Button variant="outline" onClick={saveSample}>Save Sample Details</Button>
+                )}
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <h4 className="font-medium">Chain of Custody</h4>
+                  {custodyChain.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No handoffs recorded.</p>
+                  ) : (
+                    <ol className="space-y-1 text-sm">
+                      {custodyChain.map(link => (
+                        <li key={link.id} className="flex items-center gap-2">
+                          <span className="text-muted-foreground whitespace-nowrap">{format(link.handed_at, 'MMM d, h:mm a')}</span>
+                          <span>{link.from_party}</span>
+                          <ArrowRight className="h-3 w-3" />
+                          <span>{link.to_party}</span>
+                          {link.notes && <span className="text-muted-foreground">({link.notes})</span>}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  {can('vet:write') && (
+                    <div className="grid grid-cols-2 gap-2 pt-2">
+                      <Input
+                        placeholder="From"
+                        value={handoff.from_party}
+                        onChange={(e) => setHandoff({ ...handoff, from_party: e.target.value })}
+                      />
+                      <Input
+                        placeholder="To"
+                        value={handoff.to_party}
+                        onChange={(e) => setHandoff({ ...handoff, to_party: e.target.value })}
+                      />
+                      <Input
+                        type="datetime-local"
+                        value={handoff.handed_at}
+                        onChange={(e) => setHandoff({ ...handoff, handed_at: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Notes (seal number, condition...)"
+                        value={handoff.notes}
+                        onChange={(e) => setHandoff({ ...handoff, notes: e.target.value })}
+                      />
+                      <Button variant="outline" className="col-span-2" onClick={recordHandoff}>
+                        Record Handoff
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {can('vet:write') && STATUS_TRANSITIONS[selectedTest.status].length > 0 && (
+                <DialogFooter className="gap-2">
+                  {STATUS_TRANSITIONS[selectedTest.status].map(status => (
+                    <Button
+                      key={status}
+                      variant={status === 'failed' ? 'destructive' : status === 'passed' ? 'default' : 'outline'}
+                      onClick={() => changeStatus(status)}
+                    >
+                      Mark {status}
+                    </Button>
+                  ))}
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* New Test Dialog */}
+      <Dialog open={isNewTestOpen} onOpenChange={setIsNewTestOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Drug Test</DialogTitle>
+            <DialogDescription>Random and follow-up tests; race tests are created automatically</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="space-y-2">
+              <Label>Horse *</Label>
+              <Select value={newTest.horse_id} onValueChange={(value) => setNewTest({ ...newTest, horse_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select horse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {horses.map(horse => (
+                    <SelectItem key={horse.id} value={horse.id!.toString()}>{horse.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={newTest.test_type}
+                onValueChange={(value) => setNewTest({ ...newTest, test_type: value as DrugTest['test_type'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="random">Random</SelectItem>
+                  <SelectItem value="follow_up">Follow-up</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-test-date">Test Date *</Label>
+              <Input
+                id="new-test-date"
+                type="date"
+                value={newTest.test_date}
+                onChange={(e) => setNewTest({ ...newTest, test_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsNewTestOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={createTest}>Create Test</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { useClock, useLiveData } from '@/hooks/useLiveData';
+import { db, FloorPlanShape, Horse } from '@/lib/database';
+import { assignHorse, getCurrentAssignments } from '@/lib/stalls';
+import { cleanFloorPlan, getUnplacedStalls, getZoneLocationId } from '@/lib/floorPlan';
+import { getHorseStatus, StatusColor } from '@/lib/horseStatus';
+import { evaluateProblems, groupProblemsByHorse, RULE_RECHECK_MS } from '@/lib/rules';
+import { FloorPlanMap, MapHorse } from '@/components/FloorPlanMap';
+import { FloorPlanEditor } from '@/components/FloorPlanEditor';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+
+const LEGEND: { status: StatusColor; label: string; className: string }[] = [
+  { status: 'green', label: 'All clear', className: 'bg-green-200 border-green-600' },
+  { status: 'yellow', label: 'Attention', className: 'bg-amber-200 border-amber-600' },
+  { status: 'red', label: 'Critical', className: 'bg-red-200 border-red-600' },
+  { status: 'grey', label: 'Inactive', className: 'bg-gray-200 border-gray-500' }
+];
+
+export function FloorPlanPage() {
+  const { user } = useAuth();
+  const { activeSeason, activeRacetrack } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [tab, setTab] = useState('live');
+  const canManage = can('facilities:manage');
+  const ruleClock = useClock(RULE_RECHECK_MS);
+
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    const [locationsData, stallsData, assignmentsData, horsesData] = await Promise.all([
+      db.locations.toArray(),
+      db.stalls.toArray(),
+      db.location_assignments.toArray(),
+      db.horses.toArray() // Occupants may belong to another season
+    ]);
+    return {
+      locations: locationsData.sort((a, b) => a.name.localeCompare(b.name)),
+      stalls: stallsData.sort((a, b) => a.stall_number.localeCompare(b.stall_number, undefined, { numeric: true })),
+      assignments: assignmentsData,
+      horses: horsesData,
+      problems: groupProblemsByHorse(await evaluateProblems(horsesData, activeRacetrack))
+    };
+  }, [activeRacetrack, ruleClock]);
+
+  const locations = data?.locations ?? [];
+  const stalls = data?.stalls ?? [];
+  const assignments = data?.assignments ?? [];
+  const horses = data?.horses ?? [];
+  const problems = data?.problems ?? new Map();
+
+  const selectedId = parseInt(searchParams.get('location') ?? '') || locations[0]?.id;
+  const location = locations.find(l => l.id === selectedId);
+  const locationStalls = stalls.filter(s => s.location_id === location?.id);
+  const plan = location?.floor_plan ? cleanFloorPlan(location.floor_plan, locationStalls, locations) : undefined;
+
+  // Each horse's current assignment, with the Command Center status it implies
+  const stallOccupants = new Map<number, MapHorse>();
+  const locationOccupants = new Map<number, MapHorse[]>();
+  getCurrentAssignments(assignments).forEach(assignment => {
+    const horse = horses.find(h => h.id === assignment.horse_id);
+    if (!horse) return;
+    const assignedLocation = locations.find(l => l.id === assignment.location_id);
+    const entry = { horse, ...getHorseStatus(horse, problems.get(horse.id!) ?? [], assignedLocation) };
+    if (assignment.stall_id) {
+      stallOccupants.set(assignment.stall_id, entry);
+    } else {
+      locationOccupants.set(assignment.location_id, [...(locationOccupants.get(assignment.location_id) ?? []), entry]);
+    }
+  });
+
+  // Horses drawn on this plan, for the legend counts
+  const onPlan: MapHorse[] = plan ? [
+    ...plan.shapes.filter(s => s.kind === 'stall').map(s => stallOccupants.get(s.stall_id!)).filter(Boolean),
+    ...Array.from(new Set(plan.shapes.map(s => getZoneLocationId(location!, s)).filter(Boolean)))
+      .flatMap(id => locationOccupants.get(id!) ?? [])
+  ] : [];
+  const unplacedCount = plan ? getUnplacedStalls(plan, locationStalls).length : 0;
+
+  const moveHorse = async (horse: Horse, target: FloorPlanShape) => {
+    if (!location || !user) return;
+    const stall = target.kind === 'stall' ? locationStalls.find(s => s.id === target.stall_id) : undefined;
+    const locationId = stall ? location.id : getZoneLocationId(location, target);
+    const destination = locations.find(l => l.id === locationId);
+    if (!destination) return;
+
+    try {
+      await assignHorse({
+        horse_id: horse.id!,
+        location_id: destination.id!,
+        stall_id: stall?.id,
+        assigned_by: user.id!,
+        season_id: horse.season_id ?? activeSeason?.id,
+        notes: 'Moved on floor plan'
+      });
+      toast({
+        title: "Success",
+        description: `${horse.name} moved to ${stall ? `stall ${stall.stall_number}` : destination.name}`,
+      });
+    } catch (error) {
+      console.error('Error moving horse:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to move horse',
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (isLoading && locations.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Floor Plan</h1>
+          <p className="text-muted-foreground">
+            Barn and track layouts with live occupancy
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={location?.id?.toString() ?? ''}
+            onValueChange={(value) => setSearchParams({ location: value })}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map(l => (
+                <SelectItem key={l.id} value={l.id!.toString()}>{l.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+        </div>
+      </div>
+
+      {location && (
+        <Tabs value={tab} onValueChange={setTab} className="w-full">
+          <TabsList>
+            <TabsTrigger value="live">Live Map</TabsTrigger>
+            {canManage && <TabsTrigger value="edit">Edit Layout</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="live" className="space-y-4">
+            {plan ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{location.name}</CardTitle>
+                  <CardDescription>
+                    Stalls are colored by their horse's Command Center status
+                    {canManage && '; drag a horse to another stall or zone to move it'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    {LEGEND.map(item => (
+                      <div key={item.status} className="flex items-center gap-2">
+                        <span className={`inline-block h-3 w-3 rounded-sm border ${item.className}`} />
+                        {item.label} ({onPlan.filter(h => h.status === item.status).length})
+                      </div>
+                    ))}
+                    {unplacedCount > 0 && (
+                      <span className="text-muted-foreground">{unplacedCount} stall(s) not on the plan</span>
+                    )}
+                  </div>
+                  <FloorPlanMap
+                    location={location}
+                    plan={plan}
+                    stalls={locationStalls}
+                    stallOccupants={stallOccupants}
+                    locationOccupants={locationOccupants}
+                    canMove={canManage}
+                    onMove={moveHorse}
+                  />
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="text-center py-8 space-y-4">
+                  <p className="text-muted-foreground">{location.name} does not have a floor plan yet.</p>
+                  {canManage && (
+                    <Button onClick={() => setTab('edit')}>Create Layout</Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {canManage && (
+            <TabsContent value="edit">
+              <FloorPlanEditor
+                key={`${location.id}-${location.updated_at.getTime()}`}
+                location={location}
+                stalls={locationStalls}
+                locations={locations}
+                onSaved={() => setTab('live')}
+              />
+            </TabsContent>
+          )}
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { canAccessHorse } from '@/lib/permissions';
+import { db, Horse, Owner, Location, LocationAssignment, Stall } from '@/lib/database';
+import { formatStall, getCurrentAssignments, releaseHorse } from '@/lib/stalls';
+import { MoveHorseDialog } from '@/components/MoveHorseDialog';
+import { buildHorseTimeline, TimelineEvent, TimelineEventType, TIMELINE_EVENT_LABELS } from '@/lib/timeline';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveData } from '@/hooks/useLiveData';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { ArrowLeft, MapPin, User, Activity, Trophy, Stethoscope, FlaskConical, Pill, ArrowRightLeft, LogOut } from 'lucide-react';
+import { format } from 'date-fns';
+
+const EVENT_ICONS: Record<TimelineEventType, typeof MapPin> = {
+  location: MapPin,
+  activity: Activity,
+  race: Trophy,
+  veterinary: Stethoscope,
+  medication: Pill,
+  drug_test: FlaskConical
+};
+
+// Medical events are only shown to users who may read veterinary data
+const VET_EVENT_TYPES: TimelineEventType[] = ['veterinary', 'medication', 'drug_test'];
+
+export function HorseDetailPage() {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [movingHorse, setMovingHorse] = useState<Horse | null>(null);
+  const [hiddenTypes, setHiddenTypes] = useState<TimelineEventType[]>([]);
+
+  const horseId = parseInt(id || '');
+  const visibleTypes = (Object.keys(TIMELINE_EVENT_LABELS) as TimelineEventType[])
+    .filter(type => can('vet:read') || !VET_EVENT_TYPES.includes(type));
+
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    if (isNaN(horseId) || !(await canAccessHorse(user, horseId))) return null;
+
+    const horseData = await db.horses.get(horseId);
+    if (!horseData) return null;
+    const [ownerData, locationsData, assignmentsData, timelineData] = await Promise.all([
+      db.owners.get(horseData.owner_id),
+      db.locations.toArray(),
+      db.location_assignments.where('horse_id').equals(horseId).toArray(),
+      buildHorseTimeline(horseId)
+    ]);
+    const stallIds = Array.from(new Set(assignmentsData.map(a => a.stall_id).filter(Boolean))) as number[];
+    const userIds = Array.from(new Set(assignmentsData.map(a => a.assigned_by)));
+    const [stallsData, usersData] = await Promise.all([db.stalls.bulkGet(stallIds), db.users.bulkGet(userIds)]);
+
+    assignmentsData.sort((a, b) => b.assigned_at.getTime() - a.assigned_at.getTime());
+
+    return {
+      horse: horseData,
+      owner: ownerData,
+      locations: locationsData,
+      stalls: stallsData.filter(Boolean),
+      assignments: assignmentsData,
+      movedBy: new Map(usersData.filter(Boolean).map(u => [u!.id!, u!.username])),
+      timeline: timelineData
+    };
+  }, [horseId, user]);
+
+  const horse: Horse | null = data?.horse ?? null;
+  const owner: Owner | undefined = data?.owner;
+  const locations: Location[] = data?.locations ?? [];
+  const stalls: Stall[] = data?.stalls ?? [];
+  const assignments: LocationAssignment[] = data?.assignments ?? [];
+  const movedBy: Map<number, string> = data?.movedBy ?? new Map();
+  const timeline: TimelineEvent[] = data?.timeline ?? [];
+
+  const checkOut = async () => {
+    if (!horse) return;
+    try {
+      await releaseHorse(horse.id!);
+      toast({
+        title: "Success",
+        description: `${horse.name} checked out`,
+      });
+    } catch (error) {
+      console.error('Error checking out horse:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to check out horse',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleType = (type: TimelineEventType) => {
+    setHiddenTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const getStatusVariant = (status: string) => {
+    switch (status) {
+      case 'active': return 'default';
+      case 'inactive': return 'secondary';
+      case 'injured': return 'destructive';
+      case 'retired': return 'outline';
+      default: return 'outline';
+    }
+  };
+
+  const getEventStatusVariant = (status?: string) => {
+    switch (status) {
+      case 'failed':
+      case 'follow-up required':
+        return 'destructive';
+      case 'passed':
+      case 'completed':
+        return 'default';
+      default:
+        return 'secondary';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!horse) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <h2 className="text-xl font-semibold mb-2">Horse Not Found</h2>
+          <p className="text-muted-foreground mb-4">
+            This horse does not exist or you do not have access to it.
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/horses">Back to Horses</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const assignmentPlace = (assignment: LocationAssignment) => formatStall(
+    locations.find(l => l.id === assignment.location_id),
+    stalls.find(st => st.id === assignment.stall_id)
+  );
+  const currentAssignment = getCurrentAssignments(assignments).get(horse.id!);
+  const filteredTimeline = timeline.filter(event => visibleTypes.includes(event.type) && !hiddenTypes.includes(event.type));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="outline" size="icon">
+            <Link to="/horses">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{horse.name}</h1>
+            <p className="text-muted-foreground">ID: {horse.tracking_id}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          <Badge variant={getStatusVariant(horse.status)}>{horse.status}</Badge>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {horse.registration_number && <p><strong>Registration:</strong> {horse.registration_number}</p>}
+            {horse.breed && <p><strong>Breed:</strong> {horse.breed}</p>}
+            {horse.age && <p><strong>Age:</strong> {horse.age} years</p>}
+            <p><strong>Gender:</strong> {horse.gender}</p>
+            {horse.color && <p><strong>Color:</strong> {horse.color}</p>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <User className="h-4 w-4" />
+              Owner
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="font-medium">{owner?.name || 'Unknown'}</p>
+            {owner?.email && <p className="text-muted-foreground">{owner.email}</p>}
+            {owner?.phone && <p className="text-muted-foreground">{owner.phone}</p>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              Current Location
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="font-medium">
+              {currentAssignment ? assignmentPlace(currentAssignment) : 'Unassigned'}
+            </p>
+            {currentAssignment && (
+              <p className="text-muted-foreground">Since {format(currentAssignment.assigned_at, 'MMM d, yyyy h:mm a')}</p>
+            )}
+            {horse.current_activity && <p><strong>Activity:</strong> {horse.current_activity}</p>}
+            {can('facilities:manage') && (
+              <div className="flex gap-2 pt-2">
+                <Button size="sm" variant="outline" onClick={() => setMovingHorse(horse)}>
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  {currentAssignment ? 'Transfer' : 'Check In'}
+                </Button>
+                {currentAssignment && (
+                  <Button size="sm" variant="outline" onClick={checkOut}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Check Out
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Location History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Location History</CardTitle>
+          <CardDescription>{assignments.length} assignment(s)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {assignments.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No location assignments recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Until</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.map(assignment => (
+                  <TableRow key={assignment.id}>
+                    <TableCell className="font-medium">
+                      {assignmentPlace(assignment)}
+                      {assignment === currentAssignment && <Badge variant="outline" className="ml-2">current</Badge>}
+                    </TableCell>
+                    <TableCell>{format(assignment.assigned_at, 'MMM d, yyyy h:mm a')}</TableCell>
+                    <TableCell>{assignment.assigned_until ? format(assignment.assigned_until, 'MMM d, yyyy h:mm a') : '—'}</TableCell>
+                    <TableCell>{movedBy.get(assignment.assigned_by) ?? '—'}</TableCell>
+                    <TableCell className="text-muted-foreground">{assignment.notes || ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Timeline</CardTitle>
+          <CardDescription>Moves, activities, races and medical events in chronological order</CardDescription>
+          <div className="flex flex-wrap gap-2 pt-2">
+            {visibleTypes.map(type => {
+              const Icon = EVENT_ICONS[type];
+              const count = timeline.filter(event => event.type === type).length;
+              return (
+                <Button
+                  key={type}
+                  variant={hiddenTypes.includes(type) ? 'outline' : 'secondary'}
+                  size="sm"
+                  onClick={() => toggleType(type)}
+                >
+                  <Icon className="h-3 w-3 mr-1" />
+                  {TIMELINE_EVENT_LABELS[type]} ({count})
+                </Button>
+              );
+            })}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredTimeline.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No events to show.</p>
+          ) : (
+            <ol className="relative border-l ml-3 space-y-6">
+              {filteredTimeline.map(event => {
+                const Icon = EVENT_ICONS[event.type];
+                return (
+                  <li key={event.key} className="ml-6">
+                    <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-4 ring-background">
+                      <Icon className="h-3 w-3" />
+                    </span>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{event.title}</span>
+                      <Badge variant="outline">{TIMELINE_EVENT_LABELS[event.type]}</Badge>
+                      {event.status && <Badge variant={getEventStatusVariant(event.status)}>{event.status}</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(event.date, 'MMM d, yyyy h:mm a')}
+                      {event.endDate && ` – ${format(event.endDate, 'MMM d, yyyy h:mm a')}`}
+                    </p>
+                    {event.details.map((detail, index) => (
+                      <p key={index} className="text-sm text-muted-foreground">{detail}</p>
+                    ))}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      <MoveHorseDialog horse={movingHorse} onClose={() => setMovingHorse(null)} />
+    </div>
+  );
+}
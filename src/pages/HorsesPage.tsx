@@ -1,6 +1,10 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { db, Horse, Owner } from '@/lib/database';
+import { usePermissions } from '@/hooks/usePermission';
+import { getAccessibleHorses } from '@/lib/permissions';
+import { useLiveData } from '@/hooks/useLiveData';
+import { db } from '@/lib/database';
+import { isActive } from '@/lib/archive';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -8,46 +12,23 @@ import { Search, Plus, Eye, Edit } from 'lucide-react';
 import { UnifiedFilters } from '@/components/UnifiedFilters';
 import { useUnifiedFilters, filterFunctions } from '@/hooks/useUnifiedFilters';
 import { HorseOwnerManagement } from '@/components/HorseOwnerManagement';
+import { LiveIndicator } from '@/components/LiveIndicator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Link } from 'react-router-dom';
 
 export function HorsesPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const { filters, filterData, updateFilter, clearFilters, getFilteredData } = useUnifiedFilters();
-  const [horses, setHorses] = useState<(Horse & { owner?: Owner })[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: horses = [], isLoading, isLive, updatedAt } = useLiveData(async () => {
+    const horsesData = await getAccessibleHorses(user);
 
-  const loadHorses = async () => {
-    setIsLoading(true);
-    try {
-      let horsesData: Horse[] = [];
-      
-      if (user?.role === 'admin' || user?.role === 'viewer') {
-        horsesData = await db.horses.toArray();
-      } else if (user?.role === 'owner') {
-        // Get owner ID for current user
-        const owner = await db.owners.where('email').equals(user.email).first();
-        if (owner) {
-          horsesData = await db.horses.where('owner_id').equals(owner.id!).toArray();
-        }
-      }
-
-      // Get owner information for each horse
-      const owners = await db.owners.toArray();
-      const horsesWithOwners = horsesData.map(horse => ({
-        ...horse,
-        owner: owners.find(o => o.id === horse.owner_id)
-      }));
-
-      setHorses(horsesWithOwners);
-    } catch (error) {
-      console.error('Error loading horses:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadHorses();
+    // Get owner information for each horse
+    const owners = await db.owners.filter(isActive).toArray();
+    return horsesData.map(horse => ({
+      ...horse,
+      owner: owners.find(o => o.id === horse.owner_id)
+    }));
   }, [user]);
 
   // Apply filters
@@ -72,17 +53,22 @@ export function HorsesPage() {
             Manage and view horse records and information
           </p>
         </div>
+        <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
       </div>
 
       <Tabs defaultValue="view" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className={`grid w-full ${can('horses:bulk') ? 'grid-cols-2' : 'grid-cols-1'}`}>
           <TabsTrigger value="view">View Horses</TabsTrigger>
-          <TabsTrigger value="manage">Manage Horses & Owners</TabsTrigger>
+          {can('horses:bulk') && (
+            <TabsTrigger value="manage">Manage Horses & Owners</TabsTrigger>
+          )}
         </TabsList>
 
-        <TabsContent value="manage" className="space-y-6">
-          <HorseOwnerManagement />
-        </TabsContent>
+        {can('horses:bulk') && (
+          <TabsContent value="manage" className="space-y-6">
+            <HorseOwnerManagement />
+          </TabsContent>
+        )}
 
         <TabsContent value="view" className="space-y-6">
 
@@ -192,11 +178,13 @@ export function HorsesPage() {
                 </div>
                 
                 <div className="flex gap-2 mt-4">
-                  <Button variant="outline" size="sm" className="flex-1">
-                    <Eye className="h-3 w-3 mr-1" />
-                    View
+                  <Button asChild variant="outline" size="sm" className="flex-1">
+                    <Link to={`/horses/${horse.id}`}>
+                      <Eye className="h-3 w-3 mr-1" />
+                      View
+                    </Link>
                   </Button>
-                  {(user?.role === 'admin' || user?.role === 'owner') && (
+                  {can('horses:write') && (
                     <Button variant="outline" size="sm" className="flex-1">
                       <Edit className="h-3 w-3 mr-1" />
                       Edit
@@ -1,13 +1,17 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { db, Owner, Horse } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+import { useLiveData } from '@/hooks/useLiveData';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Search, Plus, Eye, Edit, Users, Map, History } from 'lucide-react';
+import { Search, Plus, Eye, Edit, Users, Map, History, DollarSign } from 'lucide-react';
 import { LocationMap } from '@/components/LocationMap';
 import { RaceHistoryView } from '@/components/RaceHistoryView';
 import { HorseOwnerManagement } from '@/components/HorseOwnerManagement';
+import { OwnerLedgerPanel } from '@/components/OwnerLedgerPanel';
+import { LiveIndicator } from '@/components/LiveIndicator';
 
 interface OwnerWithStats extends Owner {
   horseCount: number;
@@ -15,76 +19,57 @@ interface OwnerWithStats extends Owner {
   inactiveHorses: number;
   injuredHorses: number;
   raceEntries: number;
+  earnings: number;
   stallsOccupied: number;
   horses: Horse[];
 }
 
 export function OwnersPage() {
-  const [owners, setOwners] = useState<OwnerWithStats[]>([]);
-  const [filteredOwners, setFilteredOwners] = useState<OwnerWithStats[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedOwner, setSelectedOwner] = useState<number | null>(null);
   const [selectedHorse, setSelectedHorse] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState('owners');
 
-  const loadOwners = async () => {
-    setIsLoading(true);
-    try {
-      const [ownersData, horses, raceParticipants, locationAssignments] = await Promise.all([
-        db.owners.toArray(),
-        db.horses.toArray(),
-        db.race_participants.toArray(),
-        db.location_assignments.toArray()
-      ]);
+  const { data: owners = [], isLoading, isLive, updatedAt } = useLiveData(async () => {
+    const [ownersData, horses, raceParticipants, locationAssignments] = await Promise.all([
+      db.owners.filter(isActive).toArray(),
+      db.horses.filter(isActive).toArray(),
+      db.race_participants.toArray(),
+      db.location_assignments.toArray()
+    ]);
 
-      const ownersWithStats: OwnerWithStats[] = ownersData.map(owner => {
-        const ownerHorses = horses.filter(horse => horse.owner_id === owner.id);
-        const horseIds = ownerHorses.map(h => h.id);
-        const raceEntries = raceParticipants.filter(rp => horseIds.includes(rp.horse_id)).length;
-        const stallsOccupied = locationAssignments.filter(la => 
-          horseIds.includes(la.horse_id) && 
-          (!la.assigned_until || la.assigned_until > new Date())
-        ).length;
+    return ownersData.map((owner): OwnerWithStats => {
+      const ownerHorses = horses.filter(horse => horse.owner_id === owner.id);
+      const horseIds = ownerHorses.map(h => h.id);
+      const ownerEntries = raceParticipants.filter(rp => horseIds.includes(rp.horse_id));
+      const raceEntries = ownerEntries.length;
+      const earnings = ownerEntries.reduce((sum, rp) => sum + (rp.purse_earned ?? 0), 0);
+      const stallsOccupied = locationAssignments.filter(la => 
+        horseIds.includes(la.horse_id) && 
+        (!la.assigned_until || la.assigned_until > new Date())
+      ).length;
 
-        return {
-          ...owner,
-          horseCount: ownerHorses.length,
-          activeHorses: ownerHorses.filter(h => h.status === 'active').length,
-          inactiveHorses: ownerHorses.filter(h => h.status === 'inactive').length,
-          injuredHorses: ownerHorses.filter(h => h.status === 'injured').length,
-          raceEntries,
-          stallsOccupied,
-          horses: ownerHorses
-        };
-      });
-
-      setOwners(ownersWithStats);
-      setFilteredOwners(ownersWithStats);
-    } catch (error) {
-      console.error('Error loading owners:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadOwners();
+      return {
+        ...owner,
+        horseCount: ownerHorses.length,
+        activeHorses: ownerHorses.filter(h => h.status === 'active').length,
+        inactiveHorses: ownerHorses.filter(h => h.status === 'inactive').length,
+        injuredHorses: ownerHorses.filter(h => h.status === 'injured').length,
+        raceEntries,
+        earnings,
+        stallsOccupied,
+        horses: ownerHorses
+      };
+    });
   }, []);
 
-  useEffect(() => {
-    let filtered = owners;
-
-    if (searchTerm) {
-      filtered = filtered.filter(owner =>
-        owner.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        owner.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        owner.phone?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    setFilteredOwners(filtered);
-  }, [owners, searchTerm]);
+  const filteredOwners = searchTerm
+    ? owners.filter(owner =>
+      owner.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      owner.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      owner.phone?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    : owners;
 
   const totalHorses = owners.reduce((sum, owner) => sum + owner.horseCount, 0);
   const totalActiveHorses = owners.reduce((sum, owner) => sum + owner.activeHorses, 0);
@@ -98,14 +83,17 @@ export function OwnersPage() {
             Manage horse owners, track locations, and view race history
           </p>
         </div>
-        <Button>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Owner
-        </Button>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Owner
+          </Button>
+        </div>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="owners" className="flex items-center gap-2">
             <Users className="h-4 w-4" />
             Owners
@@ -126,6 +114,10 @@ export function OwnersPage() {
             <Eye className="h-4 w-4" />
             Horse Details
           </TabsTrigger>
+          <TabsTrigger value="ledger" className="flex items-center gap-2">
+            <DollarSign className="h-4 w-4" />
+            Ledger
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="owners" className="space-y-6">{/* Original owners content */}
@@ -262,6 +254,7 @@ export function OwnersPage() {
                       <p><strong>Address:</strong> {owner.address}</p>
                     )}
                     <p><strong>Race Entries:</strong> {owner.raceEntries}</p>
+                    <p><strong>Earnings:</strong> ${owner.earnings.toLocaleString()}</p>
                     <p><strong>Stalls Occupied:</strong> {owner.stallsOccupied}</p>
                     
                     <div className="grid grid-cols-3 gap-2 mt-4 pt-4 border-t">
@@ -331,6 +324,18 @@ export function OwnersPage() {
                       <History className="h-3 w-3 mr-1" />
                       Races
                     </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      className="flex-1"
+                      onClick={() => {
+                        setSelectedOwner(owner.id!);
+                        setActiveTab('ledger');
+                      }}
+                    >
+                      <DollarSign className="h-3 w-3 mr-1" />
+                      Ledger
+                    </Button>
                   </div>
                 </CardContent>
               </Card>
@@ -362,6 +367,14 @@ export function OwnersPage() {
             viewMode="horse"
           />
         </TabsContent>
+
+        <TabsContent value="ledger">
+          <OwnerLedgerPanel
+            owners={owners}
+            selectedOwnerId={selectedOwner}
+            onSelectOwner={setSelectedOwner}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,118 +1,144 @@
 import React, { useEffect, useState } from 'react';
-import { db, Horse, Location, LocationAssignment, Owner } from '@/lib/database';
+import { format, formatDistanceStrict } from 'date-fns';
+import { db, Horse, Incident, Location, LocationAssignment, Owner } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+import { getCurrentAssignments } from '@/lib/stalls';
+import { evaluateProblems, RULE_RECHECK_MS } from '@/lib/rules';
+import {
+  acknowledgeIncident,
+  compareIncidents,
+  getResponseMinutes,
+  getSlaStatus,
+  INCIDENT_STATUS_LABELS,
+  isUnresolved,
+  syncIncidents
+} from '@/lib/incidents';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { RefreshCw, AlertTriangle, Clock, Search, Filter } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Clock, Filter, SlidersHorizontal, Timer } from 'lucide-react';
 import { UnifiedFilters } from '@/components/UnifiedFilters';
+import { RuleSettingsDialog } from '@/components/RuleSettingsDialog';
+import { IncidentDialog } from '@/components/IncidentDialog';
+import { LiveIndicator } from '@/components/LiveIndicator';
 import { useUnifiedFilters, filterFunctions } from '@/hooks/useUnifiedFilters';
+import { useClock, useLiveData } from '@/hooks/useLiveData';
+import { useToast } from '@/hooks/use-toast';
 
-interface ProblemHorse {
+interface IncidentRow {
+  incident: Incident;
   horse: Horse & { owner?: Owner };
   location?: Location;
   assignment?: LocationAssignment;
-  problem: 'critical' | 'warning';
-  problemText: string;
-  details: string;
 }
 
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : undefined;
+
 export function ProblemsView() {
+  const { user } = useAuth();
+  const { activeRacetrack } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
   const { filters, filterData, updateFilter, clearFilters, getFilteredData } = useUnifiedFilters();
-  const [problemHorses, setProblemHorses] = useState<ProblemHorse[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
   const [problemFilter, setProblemFilter] = useState<'all' | 'critical' | 'warning'>('all');
+  const [assigneeFilter, setAssigneeFilter] = useState<'all' | 'mine' | 'unassigned'>('all');
+  const [selectedIncidentId, setSelectedIncidentId] = useState<number | null>(null);
+  const now = useClock(RULE_RECHECK_MS);
+  const canManage = can('incidents:manage');
 
-  const loadProblemsData = async () => {
-    setIsLoading(true);
-    try {
-      const horses = await db.horses.toArray();
-      const owners = await db.owners.toArray();
-      const locations = await db.locations.toArray();
-      const assignments = await db.location_assignments.toArray();
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    const allHorses = await db.horses.toArray();
+    const owners = await db.owners.toArray();
+    const locations = await db.locations.toArray();
+    const assignments = getCurrentAssignments(await db.location_assignments.toArray());
+    const problems = await evaluateProblems(allHorses.filter(isActive), activeRacetrack);
+    const incidents = await db.incidents.toArray();
+    const users = await db.users.toArray();
 
-      const problems: ProblemHorse[] = [];
+    const rows: IncidentRow[] = incidents.flatMap(incident => {
+      const horse = allHorses.find(h => h.id === incident.horse_id);
+      if (!horse) return [];
+      const assignment = assignments.get(horse.id!);
+      return [{
+        incident,
+        horse: { ...horse, owner: owners.find(o => o.id === horse.owner_id) },
+        location: assignment ? locations.find(l => l.id === assignment.location_id) : undefined,
+        assignment
+      }];
+    });
 
-      horses.forEach(horse => {
-        const owner = owners.find(o => o.id === horse.owner_id);
-        const horseWithOwner = { ...horse, owner };
-        const assignment = assignments.find(a => a.horse_id === horse.id);
-        const location = assignment ? locations.find(l => l.id === assignment.location_id) : undefined;
+    return {
+      horseIds: allHorses.map(h => h.id!),
+      problems,
+      rows,
+      users: users.sort((a, b) => a.username.localeCompare(b.username))
+    };
+  }, [activeRacetrack, now]);
 
-        // Critical problems (Red status)
-        if (horse.status === 'injured') {
-          problems.push({
-            horse: horseWithOwner,
-            location,
-            assignment,
-            problem: 'critical',
-            problemText: 'Horse Injured',
-            details: 'Horse requires immediate medical attention and should not be moved without veterinary approval.'
-          });
-        } else if (!assignment && horse.status === 'active') {
-          problems.push({
-            horse: horseWithOwner,
-            location,
-            assignment,
-            problem: 'critical',
-            problemText: 'No Location Assignment',
-            details: 'Active horse has no location assignment. This horse needs to be assigned to a proper location immediately.'
-          });
-        }
+  // Detected problems become incidents; what is shown is the incident record, not the raw problem.
+  // Live queries cannot write, so the sync runs after each result and its writes feed the next one.
+  // Only users who manage incidents open and clear them; everyone else sees what they recorded.
+  useEffect(() => {
+    if (!data || !canManage) return;
+    syncIncidents(data.problems, data.horseIds).catch(error => console.error('Error syncing incidents:', error));
+  }, [data, canManage]);
 
-        // Warning problems (Yellow status)
-        if (horse.current_activity === 'walking' && !assignment) {
-          problems.push({
-            horse: horseWithOwner,
-            location,
-            assignment,
-            problem: 'warning',
-            problemText: 'Walking Without Location',
-            details: 'Horse is walking but has no specific location assigned. Consider assigning to a paddock or track.'
-          });
-        }
+  const rows = data?.rows ?? [];
+  const users = data?.users ?? [];
 
-        // Check for location capacity issues
-        if (assignment && location) {
-          const assignmentsInLocation = assignments.filter(a => a.location_id === location.id);
-          if (assignmentsInLocation.length > location.capacity) {
-            problems.push({
-              horse: horseWithOwner,
-              location,
-              assignment,
-              problem: 'warning',
-              problemText: 'Location Over Capacity',
-              details: `${location.name} is over capacity (${assignmentsInLocation.length}/${location.capacity}). Consider redistributing horses.`
-            });
-          }
-        }
+  const acknowledge = async (incident: Incident) => {
+    try {
+      await acknowledgeIncident(incident.id!, user!.id!);
+      toast({
+        title: "Success",
+        description: `${incident.title} acknowledged`,
       });
-
-      setProblemHorses(problems);
     } catch (error) {
-      console.error('Error loading problems data:', error);
-    } finally {
-      setIsLoading(false);
+      console.error('Error acknowledging incident:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to acknowledge incident',
+        variant: "destructive"
+      });
     }
   };
 
-  useEffect(() => {
-    loadProblemsData();
-  }, []);
-
   // Apply filters
-  const baseFilteredProblems = getFilteredData(problemHorses, (problem, filters, filterData) =>
-    filterFunctions.horses(problem.horse, filters, filterData)
-  );
+  const baseFilteredRows = getFilteredData(rows, (row, filters, filterData) =>
+    filterFunctions.horses(row.horse, filters, filterData)
+  ).filter(row => problemFilter === 'all' || row.incident.severity === problemFilter);
 
-  // Apply problem type filter
-  const filteredHorses = baseFilteredProblems.filter(problem => 
-    problemFilter === 'all' || problem.problem === problemFilter
-  );
+  const openRows = rows.filter(r => isUnresolved(r.incident));
+  const filteredHorses = baseFilteredRows
+    .filter(row => isUnresolved(row.incident))
+    .filter(row =>
+      assigneeFilter === 'all' ||
+      (assigneeFilter === 'mine' ? row.incident.assigned_to === user?.id : row.incident.assigned_to === undefined)
+    )
+    .sort((a, b) => compareIncidents(a.incident, b.incident));
+  const resolvedRows = baseFilteredRows
+    .filter(row => row.incident.status === 'resolved')
+    .sort((a, b) => b.incident.resolved_at!.getTime() - a.incident.resolved_at!.getTime());
 
-  const criticalCount = problemHorses.filter(p => p.problem === 'critical').length;
-  const warningCount = problemHorses.filter(p => p.problem === 'warning').length;
+  const criticalCount = openRows.filter(r => r.incident.severity === 'critical').length;
+  const warningCount = openRows.filter(r => r.incident.severity === 'warning').length;
+  const breachedCount = openRows.filter(r => getSlaStatus(r.incident, now).breached).length;
+  const avgAcknowledge = average(resolvedRows.map(r => getResponseMinutes(r.incident).acknowledge!));
+  const avgResolve = average(resolvedRows.map(r => getResponseMinutes(r.incident).resolve!));
+  const slaMet = resolvedRows.filter(r => !getSlaStatus(r.incident).breached).length;
+
+  const userName = (id?: number) => id === undefined ? 'Unassigned' : users.find(u => u.id === id)?.username ?? 'Unknown user';
+  const selectedRow = rows.find(r => r.incident.id === selectedIncidentId);
 
   return (
     <div className="space-y-6">
@@ -123,14 +149,17 @@ export function ProblemsView() {
             Horses requiring immediate attention or triage
           </p>
         </div>
-        <Button onClick={loadProblemsData} disabled={isLoading}>
-          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsRulesOpen(true)}>
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Rules
+          </Button>
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+        </div>
       </div>
 
       {/* Problem Summary */}
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Critical Issues</CardTitle>
@@ -159,13 +188,26 @@ export function ProblemsView() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Problems</CardTitle>
+            <CardTitle className="text-sm font-medium">Unacknowledged</CardTitle>
             <Filter className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{problemHorses.length}</div>
+            <div className="text-2xl font-bold">{openRows.filter(r => r.incident.status === 'open').length}</div>
             <p className="text-xs text-muted-foreground">
-              All identified issues
+              Of {openRows.length} open incidents
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">SLA Breached</CardTitle>
+            <Timer className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${breachedCount > 0 ? 'text-red-600' : ''}`}>{breachedCount}</div>
+            <p className="text-xs text-muted-foreground">
+              Past their acknowledge or resolve deadline
             </p>
           </CardContent>
         </Card>
@@ -183,83 +225,209 @@ export function ProblemsView() {
       {/* Problem Type Filter */}
       <Card>
         <CardContent className="pt-6">
-          <div className="flex items-center gap-2">
-            <label className="text-sm font-medium">Problem Type:</label>
-            <select 
-              value={problemFilter} 
-              onChange={(e) => setProblemFilter(e.target.value as 'all' | 'critical' | 'warning')}
-              className="px-3 py-1 border rounded text-sm"
-            >
-              <option value="all">All Problems</option>
-              <option value="critical">Critical Only</option>
-              <option value="warning">Warnings Only</option>
-            </select>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium">Problem Type:</label>
+              <select 
+                value={problemFilter} 
+                onChange={(e) => setProblemFilter(e.target.value as 'all' | 'critical' | 'warning')}
+                className="px-3 py-1 border rounded text-sm"
+              >
+                <option value="all">All Problems</option>
+                <option value="critical">Critical Only</option>
+                <option value="warning">Warnings Only</option>
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium">Assigned To:</label>
+              <select
+                value={assigneeFilter}
+                onChange={(e) => setAssigneeFilter(e.target.value as 'all' | 'mine' | 'unassigned')}
+                className="px-3 py-1 border rounded text-sm"
+              >
+                <option value="all">Anyone</option>
+                <option value="mine">Me</option>
+                <option value="unassigned">Unassigned</option>
+              </select>
+            </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Problems List */}
-      <div className="space-y-4">
-        {isLoading ? (
-          <Card>
-            <CardContent className="flex items-center justify-center py-8">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-            </CardContent>
-          </Card>
-        ) : filteredHorses.length === 0 ? (
-          <Card>
-            <CardContent className="text-center py-8">
-              <p className="text-muted-foreground">
-                {problemHorses.length === 0 ? 'No problems detected! All horses are properly managed.' : 'No problems match your current filters.'}
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          filteredHorses.map((problem, index) => (
-            <Card key={`${problem.horse.id}-${index}`} className={`${
-              problem.problem === 'critical' ? 'border-red-500 bg-red-50 dark:bg-red-950/20' : 'border-amber-500 bg-amber-50 dark:bg-amber-950/20'
-            }`}>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4">
-                    <div>
-                      <CardTitle className="text-lg">{problem.horse.name}</CardTitle>
-                      <CardDescription>ID: {problem.horse.tracking_id}</CardDescription>
+      <Tabs defaultValue="open" className="w-full">
+        <TabsList>
+          <TabsTrigger value="open">Open Incidents ({openRows.length})</TabsTrigger>
+          <TabsTrigger value="history">Resolved History</TabsTrigger>
+        </TabsList>
+
+        {/* Problems List */}
+        <TabsContent value="open" className="space-y-4">
+          {isLoading ? (
+            <Card>
+              <CardContent className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </CardContent>
+            </Card>
+          ) : filteredHorses.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-8">
+                <p className="text-muted-foreground">
+                  {openRows.length === 0 ? 'No problems detected! All horses are properly managed.' : 'No problems match your current filters.'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            filteredHorses.map(({ incident, horse, location }) => {
+              const sla = getSlaStatus(incident, now);
+              return (
+                <Card key={incident.id} className={`${
+                  incident.severity === 'critical' ? 'border-red-500 bg-red-50 dark:bg-red-950/20' : 'border-amber-500 bg-amber-50 dark:bg-amber-950/20'
+                }`}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        <div>
+                          <CardTitle className="text-lg">{horse.name}</CardTitle>
+                          <CardDescription>ID: {horse.tracking_id}</CardDescription>
+                        </div>
+                        <Badge variant={incident.severity === 'critical' ? 'destructive' : 'secondary'}>
+                          {incident.severity === 'critical' ? (
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                          ) : (
+                            <Clock className="h-3 w-3 mr-1" />
+                          )}
+                          {incident.title}
+                        </Badge>
+                        <Badge variant="outline">{INCIDENT_STATUS_LABELS[incident.status]}</Badge>
+                        {incident.cleared_at && <Badge variant="outline">No longer detected</Badge>}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={sla.breached ? 'destructive' : 'outline'}>
+                          <Timer className="h-3 w-3 mr-1" />
+                          {sla.stage === 'acknowledge' ? 'Ack' : 'Resolve'}{' '}
+                          {sla.breached ? `overdue ${formatDistanceStrict(sla.due_at, now)}` : `in ${formatDistanceStrict(now, sla.due_at)}`}
+                        </Badge>
+                        {canManage && incident.status === 'open' && (
+                          <Button size="sm" variant="outline" onClick={() => acknowledge(incident)}>Acknowledge</Button>
+                        )}
+                        <Button size="sm" onClick={() => setSelectedIncidentId(incident.id!)}>
+                          {canManage ? 'Manage' : 'Details'}
+                        </Button>
+                      </div>
                     </div>
-                    <Badge variant={problem.problem === 'critical' ? 'destructive' : 'secondary'}>
-                      {problem.problem === 'critical' ? (
-                        <AlertTriangle className="h-3 w-3 mr-1" />
-                      ) : (
-                        <Clock className="h-3 w-3 mr-1" />
-                      )}
-                      {problem.problemText}
-                    </Badge>
-                  </div>
-                </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div>
+                        <h4 className="font-medium mb-2">Problem Details</h4>
+                        <p className="text-sm text-muted-foreground">{incident.details}</p>
+                        <h4 className="font-medium mt-4 mb-2">What To Do</h4>
+                        <p className="text-sm text-muted-foreground">{incident.remediation}</p>
+                      </div>
+                      <div>
+                        <h4 className="font-medium mb-2">Horse Information</h4>
+                        <div className="text-sm space-y-1">
+                          <p><strong>Status:</strong> {horse.status}</p>
+                          <p><strong>Activity:</strong> {horse.current_activity || 'None'}</p>
+                          <p><strong>Location:</strong> {location?.name || 'Unassigned'}</p>
+                          {location && (
+                            <p><strong>Location Type:</strong> {location.type}</p>
+                          )}
+                          <p><strong>Detected:</strong> {format(incident.detected_at, 'MMM d, HH:mm')}</p>
+                          <p><strong>Assigned To:</strong> {userName(incident.assigned_to)}</p>
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Avg. Time to Acknowledge</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid gap-4 md:grid-cols-2">
-                  <div>
-                    <h4 className="font-medium mb-2">Problem Details</h4>
-                    <p className="text-sm text-muted-foreground">{problem.details}</p>
-                  </div>
-                  <div>
-                    <h4 className="font-medium mb-2">Horse Information</h4>
-                    <div className="text-sm space-y-1">
-                      <p><strong>Status:</strong> {problem.horse.status}</p>
-                      <p><strong>Activity:</strong> {problem.horse.current_activity || 'None'}</p>
-                      <p><strong>Location:</strong> {problem.location?.name || 'Unassigned'}</p>
-                      {problem.location && (
-                        <p><strong>Location Type:</strong> {problem.location.type}</p>
-                      )}
-                    </div>
-                  </div>
+                <div className="text-2xl font-bold">{avgAcknowledge !== undefined ? formatMinutes(avgAcknowledge) : '—'}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Avg. Time to Resolve</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{avgResolve !== undefined ? formatMinutes(avgResolve) : '—'}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Within SLA</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {resolvedRows.length > 0 ? `${Math.round(slaMet / resolvedRows.length * 100)}%` : '—'}
                 </div>
+                <p className="text-xs text-muted-foreground">{slaMet} of {resolvedRows.length} resolved incidents</p>
               </CardContent>
             </Card>
-          ))
-        )}
-      </div>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              {resolvedRows.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No resolved incidents match your current filters.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Horse</TableHead>
+                      <TableHead>Problem</TableHead>
+                      <TableHead>Detected</TableHead>
+                      <TableHead>To Acknowledge</TableHead>
+                      <TableHead>To Resolve</TableHead>
+                      <TableHead>Resolved By</TableHead>
+                      <TableHead>SLA</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {resolvedRows.map(({ incident, horse }) => {
+                      const response = getResponseMinutes(incident);
+                      const breached = getSlaStatus(incident).breached;
+                      return (
+                        <TableRow key={incident.id} className="cursor-pointer" onClick={() => setSelectedIncidentId(incident.id!)}>
+                          <TableCell className="font-medium">{horse.name}</TableCell>
+                          <TableCell>
+                            <Badge variant={incident.severity === 'critical' ? 'destructive' : 'secondary'}>{incident.title}</Badge>
+                          </TableCell>
+                          <TableCell>{format(incident.detected_at, 'MMM d, HH:mm')}</TableCell>
+                          <TableCell>{formatMinutes(response.acknowledge!)}</TableCell>
+                          <TableCell>{formatMinutes(response.resolve!)}</TableCell>
+                          <TableCell>{userName(incident.resolved_by)}</TableCell>
+                          <TableCell>
+                            <Badge variant={breached ? 'destructive' : 'outline'}>{breached ? 'Missed' : 'Met'}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <RuleSettingsDialog open={isRulesOpen} onOpenChange={setIsRulesOpen} />
+      <IncidentDialog
+        incident={selectedRow?.incident ?? null}
+        horse={selectedRow?.horse}
+        users={users}
+        onClose={() => setSelectedIncidentId(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,11 +1,22 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { db, Race, RaceParticipant, Horse } from '@/lib/database';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { useLiveData } from '@/hooks/useLiveData';
+import { areEntriesOpen, isStarter } from '@/lib/raceEntries';
+import { getWithdrawalConflicts } from '@/lib/medications';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Search, Plus, Calendar, Trophy, Clock, MapPin } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Search, Plus, Calendar, Trophy, Clock, MapPin, AlertTriangle } from 'lucide-react';
 import { UnifiedFilters } from '@/components/UnifiedFilters';
 import { useUnifiedFilters, filterFunctions } from '@/hooks/useUnifiedFilters';
+import { RaceFormDialog } from '@/components/RaceFormDialog';
+import { RaceEntriesDialog } from '@/components/RaceEntriesDialog';
+import { RaceResultsDialog } from '@/components/RaceResultsDialog';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { useToast } from '@/hooks/use-toast';
 
 interface RaceWithParticipants extends Race {
   participants: (RaceParticipant & { horse?: Horse })[];
@@ -13,47 +24,47 @@ interface RaceWithParticipants extends Race {
 }
 
 export function RacesPage() {
+  const { activeSeason } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
   const { filters, filterData, updateFilter, clearFilters, getFilteredData } = useUnifiedFilters();
-  const [races, setRaces] = useState<RaceWithParticipants[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [timeFilter, setTimeFilter] = useState<string>('all');
+  const [isRaceFormOpen, setIsRaceFormOpen] = useState(false);
+  const [editingRace, setEditingRace] = useState<Race | undefined>(undefined);
+  const [entriesRace, setEntriesRace] = useState<Race | null>(null);
+  const [resultsRace, setResultsRace] = useState<Race | null>(null);
 
-  const loadRaces = async () => {
-    setIsLoading(true);
-    try {
-      const racesData = await db.races.toArray();
-      const participants = await db.race_participants.toArray();
-      const horses = await db.horses.toArray();
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    if (!activeSeason) return undefined;
 
-      const racesWithParticipants: RaceWithParticipants[] = racesData.map(race => {
-        const raceParticipants = participants
-          .filter(p => p.race_id === race.id)
-          .map(participant => ({
-            ...participant,
-            horse: horses.find(h => h.id === participant.horse_id)
-          }));
+    const racesData = await db.races.where('season_id').equals(activeSeason.id!).toArray();
+    const participants = await db.race_participants.toArray();
+    // Archived horses stay listed in the races they ran
+    const horses = await db.horses.toArray();
 
-        return {
-          ...race,
-          participants: raceParticipants,
-          participantCount: raceParticipants.length
-        };
-      });
+    const racesWithParticipants: RaceWithParticipants[] = racesData.map(race => {
+      const raceParticipants = participants
+        .filter(p => p.race_id === race.id)
+        .map(participant => ({
+          ...participant,
+          horse: horses.find(h => h.id === participant.horse_id)
+        }));
 
-      // Sort by date (upcoming first, then by date)
-      racesWithParticipants.sort((a, b) => new Date(a.race_date).getTime() - new Date(b.race_date).getTime());
+      return {
+        ...race,
+        participants: raceParticipants,
+        participantCount: raceParticipants.filter(isStarter).length
+      };
+    });
 
-      setRaces(racesWithParticipants);
-    } catch (error) {
-      console.error('Error loading races:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    // Sort by date (upcoming first, then by date)
+    racesWithParticipants.sort((a, b) => new Date(a.race_date).getTime() - new Date(b.race_date).getTime());
 
-  useEffect(() => {
-    loadRaces();
-  }, []);
+    return { races: racesWithParticipants, withdrawalConflicts: await getWithdrawalConflicts(racesData) };
+  }, [activeSeason]);
+
+  const races = data?.races ?? [];
+  const withdrawalConflicts = data?.withdrawalConflicts ?? [];
 
   // Apply filters
   const baseFilteredRaces = getFilteredData(races, filterFunctions.races);
@@ -86,6 +97,31 @@ export function RacesPage() {
     }
   };
 
+  const openRaceForm = (race?: Race) => {
+    setEditingRace(race);
+    setIsRaceFormOpen(true);
+  };
+
+  const startRace = async (race: Race) => {
+    try {
+      await db.races.update(race.id!, { status: 'running', updated_at: new Date() });
+      toast({
+        title: "Success",
+        description: `${race.name} is running`,
+      });
+    } catch (error) {
+      console.error('Error starting race:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start race",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getConflicts = (raceId: number, horseId: number) =>
+    withdrawalConflicts.filter(c => c.race.id === raceId && c.horse_id === horseId);
+
   const now = new Date();
   const upcomingRaces = races.filter(race => new Date(race.race_date) > now).length;
   const todayRaces = races.filter(race => {
@@ -103,15 +139,30 @@ export function RacesPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Race Management</h1>
           <p className="text-muted-foreground">
-            Manage races, participants, and racing schedules
+            Manage races, participants, and racing schedules{activeSeason ? ` for the ${activeSeason.name}` : ''}
           </p>
         </div>
-        <Button>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Race
-        </Button>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          {can('races:write') && (
+            <Button onClick={() => openRaceForm()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Race
+            </Button>
+          )}
+        </div>
       </div>
 
+      {withdrawalConflicts.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {withdrawalConflicts.length} upcoming {withdrawalConflicts.length === 1 ? 'entry is' : 'entries are'} still
+            inside a medication withdrawal period at post time and should be scratched or rescheduled.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Summary Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -237,6 +288,11 @@ export function RacesPage() {
                     <Badge variant={getStatusVariant(race.status)}>
                       {race.status}
                     </Badge>
+                    {race.status === 'completed' && (
+                      <div className="text-xs text-muted-foreground">
+                        {race.official_at ? `Official${race.final_time ? ` • ${race.final_time}` : ''}` : 'Unofficial'}
+                      </div>
+                    )}
                     <div className="text-sm text-muted-foreground">
                       {race.participantCount} horses
                     </div>
@@ -253,16 +309,44 @@ export function RacesPage() {
                       {race.purse && (
                         <p><strong>Purse:</strong> ${race.purse.toLocaleString()}</p>
                       )}
+                      {(race.min_age !== undefined || race.max_age !== undefined) && (
+                        <p>
+                          <strong>Ages:</strong>{' '}
+                          {race.min_age !== undefined && race.max_age !== undefined
+                            ? `${race.min_age}–${race.max_age}`
+                            : race.min_age !== undefined ? `${race.min_age} and up` : `up to ${race.max_age}`}
+                        </p>
+                      )}
+                      {race.status === 'scheduled' && (
+                        <p>
+                          <strong>Entries:</strong>{' '}
+                          {areEntriesOpen(race)
+                            ? race.entries_close_at ? `open until ${race.entries_close_at.toLocaleString()}` : 'open'
+                            : race.drawn_at ? 'closed, post positions drawn' : 'closed, awaiting draw'}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div>
                     <h4 className="font-medium mb-2">Participants ({race.participantCount})</h4>
                     <div className="text-sm space-y-1 max-h-20 overflow-y-auto">
                       {race.participants.slice(0, 5).map((participant, index) => (
-                        <p key={participant.id}>
+                        <p key={participant.id} className={participant.scratched_at ? 'text-muted-foreground line-through' : undefined}>
                           {participant.post_position && `#${participant.post_position} `}
                           {participant.horse?.name || `Horse ${participant.horse_id}`}
                           {participant.jockey_name && ` (${participant.jockey_name})`}
+                          {participant.failed_drug_test_id && (
+                            <span className="ml-2 text-xs font-medium text-destructive">Failed test</span>
+                          )}
+                          {getConflicts(race.id!, participant.horse_id).map(conflict => (
+                            <span
+                              key={conflict.administration.id}
+                              className="ml-2 text-xs font-medium text-destructive"
+                              title={`Clears ${conflict.clears_at.toLocaleString()}`}
+                            >
+                              In withdrawal: {conflict.administration.substance}
+                            </span>
+                          ))}
                         </p>
                       ))}
                       {race.participants.length > 5 && (
@@ -275,23 +359,48 @@ export function RacesPage() {
                 </div>
                 
                 <div className="flex gap-2 mt-4">
-                  <Button variant="outline" size="sm">
-                    View Details
-                  </Button>
-                  <Button variant="outline" size="sm">
-                    Manage Participants
+                  {can('races:write') && (
+                    <Button variant="outline" size="sm" onClick={() => openRaceForm(race)}>
+                      Edit Race
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setEntriesRace(race)}>
+                    {can('races:write') ? 'Manage Entries' : 'View Entries'}
                   </Button>
-                  {race.status === 'scheduled' && (
-                    <Button variant="outline" size="sm">
+                  {race.status === 'scheduled' && can('races:write') && (
+                    <Button variant="outline" size="sm" onClick={() => startRace(race)}>
                       Start Race
                     </Button>
                   )}
+                  {(race.status === 'running' || race.status === 'completed') && (
+                    <Button variant="outline" size="sm" onClick={() => setResultsRace(race)}>
+                      {race.official_at || !can('races:write') ? 'View Results' : 'Enter Results'}
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
           ))
         )}
       </div>
+
+      <RaceFormDialog
+        open={isRaceFormOpen}
+        onOpenChange={setIsRaceFormOpen}
+        race={editingRace}
+      />
+
+      <RaceResultsDialog
+        open={!!resultsRace}
+        onOpenChange={(open) => !open && setResultsRace(null)}
+        race={resultsRace}
+      />
+
+      <RaceEntriesDialog
+        open={!!entriesRace}
+        onOpenChange={(open) => !open && setEntriesRace(null)}
+        race={entriesRace}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,9 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermission } from '@/hooks/usePermission';
+import { useLiveData } from '@/hooks/useLiveData';
+import { getAccessibleHorses } from '@/lib/permissions';
 import { db, Horse, Activity, Race, DrugTest, VeterinaryRecord } from '@/lib/database';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -16,6 +20,7 @@ import {
 } from 'lucide-react';
 import { UnifiedFilters } from '@/components/UnifiedFilters';
 import { useUnifiedFilters } from '@/hooks/useUnifiedFilters';
+import { LiveIndicator } from '@/components/LiveIndicator';
 
 interface ReportData {
   totalHorses: number;
@@ -31,81 +36,64 @@ interface ReportData {
 
 export function ReportsPage() {
   const { user } = useAuth();
+  const { activeSeason } = useSeason();
+  const canReadOwners = usePermission('owners:read');
   const { filters, filterData, updateFilter, clearFilters } = useUnifiedFilters();
-  const [reportData, setReportData] = useState<ReportData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [reportType, setReportType] = useState('summary');
   const [dateRange, setDateRange] = useState('current_season');
 
-  const loadReportData = async () => {
-    setIsLoading(true);
-    try {
-      let horses: Horse[] = [];
-      
-      if (user?.role === 'admin' || user?.role === 'viewer') {
-        horses = await db.horses.toArray();
-      } else if (user?.role === 'owner') {
-        const owner = await db.owners.where('email').equals(user.email).first();
-        if (owner) {
-          horses = await db.horses.where('owner_id').equals(owner.id!).toArray();
-        }
-      }
+  const { data: reportData = null, isLive, updatedAt } = useLiveData(async (): Promise<ReportData | null> => {
+    if (!activeSeason) return null;
 
-      const activities = await db.activities.toArray();
-      const races = await db.races.toArray();
-      const drugTests = await db.drug_tests.toArray();
-      const vetRecords = await db.veterinary_records.toArray();
+    const horses = await getAccessibleHorses(user, activeSeason.id);
+    const horseIds = new Set(horses.map(h => h.id));
 
-      // Calculate horse statistics by status
-      const horsesByStatus = [
-        { status: 'Active', count: horses.filter(h => h.status === 'active').length },
-        { status: 'Inactive', count: horses.filter(h => h.status === 'inactive').length },
-        { status: 'Injured', count: horses.filter(h => h.status === 'injured').length },
-        { status: 'Retired', count: horses.filter(h => h.status === 'retired').length },
-      ];
+    const activities = (await db.activities.toArray()).filter(a => horseIds.has(a.horse_id));
+    const races = await db.races.where('season_id').equals(activeSeason.id!).toArray();
+    const drugTests = (await db.drug_tests.toArray()).filter(t => horseIds.has(t.horse_id));
+    const vetRecords = (await db.veterinary_records.toArray()).filter(v => horseIds.has(v.horse_id));
 
-      // Calculate activities by type
-      const activityTypes = ['training', 'racing', 'walking', 'resting', 'medical', 'transport'];
-      const activitiesByType = activityTypes.map(type => ({
-        type: type.charAt(0).toUpperCase() + type.slice(1),
-        count: activities.filter(a => a.activity_type === type).length
-      }));
+    // Calculate horse statistics by status
+    const horsesByStatus = [
+      { status: 'Active', count: horses.filter(h => h.status === 'active').length },
+      { status: 'Inactive', count: horses.filter(h => h.status === 'inactive').length },
+      { status: 'Injured', count: horses.filter(h => h.status === 'injured').length },
+      { status: 'Retired', count: horses.filter(h => h.status === 'retired').length },
+    ];
 
-      // Calculate monthly activities (last 6 months)
-      const monthlyActivities = [];
-      for (let i = 5; i >= 0; i--) {
-        const date = new Date();
-        date.setMonth(date.getMonth() - i);
-        const month = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-        const count = activities.filter(a => {
-          const activityDate = new Date(a.start_time);
-          return activityDate.getMonth() === date.getMonth() && 
-                 activityDate.getFullYear() === date.getFullYear();
-        }).length;
-        monthlyActivities.push({ month, count });
-      }
+    // Calculate activities by type
+    const activityTypes = ['training', 'racing', 'walking', 'resting', 'medical', 'transport'];
+    const activitiesByType = activityTypes.map(type => ({
+      type: type.charAt(0).toUpperCase() + type.slice(1),
+      count: activities.filter(a => a.activity_type === type).length
+    }));
 
-      setReportData({
-        totalHorses: horses.length,
-        activeHorses: horses.filter(h => h.status === 'active').length,
-        totalActivities: activities.length,
-        totalRaces: races.length,
-        drugTestsCount: drugTests.length,
-        vetRecordsCount: vetRecords.length,
-        horsesByStatus,
-        activitiesByType,
-        monthlyActivities
-      });
-    } catch (error) {
-      console.error('Error loading report data:', error);
-    } finally {
-      setIsLoading(false);
+    // Calculate monthly activities (last 6 months)
+    const monthlyActivities = [];
+    for (let i = 5; i >= 0; i--) {
+      const date = new Date();
+      date.setMonth(date.getMonth() - i);
+      const month = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+      const count = activities.filter(a => {
+        const activityDate = new Date(a.start_time);
+        return activityDate.getMonth() === date.getMonth() && 
+               activityDate.getFullYear() === date.getFullYear();
+      }).length;
+      monthlyActivities.push({ month, count });
     }
-  };
 
-  useEffect(() => {
-    loadReportData();
-  }, [user]);
+    return {
+      totalHorses: horses.length,
+      activeHorses: horses.filter(h => h.status === 'active').length,
+      totalActivities: activities.length,
+      totalRaces: races.length,
+      drugTestsCount: drugTests.length,
+      vetRecordsCount: vetRecords.length,
+      horsesByStatus,
+      activitiesByType,
+      monthlyActivities
+    };
+  }, [user, activeSeason]);
 
   const generateReport = () => {
     if (!reportData) return;
@@ -114,6 +102,7 @@ export function ReportsPage() {
       'Del Mar Equine Command Center Report',
       `Generated: ${new Date().toLocaleString()}`,
       `Report Type: ${reportType}`,
+      `Season: ${activeSeason?.name || 'None'}`,
       `Date Range: ${dateRange}`,
       '',
       'SUMMARY STATISTICS:',
@@ -161,10 +150,13 @@ export function ReportsPage() {
             Generate comprehensive reports and analyze horse management data
           </p>
         </div>
-        <Button onClick={generateReport} disabled={!reportData}>
-          <Download className="h-4 w-4 mr-2" />
-          Download Report
-        </Button>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          <Button onClick={generateReport} disabled={!reportData}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Report
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -209,7 +201,7 @@ export function ReportsPage() {
                   <SelectValue placeholder="Select date range" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="current_season">Current Season</SelectItem>
+                  <SelectItem value="current_season">{activeSeason ? activeSeason.name : 'Current Season'}</SelectItem>
                   <SelectItem value="last_30_days">Last 30 Days</SelectItem>
                   <SelectItem value="last_6_months">Last 6 Months</SelectItem>
                   <SelectItem value="last_year">Last Year</SelectItem>
@@ -218,7 +210,7 @@ export function ReportsPage() {
               </Select>
             </div>
             
-            {user?.role === 'admin' && (
+            {canReadOwners && (
               <div className="space-y-2">
                 <Label htmlFor="owner-filter">Owner Filter</Label>
                 <Select value={filters.owner || 'all'} onValueChange={(value) => updateFilter('owner', value)}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -12,7 +12,16 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Upload, Download, Plus, Minus, Users, Calendar, MapPin } from 'lucide-react';
 import { db, Horse as HorseType, Owner, Location, Race } from '@/lib/database';
+import { restoreHorses, isActive } from '@/lib/archive';
+import { removeRecords } from '@/lib/dataService';
+import { ToastAction } from '@/components/ui/toast';
+import { RecentlyRemoved } from '@/components/RecentlyRemoved';
+import { RemovalConfirmDialog } from '@/components/RemovalConfirmDialog';
+import { CsvImportDialog } from '@/components/CsvImportDialog';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { useSeason } from '@/contexts/SeasonContext';
 import { useToast } from '@/hooks/use-toast';
+import { useLiveData } from '@/hooks/useLiveData';
 import Papa from 'papaparse';
 
 interface SeasonData {
@@ -24,38 +33,104 @@ interface SeasonData {
 }
 
 export default function SeasonManagementPage() {
-  const [seasons, setSeasons] = useState<string[]>(['2024', '2025']);
-  const [racetracks, setRacetracks] = useState<string[]>(['Del Mar', 'Santa Anita', 'Golden Gate Fields']);
-  const [selectedSeason, setSelectedSeason] = useState('2024');
-  const [selectedRacetrack, setSelectedRacetrack] = useState('Del Mar');
-  const [horses, setHorses] = useState<HorseType[]>([]);
-  const [owners, setOwners] = useState<Owner[]>([]);
-  const [locations, setLocations] = useState<Location[]>([]);
+  const { seasons, racetracks, activeSeason, activeRacetrack, setActiveSeasonId, refreshSeasons } = useSeason();
+  const selectedSeason = activeSeason?.name || '';
+  const selectedRacetrack = activeRacetrack?.name || '';
   const [selectedHorses, setSelectedHorses] = useState<number[]>([]);
   const [selectedOwner, setSelectedOwner] = useState<string>('');
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [isAddHorseDialogOpen, setIsAddHorseDialogOpen] = useState(false);
-  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<{ ids: number[]; message: string } | null>(null);
+  const [isNewSeasonDialogOpen, setIsNewSeasonDialogOpen] = useState(false);
+  const [newSeason, setNewSeason] = useState({
+    name: '',
+    racetrack_id: '',
+    year: new Date().getFullYear().toString(),
+    start_date: '',
+    end_date: ''
+  });
   const { toast } = useToast();
 
-  useEffect(() => {
-    loadData();
-  }, [selectedSeason, selectedRacetrack]);
+  const { data, isLive, updatedAt } = useLiveData(async () => {
+    if (!activeSeason) return undefined;
+
+    const [horsesData, ownersData, locationsData] = await Promise.all([
+      db.horses.where('season_id').equals(activeSeason.id!).filter(isActive).toArray(),
+      db.owners.filter(isActive).toArray(),
+      db.locations.toArray()
+    ]);
+    return { horses: horsesData, owners: ownersData, locations: locationsData };
+  }, [activeSeason]);
+
+  const horses: HorseType[] = data?.horses ?? [];
+  const owners: Owner[] = data?.owners ?? [];
+  const locations: Location[] = data?.locations ?? [];
+
+  const handleRacetrackChange = (racetrackId: string) => {
+    const trackSeasons = seasons
+      .filter(s => s.racetrack_id === parseInt(racetrackId))
+      .sort((a, b) => b.start_date.getTime() - a.start_date.getTime());
+
+    if (trackSeasons.length === 0) {
+      toast({
+        title: "No Seasons",
+        description: "This racetrack has no seasons yet. Create one first.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setActiveSeasonId(trackSeasons[0].id!);
+  };
+
+  const createSeason = async () => {
+    if (!newSeason.name || !newSeason.racetrack_id || !newSeason.start_date || !newSeason.end_date) {
+      toast({
+        title: "Validation Error",
+        description: "Name, racetrack and dates are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const startDate = new Date(newSeason.start_date);
+    const endDate = new Date(newSeason.end_date);
+    if (endDate < startDate) {
+      toast({
+        title: "Validation Error",
+        description: "Season end date must be after its start date",
+        variant: "destructive",
+      });
+      return;
+    }
 
-  const loadData = async () => {
     try {
-      const [horsesData, ownersData, locationsData] = await Promise.all([
-        db.horses.toArray(),
-        db.owners.toArray(),
-        db.locations.toArray()
-      ]);
-      setHorses(horsesData);
-      setOwners(ownersData);
-      setLocations(locationsData);
+      const seasonId = await db.seasons.add({
+        racetrack_id: parseInt(newSeason.racetrack_id),
+        name: newSeason.name,
+        year: parseInt(newSeason.year) || startDate.getFullYear(),
+        start_date: startDate,
+        end_date: endDate,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+      await refreshSeasons();
+      setActiveSeasonId(seasonId);
+      setIsNewSeasonDialogOpen(false);
+      setNewSeason({
+        name: '',
+        racetrack_id: '',
+        year: new Date().getFullYear().toString(),
+        start_date: '',
+        end_date: ''
+      });
+      toast({
+        title: "Success",
+        description: `Season ${newSeason.name} created`,
+      });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to load data",
+        description: "Failed to create season",
         variant: "destructive",
       });
     }
@@ -73,69 +148,75 @@ export default function SeasonManagementPage() {
     setSelectedHorses(selectedHorses.length === horses.length ? [] : horses.map(h => h.id!));
   };
 
-  const handleBulkRemove = async () => {
-    if (selectedHorses.length === 0) return;
-    
+  // Runs once the removal preview dialog is confirmed
+  const removeHorses = async (removedIds: number[], message: string) => {
     try {
-      await db.horses.bulkDelete(selectedHorses);
-      setSelectedHorses([]);
-      await loadData();
+      await removeRecords('horses', removedIds, 'archive');
+      setSelectedHorses(prev => prev.filter(id => !removedIds.includes(id)));
       toast({
         title: "Success",
-        description: `Removed ${selectedHorses.length} horses from ${selectedSeason} season`,
+        description: message,
+        action: (
+          <ToastAction altText="Undo remove" onClick={() => restoreHorses(removedIds)}>
+            Undo
+          </ToastAction>
+        )
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to remove horses",
+        description: error instanceof Error ? error.message : "Failed to remove horses",
         variant: "destructive",
       });
     }
   };
 
+  const handleBulkRemove = () => {
+    if (selectedHorses.length === 0) return;
+
+    setPendingRemoval({
+      ids: [...selectedHorses],
+      message: `Removed ${selectedHorses.length} horses from ${selectedSeason}`
+    });
+  };
+
   const handleOwnerBulkAction = async (action: 'add' | 'remove') => {
     if (!selectedOwner) return;
     
     const ownerHorses = horses.filter(h => h.owner_id === parseInt(selectedOwner));
     
-    if (action === 'remove') {
-      try {
-        await db.horses.bulkDelete(ownerHorses.map(h => h.id!));
-        await loadData();
-        toast({
-          title: "Success",
-          description: `Removed all horses for selected owner from ${selectedSeason} season`,
-        });
-      } catch (error) {
-        toast({
-          title: "Error",
-          description: "Failed to remove owner's horses",
-          variant: "destructive",
-        });
-      }
+    if (action === 'remove' && ownerHorses.length > 0) {
+      setPendingRemoval({
+        ids: ownerHorses.map(h => h.id!),
+        message: `Removed all horses for selected owner from ${selectedSeason}`
+      });
     }
   };
 
   const generateCSVExport = () => {
     // Create horses CSV data
-    const horsesData = horses.map(horse => ({
-      Season: selectedSeason,
-      Racetrack: selectedRacetrack,
-      HorseID: horse.id,
-      HorseName: horse.name,
-      Age: horse.age,
-      Breed: horse.breed,
-      Color: horse.color,
-      Gender: horse.gender,
-      Status: horse.status,
-      TrackingID: horse.tracking_id,
-      OwnerName: owners.find(o => o.id === horse.owner_id)?.name || '',
-      OwnerEmail: owners.find(o => o.id === horse.owner_id)?.email || '',
-      OwnerPhone: owners.find(o => o.id === horse.owner_id)?.phone || '',
-      LocationName: locations.find(l => l.id === horse.current_location_id)?.name || '',
-      LocationType: locations.find(l => l.id === horse.current_location_id)?.type || '',
-      CurrentActivity: horse.current_activity
-    }));
+    const horsesData = horses.map(horse => {
+      const owner = owners.find(o => o.id === horse.owner_id);
+      const location = locations.find(l => l.id === horse.current_location_id);
+      return {
+        season: selectedSeason,
+        racetrack: selectedRacetrack,
+        horse_name: horse.name,
+        tracking_id: horse.tracking_id,
+        registration_number: horse.registration_number,
+        age: horse.age,
+        breed: horse.breed,
+        color: horse.color,
+        gender: horse.gender,
+        status: horse.status,
+        owner_name: owner?.name || '',
+        owner_email: owner?.email || '',
+        owner_phone: owner?.phone || '',
+        owner_address: owner?.address || '',
+        location: location?.name || '',
+        current_activity: horse.current_activity
+      };
+    });
 
     const csv = Papa.unparse(horsesData);
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -150,163 +231,10 @@ export default function SeasonManagementPage() {
 
     toast({
       title: "Export Complete",
-      description: `Exported ${horses.length} horses for ${selectedSeason} season as CSV`,
+      description: `Exported ${horses.length} horses for ${selectedSeason} as CSV`,
     });
   };
 
-  const handleCSVImport = async () => {
-    if (!csvFile) return;
-
-    try {
-      const text = await csvFile.text();
-      
-      Papa.parse(text, {
-        header: true,
-        complete: async (results) => {
-          try {
-            const data = results.data as any[];
-            
-            if (data.length === 0) {
-              throw new Error('CSV file is empty');
-            }
-
-            // Validate required columns
-            const requiredColumns = ['Season', 'Racetrack', 'HorseName', 'OwnerName', 'OwnerEmail'];
-            const firstRow = data[0];
-            const missingColumns = requiredColumns.filter(col => !(col in firstRow));
-            
-            if (missingColumns.length > 0) {
-              throw new Error(`Missing required columns: ${missingColumns.join(', ')}`);
-            }
-
-            // Validate season and racetrack
-            const importSeason = firstRow.Season;
-            const importRacetrack = firstRow.Racetrack;
-            
-            if (importSeason !== selectedSeason) {
-              throw new Error(`CSV is for season ${importSeason}, but you have ${selectedSeason} selected. Please switch to the correct season first.`);
-            }
-            
-            if (importRacetrack !== selectedRacetrack) {
-              throw new Error(`CSV is for racetrack ${importRacetrack}, but you have ${selectedRacetrack} selected. Please switch to the correct racetrack first.`);
-            }
-
-            // Process owners first
-            const uniqueOwners = Array.from(new Map(
-              data.map(row => [`${row.OwnerName}-${row.OwnerEmail}`, {
-                name: row.OwnerName,
-                email: row.OwnerEmail,
-                phone: row.OwnerPhone || '',
-                address: row.OwnerAddress || ''
-              }])
-            ).values());
-
-            for (const owner of uniqueOwners) {
-              const existingOwner = await db.owners.where('email').equals(owner.email).first();
-              if (!existingOwner) {
-                await db.owners.add({
-                  name: owner.name,
-                  email: owner.email,
-                  phone: owner.phone,
-                  address: owner.address,
-                  created_at: new Date(),
-                  updated_at: new Date()
-                });
-              }
-            }
-
-            // Process locations
-            const uniqueLocations = Array.from(new Map(
-              data.filter(row => row.LocationName).map(row => [row.LocationName, {
-                name: row.LocationName,
-                type: row.LocationType || 'Stable',
-                capacity: 50
-              }])
-            ).values());
-
-            for (const location of uniqueLocations) {
-              const existingLocation = await db.locations.where('name').equals(location.name).first();
-              if (!existingLocation) {
-                await db.locations.add({
-                  name: location.name,
-                  type: location.type,
-                  capacity: location.capacity,
-                  current_occupancy: 0,
-                  created_at: new Date(),
-                  updated_at: new Date()
-                });
-              }
-            }
-
-            // Refresh data to get new IDs
-            const [newOwners, newLocations] = await Promise.all([
-              db.owners.toArray(),
-              db.locations.toArray()
-            ]);
-
-            // Process horses
-            let importedCount = 0;
-            for (const row of data) {
-              if (!row.HorseName) continue;
-
-              const owner = newOwners.find(o => o.name === row.OwnerName && o.email === row.OwnerEmail);
-              const location = newLocations.find(l => l.name === row.LocationName);
-              
-              const trackingId = row.TrackingID || `TRK${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-              
-              const existingHorse = await db.horses.where('tracking_id').equals(trackingId).first();
-              if (!existingHorse) {
-                await db.horses.add({
-                  name: row.HorseName,
-                  age: parseInt(row.Age) || 3,
-                  breed: row.Breed || 'Thoroughbred',
-                  color: row.Color || 'Bay',
-                  gender: row.Gender || 'gelding',
-                  status: row.Status || 'active',
-                  tracking_id: trackingId,
-                  owner_id: owner?.id || 1,
-                  current_location_id: location?.id || 1,
-                  current_activity: row.CurrentActivity || 'Stabled',
-                  created_at: new Date(),
-                  updated_at: new Date()
-                });
-                importedCount++;
-              }
-            }
-
-            await loadData();
-            setCsvFile(null);
-            setIsImportDialogOpen(false);
-            
-            toast({
-              title: "Import Complete",
-              description: `Imported ${importedCount} horses for ${selectedSeason} season`,
-            });
-          } catch (error) {
-            toast({
-              title: "Import Error",
-              description: error instanceof Error ? error.message : "Failed to import CSV data",
-              variant: "destructive",
-            });
-          }
-        },
-        error: (error) => {
-          toast({
-            title: "Parse Error",
-            description: "Failed to parse CSV file",
-            variant: "destructive",
-          });
-        }
-      });
-    } catch (error) {
-      toast({
-        title: "File Error",
-        description: "Failed to read CSV file",
-        variant: "destructive",
-      });
-    }
-  };
-
   const getOwnerName = (ownerId: number) => {
     return owners.find(o => o.id === ownerId)?.name || 'Unknown';
   };
@@ -325,9 +253,12 @@ export default function SeasonManagementPage() {
             Manage horses, owners, and locations across racing seasons
           </p>
         </div>
-        <Badge variant="outline" className="px-3 py-1">
-          {selectedSeason} - {selectedRacetrack}
-        </Badge>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          <Badge variant="outline" className="px-3 py-1">
+            {selectedSeason} - {selectedRacetrack}
+          </Badge>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -382,27 +313,35 @@ export default function SeasonManagementPage() {
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
               <Label htmlFor="season">Season:</Label>
-              <Select value={selectedSeason} onValueChange={setSelectedSeason}>
-                <SelectTrigger className="w-32">
+              <Select
+                value={activeSeason?.id?.toString() || ''}
+                onValueChange={(value) => setActiveSeasonId(parseInt(value))}
+              >
+                <SelectTrigger className="w-48">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {seasons.map(season => (
-                    <SelectItem key={season} value={season}>{season}</SelectItem>
-                  ))}
+                  {seasons
+                    .filter(season => season.racetrack_id === activeRacetrack?.id)
+                    .map(season => (
+                      <SelectItem key={season.id} value={season.id!.toString()}>{season.name}</SelectItem>
+                    ))}
                 </SelectContent>
               </Select>
             </div>
             
             <div className="flex items-center gap-2">
               <Label htmlFor="racetrack">Racetrack:</Label>
-              <Select value={selectedRacetrack} onValueChange={setSelectedRacetrack}>
+              <Select
+                value={activeRacetrack?.id?.toString() || ''}
+                onValueChange={handleRacetrackChange}
+              >
                 <SelectTrigger className="w-48">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   {racetracks.map(track => (
-                    <SelectItem key={track} value={track}>{track}</SelectItem>
+                    <SelectItem key={track.id} value={track.id!.toString()}>{track.name}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -430,7 +369,7 @@ export default function SeasonManagementPage() {
 
           <Card>
             <CardHeader>
-              <CardTitle>Horses in {selectedSeason} Season</CardTitle>
+              <CardTitle>Horses in {selectedSeason}</CardTitle>
               <CardDescription>
                 Select horses to perform bulk operations
               </CardDescription>
@@ -527,10 +466,84 @@ export default function SeasonManagementPage() {
                 </div>
                 
                 <div className="flex gap-2">
-                  <Button variant="outline" className="flex-1">
-                    <Calendar className="h-4 w-4 mr-2" />
-                    New Season
-                  </Button>
+                  <Dialog open={isNewSeasonDialogOpen} onOpenChange={setIsNewSeasonDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button variant="outline" className="flex-1">
+                        <Calendar className="h-4 w-4 mr-2" />
+                        New Season
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-md">
+                      <DialogHeader>
+                        <DialogTitle>New Season</DialogTitle>
+                        <DialogDescription>
+                          Create a race meet for a racetrack. New horses and races are recorded against the active season.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="season-name">Name *</Label>
+                          <Input
+                            id="season-name"
+                            placeholder="e.g. 2026 Summer Meet"
+                            value={newSeason.name}
+                            onChange={(e) => setNewSeason(prev => ({ ...prev, name: e.target.value }))}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="season-racetrack">Racetrack *</Label>
+                          <Select
+                            value={newSeason.racetrack_id}
+                            onValueChange={(value) => setNewSeason(prev => ({ ...prev, racetrack_id: value }))}
+                          >
+                            <SelectTrigger id="season-racetrack">
+                              <SelectValue placeholder="Choose a racetrack" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {racetracks.map(track => (
+                                <SelectItem key={track.id} value={track.id!.toString()}>{track.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div className="space-y-2">
+                            <Label htmlFor="season-year">Year</Label>
+                            <Input
+                              id="season-year"
+                              type="number"
+                              value={newSeason.year}
+                              onChange={(e) => setNewSeason(prev => ({ ...prev, year: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="season-start">Start *</Label>
+                            <Input
+                              id="season-start"
+                              type="date"
+                              value={newSeason.start_date}
+                              onChange={(e) => setNewSeason(prev => ({ ...prev, start_date: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="season-end">End *</Label>
+                            <Input
+                              id="season-end"
+                              type="date"
+                              value={newSeason.end_date}
+                              onChange={(e) => setNewSeason(prev => ({ ...prev, end_date: e.target.value }))}
+                            />
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button onClick={createSeason}>Create Season</Button>
+                          <Button variant="outline" onClick={() => setIsNewSeasonDialogOpen(false)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
                   <Button variant="outline" className="flex-1">
                     <MapPin className="h-4 w-4 mr-2" />
                     Clone Season
@@ -539,6 +552,8 @@ export default function SeasonManagementPage() {
               </CardContent>
             </Card>
           </div>
+
+          <RecentlyRemoved refreshKey={updatedAt?.getTime()} />
         </TabsContent>
 
         <TabsContent value="import-export" className="space-y-4">
@@ -573,69 +588,30 @@ export default function SeasonManagementPage() {
               <CardHeader>
                 <CardTitle>Import Data</CardTitle>
                 <CardDescription>
-                  Upload season data to populate horses, owners, and locations
+                  Upload season data to add or update horses and owners and place horses in their locations
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
-                  <DialogTrigger asChild>
-                    <Button className="w-full">
-                      <Upload className="h-4 w-4 mr-2" />
-                      Import Season Data
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-2xl">
-                    <DialogHeader>
-                      <DialogTitle>Import Season Data</DialogTitle>
-                      <DialogDescription>
-                        Upload a CSV file to import horses, owners, and locations. The CSV must include columns: Season, Racetrack, HorseName, OwnerName, OwnerEmail.
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="csv-file">CSV File</Label>
-                        <Input
-                          id="csv-file"
-                          type="file"
-                          accept=".csv"
-                          onChange={(e) => setCsvFile(e.target.files?.[0] || null)}
-                          className="cursor-pointer"
-                        />
-                        {csvFile && (
-                          <p className="text-sm text-muted-foreground">
-                            Selected: {csvFile.name} ({(csvFile.size / 1024).toFixed(1)} KB)
-                          </p>
-                        )}
-                      </div>
-                      <div className="text-sm text-muted-foreground">
-                        <p className="font-medium">Required CSV columns:</p>
-                        <ul className="mt-1 space-y-1">
-                          <li>• Season, Racetrack, HorseName, OwnerName, OwnerEmail</li>
-                          <li>• Optional: Age, Breed, Color, Gender, Status, TrackingID, OwnerPhone, LocationName, LocationType, CurrentActivity</li>
-                        </ul>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button onClick={handleCSVImport} disabled={!csvFile}>
-                          Import CSV Data
-                        </Button>
-                        <Button 
-                          variant="outline" 
-                          onClick={() => {
-                            setCsvFile(null);
-                            setIsImportDialogOpen(false);
-                          }}
-                        >
-                          Cancel
-                        </Button>
-                      </div>
-                    </div>
-                  </DialogContent>
-                </Dialog>
+                <Button className="w-full" onClick={() => setIsImportDialogOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import Season Data
+                </Button>
+                <CsvImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
               </CardContent>
             </Card>
           </div>
         </TabsContent>
       </Tabs>
+
+      <RemovalConfirmDialog
+        open={!!pendingRemoval}
+        onOpenChange={(open) => !open && setPendingRemoval(null)}
+        table="horses"
+        ids={pendingRemoval?.ids || []}
+        mode="archive"
+        title="Remove Horses"
+        onConfirm={() => removeHorses(pendingRemoval!.ids, pendingRemoval!.message)}
+      />
     </div>
   );
 }
\ No newline at end of file
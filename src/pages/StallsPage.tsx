@@ -0,0 +1,392 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { getAccessibleHorses } from '@/lib/permissions';
+import { useLiveData } from '@/hooks/useLiveData';
+import { db, Stall } from '@/lib/database';
+import { assignHorse, getStallOccupants, hasStalls, releaseHorse, saveStall, STALL_SIZE_LABELS } from '@/lib/stalls';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Edit, Warehouse, CheckCircle, Ban, LogIn, LogOut } from 'lucide-react';
+
+const emptyStallForm = () => ({
+  stall_number: '',
+  size: 'standard' as Stall['size'],
+  features: '',
+  out_of_service: false,
+  out_of_service_reason: ''
+});
+
+export function StallsPage() {
+  const { user } = useAuth();
+  const { activeSeason } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [chosenBarnId, setSelectedBarnId] = useState<number | null>(null);
+  const [editingStall, setEditingStall] = useState<Stall | null>(null);
+  const [isStallDialogOpen, setIsStallDialogOpen] = useState(false);
+  const [stallForm, setStallForm] = useState(emptyStallForm());
+  const [assigningStall, setAssigningStall] = useState<Stall | null>(null);
+  const [assignHorseId, setAssignHorseId] = useState('');
+  const canManage = can('facilities:manage');
+
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    if (!activeSeason) return undefined;
+
+    const [locationsData, stallsData, assignments, horsesData, allHorses] = await Promise.all([
+      db.locations.toArray(),
+      db.stalls.toArray(),
+      db.location_assignments.toArray(),
+      getAccessibleHorses(user, activeSeason.id),
+      db.horses.toArray() // Occupants may belong to another season
+    ]);
+    return {
+      barns: locationsData.filter(hasStalls).sort((a, b) => a.name.localeCompare(b.name)),
+      stalls: stallsData.sort((a, b) => a.stall_number.localeCompare(b.stall_number, undefined, { numeric: true })),
+      assignments,
+      horses: horsesData.sort((a, b) => a.name.localeCompare(b.name)),
+      horseNames: new Map(allHorses.map(h => [h.id!, h.name]))
+    };
+  }, [user, activeSeason]);
+
+  const barns = data?.barns ?? [];
+  const stalls = data?.stalls ?? [];
+  const assignments = data?.assignments ?? [];
+  const horses = data?.horses ?? [];
+  const selectedBarnId = chosenBarnId ?? barns[0]?.id ?? null;
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({
+        title: "Success",
+        description: success,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error updating stalls:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update stall',
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const openStallDialog = (stall?: Stall) => {
+    setEditingStall(stall ?? null);
+    setStallForm(stall ? {
+      stall_number: stall.stall_number,
+      size: stall.size,
+      features: stall.features.join(', '),
+      out_of_service: stall.out_of_service,
+      out_of_service_reason: stall.out_of_service_reason ?? ''
+    } : emptyStallForm());
+    setIsStallDialogOpen(true);
+  };
+
+  const submitStall = async () => {
+    if (!selectedBarnId) return;
+    const saved = await runAction(() => saveStall({
+      location_id: editingStall?.location_id ?? selectedBarnId,
+      stall_number: stallForm.stall_number,
+      size: stallForm.size,
+      features: stallForm.features.split(',').map(f => f.trim()).filter(Boolean),
+      out_of_service: stallForm.out_of_service,
+      out_of_service_reason: stallForm.out_of_service_reason.trim() || undefined
+    }, editingStall?.id), `Stall ${stallForm.stall_number.trim()} saved`);
+    if (saved) setIsStallDialogOpen(false);
+  };
+
+  const submitAssignment = async () => {
+    if (!assigningStall || !assignHorseId) return;
+    const saved = await runAction(() => assignHorse({
+      horse_id: parseInt(assignHorseId),
+      location_id: assigningStall.location_id,
+      stall_id: assigningStall.id,
+      assigned_by: user!.id!,
+      season_id: activeSeason?.id
+    }), `Assigned to stall ${assigningStall.stall_number}`);
+    if (saved) {
+      setAssigningStall(null);
+      setAssignHorseId('');
+    }
+  };
+
+  const barn = barns.find(b => b.id === selectedBarnId);
+  const barnStalls = stalls.filter(s => s.location_id === selectedBarnId);
+  const occupants = getStallOccupants(assignments);
+  const horseName = (horseId: number) => data?.horseNames.get(horseId) || `Horse ${horseId}`;
+  const occupiedCount = barnStalls.filter(s => occupants.has(s.id!)).length;
+  const outOfServiceCount = barnStalls.filter(s => s.out_of_service).length;
+  const vacantCount = barnStalls.length - occupiedCount - outOfServiceCount;
+
+  if (isLoading && barns.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Stalls</h1>
+          <p className="text-muted-foreground">
+            Stall inventory and occupancy by barn
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          <Select
+            value={selectedBarnId?.toString() ?? ''}
+            onValueChange={(value) => setSelectedBarnId(parseInt(value))}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select barn" />
+            </SelectTrigger>
+            <SelectContent>
+              {barns.map(b => (
+                <SelectItem key={b.id} value={b.id!.toString()}>{b.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canManage && barn && (
+            <Button onClick={() => openStallDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Stall
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stalls</CardTitle>
+            <Warehouse className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{barnStalls.length}</div>
+            <p className="text-xs text-muted-foreground">
+              Capacity {barn?.capacity ?? 0}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Occupied</CardTitle>
+            <LogIn className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{occupiedCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Vacant</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{vacantCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Out of Service</CardTitle>
+            <Ban className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{outOfServiceCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{barn?.name ?? 'No barns'}</CardTitle>
+          <CardDescription>{barn?.description ?? 'Add a barn or stable location to manage its stalls'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {barnStalls.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No stalls in this barn.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stall</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Features</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canManage && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {barnStalls.map(stall => {
+                  const occupant = occupants.get(stall.id!);
+                  return (
+                    <TableRow key={stall.id}>
+                      <TableCell className="font-medium">{stall.stall_number}</TableCell>
+                      <TableCell>{STALL_SIZE_LABELS[stall.size]}</TableCell>
+                      <TableCell>{stall.features.join(', ') || '—'}</TableCell>
+                      <TableCell>
+                        {stall.out_of_service ? (
+                          <Badge variant="destructive">
+                            Out of service{stall.out_of_service_reason ? `: ${stall.out_of_service_reason}` : ''}
+                          </Badge>
+                        ) : occupant ? (
+                          <Link to={`/horses/${occupant.horse_id}`} className="hover:underline">
+                            {horseName(occupant.horse_id)}
+                          </Link>
+                        ) : (
+                          <Badge variant="secondary">Vacant</Badge>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openStallDialog(stall)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {occupant ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => runAction(
+                                  () => releaseHorse(occupant.horse_id),
+                                  `Stall ${stall.stall_number} vacated`
+                                )}
+                              >
+                                <LogOut className="h-4 w-4 mr-1" />
+                                Vacate
+                              </Button>
+                            ) : !stall.out_of_service && (
+                              <Button variant="outline" size="sm" onClick={() => setAssigningStall(stall)}>
+                                <LogIn className="h-4 w-4 mr-1" />
+                                Assign
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stall Dialog */}
+      <Dialog open={isStallDialogOpen} onOpenChange={setIsStallDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingStall ? `Edit Stall ${editingStall.stall_number}` : 'Add Stall'}</DialogTitle>
+            <DialogDescription>{barn?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stall-number">Stall Number *</Label>
+              <Input
+                id="stall-number"
+                value={stallForm.stall_number}
+                onChange={(e) => setStallForm({ ...stallForm, stall_number: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <Select value={stallForm.size} onValueChange={(value) => setStallForm({ ...stallForm, size: value as Stall['size'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STALL_SIZE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="stall-features">Features</Label>
+              <Input
+                id="stall-features"
+                placeholder="e.g. Fan, Rubber mats, Window"
+                value={stallForm.features}
+                onChange={(e) => setStallForm({ ...stallForm, features: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center space-x-2 col-span-2">
+              <Checkbox
+                id="stall-out-of-service"
+                checked={stallForm.out_of_service}
+                onCheckedChange={(checked) => setStallForm({ ...stallForm, out_of_service: !!checked })}
+              />
+              <Label htmlFor="stall-out-of-service">Out of service</Label>
+            </div>
+            {stallForm.out_of_service && (
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="stall-oos-reason">Reason</Label>
+                <Input
+                  id="stall-oos-reason"
+                  value={stallForm.out_of_service_reason}
+                  onChange={(e) => setStallForm({ ...stallForm, out_of_service_reason: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsStallDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={submitStall}>Save Stall</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Assign Dialog */}
+      <Dialog open={!!assigningStall} onOpenChange={(open) => !open && setAssigningStall(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign Stall {assigningStall?.stall_number}</DialogTitle>
+            <DialogDescription>The horse's current assignment ends when it moves in</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Horse</Label>
+            <Select value={assignHorseId} onValueChange={setAssignHorseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select horse" />
+              </SelectTrigger>
+              <SelectContent>
+                {horses.map(horse => (
+                  <SelectItem key={horse.id} value={horse.id!.toString()}>{horse.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssigningStall(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitAssignment} disabled={!assignHorseId}>Assign</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
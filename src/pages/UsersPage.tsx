@@ -0,0 +1,534 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { db, User, Owner } from '@/lib/database';
+import { isActive } from '@/lib/archive';
+import { hashPassword, validatePasswordStrength } from '@/lib/password';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Edit, UserX, UserCheck, KeyRound, Users, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveData } from '@/hooks/useLiveData';
+import { LiveIndicator } from '@/components/LiveIndicator';
+
+interface UserForm {
+  username: string;
+  email: string;
+  role: User['role'];
+  password: string;
+  owner_id: string;
+}
+
+const emptyForm: UserForm = {
+  username: '',
+  email: '',
+  role: 'viewer',
+  password: '',
+  owner_id: 'none'
+};
+
+export function UsersPage() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [form, setForm] = useState<UserForm>(emptyForm);
+  const [resetUser, setResetUser] = useState<User | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    const [usersData, ownersData] = await Promise.all([
+      db.users.toArray(),
+      db.owners.filter(isActive).toArray()
+    ]);
+    return { users: usersData, owners: ownersData };
+  }, []);
+
+  const users: User[] = data?.users ?? [];
+  const owners: Owner[] = data?.owners ?? [];
+
+  const getLinkedOwner = (userId?: number) => owners.find(o => o.user_id === userId);
+
+  const openCreateDialog = () => {
+    setEditingUser(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (user: User) => {
+    setEditingUser(user);
+    setForm({
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      password: '',
+      owner_id: getLinkedOwner(user.id)?.id?.toString() || 'none'
+    });
+    setIsDialogOpen(true);
+  };
+
+  // Link an owner-role user to exactly one owner record, clearing any previous link
+  const linkOwner = async (userId: number, ownerId: number | null) => {
+    await db.owners
+      .where('user_id')
+      .equals(userId)
+      .filter(o => o.id !== ownerId)
+      .modify({ user_id: undefined, updated_at: new Date() });
+
+    if (ownerId) {
+      await db.owners.update(ownerId, { user_id: userId, updated_at: new Date() });
+    }
+  };
+
+  const saveUser = async () => {
+    if (!form.username || !form.email) {
+      toast({
+        title: "Validation Error",
+        description: "Username and email are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const duplicate = await db.users.where('username').equals(form.username).first();
+    if (duplicate && duplicate.id !== editingUser?.id) {
+      toast({
+        title: "Validation Error",
+        description: `Username ${form.username} is already taken`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!editingUser || form.password) {
+      const strengthError = validatePasswordStrength(form.password);
+      if (strengthError) {
+        toast({
+          title: "Validation Error",
+          description: strengthError,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    if (editingUser?.id === currentUser?.id && form.role !== 'admin') {
+      toast({
+        title: "Not Allowed",
+        description: "You cannot remove your own admin role",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const ownerId = form.role === 'owner' && form.owner_id !== 'none' ? parseInt(form.owner_id) : null;
+    const linkedOwner = ownerId ? owners.find(o => o.id === ownerId) : undefined;
+    if (linkedOwner?.user_id && linkedOwner.user_id !== editingUser?.id) {
+      const otherUser = users.find(u => u.id === linkedOwner.user_id);
+      toast({
+        title: "Validation Error",
+        description: `${linkedOwner.name} is already linked to ${otherUser?.username || 'another user'}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const now = new Date();
+      // Hashed before the transaction: awaiting WebCrypto inside it would commit it early
+      const passwordHash = form.password ? await hashPassword(form.password) : undefined;
+
+      // The user and their owner link are saved together or not at all
+      await db.transaction('rw', db.users, db.owners, async () => {
+        let userId: number;
+
+        if (editingUser) {
+          userId = editingUser.id!;
+          const changes: Partial<User> = {
+            username: form.username,
+            email: form.email,
+            role: form.role,
+            updated_at: now
+          };
+          if (passwordHash) {
+            changes.password_hash = passwordHash;
+            changes.must_change_password = true;
+          }
+          await db.users.update(userId, changes);
+        } else {
+          userId = await db.users.add({
+            username: form.username,
+            email: form.email,
+            role: form.role,
+            password_hash: passwordHash!,
+            must_change_password: true,
+            created_at: now,
+            updated_at: now
+          });
+        }
+
+        await linkOwner(userId, ownerId);
+      });
+
+      toast({
+        title: "Success",
+        description: `User ${form.username} ${editingUser ? 'updated' : 'created'}`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save user",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleDisabled = async (user: User) => {
+    if (user.id === currentUser?.id) {
+      toast({
+        title: "Not Allowed",
+        description: "You cannot disable your own account",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const disabled = !user.disabled;
+      await db.users.update(user.id!, { disabled, updated_at: new Date() });
+      if (disabled) {
+        await db.sessions.where('user_id').equals(user.id!).delete();
+      }
+      toast({
+        title: "Success",
+        description: `User ${user.username} ${disabled ? 'disabled' : 'enabled'}`,
+      });
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update user",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const submitPasswordReset = async () => {
+    if (!resetUser) return;
+
+    const strengthError = validatePasswordStrength(resetPassword);
+    if (strengthError) {
+      toast({
+        title: "Validation Error",
+        description: strengthError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await db.users.update(resetUser.id!, {
+        password_hash: await hashPassword(resetPassword),
+        must_change_password: true,
+        updated_at: new Date()
+      });
+      await db.sessions.where('user_id').equals(resetUser.id!).delete();
+      toast({
+        title: "Password Reset",
+        description: `${resetUser.username} must choose a new password at next sign-in`,
+      });
+      setResetUser(null);
+      setResetPassword('');
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reset password",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getRoleBadgeVariant = (role: string) => {
+    switch (role) {
+      case 'admin': return 'default';
+      case 'owner': return 'secondary';
+      case 'viewer': return 'outline';
+      default: return 'outline';
+    }
+  };
+
+  const activeUsers = users.filter(u => !u.disabled);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+          <p className="text-muted-foreground">
+            Manage accounts, roles and owner links
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add User
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Users</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{activeUsers.length}</div>
+            <p className="text-xs text-muted-foreground">
+              {users.length - activeUsers.length} disabled
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Administrators</CardTitle>
+            <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{activeUsers.filter(u => u.role === 'admin').length}</div>
+            <p className="text-xs text-muted-foreground">
+              Full system access
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unlinked Owners</CardTitle>
+            <UserX className="h-4 w-4 text-amber-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-amber-600">
+              {activeUsers.filter(u => u.role === 'owner' && !getLinkedOwner(u.id)).length}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Owner accounts that see no horses
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Users</CardTitle>
+          <CardDescription>Owner accounts only see horses of the owner they are linked to</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Linked Owner</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id} className={user.disabled ? 'opacity-60' : ''}>
+                    <TableCell className="font-medium">
+                      {user.username}
+                      {user.id === currentUser?.id && (
+                        <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={getRoleBadgeVariant(user.role)}>{user.role}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {user.role === 'owner' ? (getLinkedOwner(user.id)?.name || (
+                        <span className="text-amber-600">Not linked</span>
+                      )) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {user.disabled ? (
+                        <Badge variant="destructive">Disabled</Badge>
+                      ) : user.must_change_password ? (
+                        <Badge variant="secondary">Password reset pending</Badge>
+                      ) : (
+                        <Badge variant="outline">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => openEditDialog(user)}>
+                          <Edit className="h-3 w-3 mr-1" />
+                          Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setResetUser(user)}>
+                          <KeyRound className="h-3 w-3 mr-1" />
+                          Reset
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleDisabled(user)}
+                          disabled={user.id === currentUser?.id}
+                        >
+                          {user.disabled ? (
+                            <><UserCheck className="h-3 w-3 mr-1" />Enable</>
+                          ) : (
+                            <><UserX className="h-3 w-3 mr-1" />Disable</>
+                          )}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit User */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingUser ? `Edit ${editingUser.username}` : 'Add User'}</DialogTitle>
+            <DialogDescription>
+              {editingUser
+                ? 'Leave the password blank to keep the current one.'
+                : 'The user must choose a new password at first sign-in.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="user-username">Username *</Label>
+              <Input
+                id="user-username"
+                value={form.username}
+                onChange={(e) => setForm(prev => ({ ...prev, username: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="user-email">Email *</Label>
+              <Input
+                id="user-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="user-role">Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm(prev => ({ ...prev, role: value as User['role'] }))}
+              >
+                <SelectTrigger id="user-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                  <SelectItem value="owner">Owner</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.role === 'owner' && (
+              <div>
+                <Label htmlFor="user-owner">Linked Owner</Label>
+                <Select
+                  value={form.owner_id}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, owner_id: value }))}
+                >
+                  <SelectTrigger id="user-owner">
+                    <SelectValue placeholder="Select owner" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not linked</SelectItem>
+                    {owners.map(owner => (
+                      <SelectItem
+                        key={owner.id}
+                        value={owner.id!.toString()}
+                        disabled={!!owner.user_id && owner.user_id !== editingUser?.id}
+                      >
+                        {owner.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="user-password">{editingUser ? 'New Password' : 'Temporary Password *'}</Label>
+              <Input
+                id="user-password"
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                autoComplete="new-password"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveUser}>
+              {editingUser ? 'Save Changes' : 'Create User'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password */}
+      <Dialog open={!!resetUser} onOpenChange={(open) => !open && setResetUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password for {resetUser?.username}</DialogTitle>
+            <DialogDescription>
+              Sets a temporary password, signs the user out everywhere and requires a new password at next sign-in.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="reset-password">Temporary Password</Label>
+            <Input
+              id="reset-password"
+              type="password"
+              value={resetPassword}
+              onChange={(e) => setResetPassword(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetUser(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitPasswordReset}>Reset Password</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,554 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSeason } from '@/contexts/SeasonContext';
+import { usePermissions } from '@/hooks/usePermission';
+import { getAccessibleHorses } from '@/lib/permissions';
+import { useLiveData } from '@/hooks/useLiveData';
+import { db, VeterinaryRecord } from '@/lib/database';
+import { getFollowUpStatus, getDaysOverdue, completeFollowUp, FollowUpStatus } from '@/lib/veterinary';
+import { MedicationLog } from '@/components/MedicationLog';
+import { WithdrawalRulesTable } from '@/components/WithdrawalRulesTable';
+import { LiveIndicator } from '@/components/LiveIndicator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Edit, CheckCircle, Stethoscope, AlertTriangle, Clock, CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ExamForm {
+  horse_id: string;
+  examination_date: string;
+  veterinarian: string;
+  diagnosis: string;
+  treatment: string;
+  medications: string;
+  notes: string;
+  follow_up_required: boolean;
+  follow_up_date: string;
+}
+
+const emptyForm = (): ExamForm => ({
+  horse_id: '',
+  examination_date: format(new Date(), 'yyyy-MM-dd'),
+  veterinarian: '',
+  diagnosis: '',
+  treatment: '',
+  medications: '',
+  notes: '',
+  follow_up_required: false,
+  follow_up_date: ''
+});
+
+export function VeterinaryPage() {
+  const { user } = useAuth();
+  const { activeSeason } = useSeason();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [horseFilter, setHorseFilter] = useState('all');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Exam dialog
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRecord, setEditingRecord] = useState<VeterinaryRecord | null>(null);
+  const [followUpOf, setFollowUpOf] = useState<VeterinaryRecord | null>(null);
+  const [form, setForm] = useState<ExamForm>(emptyForm());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading, isLive, updatedAt } = useLiveData(async () => {
+    if (!activeSeason) return undefined;
+
+    const horses = await getAccessibleHorses(user, activeSeason.id);
+    const horseIds = horses.map(h => h.id!);
+    const records = await db.veterinary_records.where('horse_id').anyOf(horseIds).toArray();
+    records.sort((a, b) => b.examination_date.getTime() - a.examination_date.getTime());
+
+    return { horses: horses.sort((a, b) => a.name.localeCompare(b.name)), records };
+  }, [activeSeason, user]);
+
+  const horses = data?.horses ?? [];
+  const records = data?.records ?? [];
+
+  const horseName = (horseId: number) => horses.find(h => h.id === horseId)?.name || 'Unknown';
+
+  const openNewExam = (followUp?: VeterinaryRecord) => {
+    setEditingRecord(null);
+    setFollowUpOf(followUp || null);
+    setForm({
+      ...emptyForm(),
+      horse_id: followUp ? followUp.horse_id.toString() : '',
+      veterinarian: followUp?.veterinarian || '',
+      diagnosis: followUp?.diagnosis || ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openEditExam = (record: VeterinaryRecord) => {
+    setEditingRecord(record);
+    setFollowUpOf(null);
+    setForm({
+      horse_id: record.horse_id.toString(),
+      examination_date: format(record.examination_date, 'yyyy-MM-dd'),
+      veterinarian: record.veterinarian,
+      diagnosis: record.diagnosis || '',
+      treatment: record.treatment || '',
+      medications: record.medications || '',
+      notes: record.notes || '',
+      follow_up_required: record.follow_up_required,
+      follow_up_date: record.follow_up_date ? format(record.follow_up_date, 'yyyy-MM-dd') : ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const saveExam = async () => {
+    if (!form.horse_id || !form.examination_date || !form.veterinarian.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Horse, examination date and veterinarian are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const examinationDate = new Date(`${form.examination_date}T00:00:00`);
+    const followUpDate = form.follow_up_required && form.follow_up_date
+      ? new Date(`${form.follow_up_date}T00:00:00`)
+      : undefined;
+
+    if (form.follow_up_required && !followUpDate) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a due date for the follow-up",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (followUpDate && followUpDate < examinationDate) {
+      toast({
+        title: "Validation Error",
+        description: "The follow-up cannot be due before the examination",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const now = new Date();
+      const recordData = {
+        horse_id: parseInt(form.horse_id),
+        examination_date: examinationDate,
+        veterinarian: form.veterinarian.trim(),
+        diagnosis: form.diagnosis.trim() || undefined,
+        treatment: form.treatment.trim() || undefined,
+        medications: form.medications.trim() || undefined,
+        notes: form.notes.trim() || undefined,
+        follow_up_required: form.follow_up_required,
+        follow_up_date: followUpDate,
+        updated_at: now
+      };
+
+      if (editingRecord) {
+        await db.veterinary_records.update(editingRecord.id!, recordData);
+      } else {
+        await db.transaction('rw', db.veterinary_records, async () => {
+          await db.veterinary_records.add({ ...recordData, recorded_by: user?.id, created_at: now });
+          // Recording the follow-up exam closes the follow-up it was scheduled by
+          if (followUpOf) {
+            await completeFollowUp(followUpOf.id!);
+          }
+        });
+      }
+
+      toast({
+        title: "Success",
+        description: editingRecord ? 'Examination updated' : `Examination recorded for ${horseName(parseInt(form.horse_id))}`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving examination:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save examination",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const markFollowUpComplete = async (record: VeterinaryRecord) => {
+    try {
+      await completeFollowUp(record.id!);
+      toast({
+        title: "Follow-up Completed",
+        description: `Follow-up for ${horseName(record.horse_id)} marked complete`,
+      });
+    } catch (error) {
+      console.error('Error completing follow-up:', error);
+      toast({
+        title: "Error",
+        description: "Failed to complete follow-up",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderFollowUpBadge = (record: VeterinaryRecord) => {
+    const status = getFollowUpStatus(record);
+    const labels: Record<FollowUpStatus, string> = {
+      none: '',
+      scheduled: record.follow_up_date ? `Due ${format(record.follow_up_date, 'MMM d')}` : 'Scheduled',
+      due_soon: `Due ${format(record.follow_up_date!, 'MMM d')}`,
+      overdue: `Overdue ${getDaysOverdue(record)}d`,
+      completed: 'Completed'
+    };
+    if (status === 'none') return <span className="text-muted-foreground">—</span>;
+    const variant = status === 'overdue' ? 'destructive' : status === 'due_soon' ? 'secondary' : 'outline';
+    return <Badge variant={variant}>{labels[status]}</Badge>;
+  };
+
+  const openFollowUps = records.filter(r => ['scheduled', 'due_soon', 'overdue'].includes(getFollowUpStatus(r)));
+  const worklist = [...openFollowUps].sort((a, b) =>
+    (a.follow_up_date?.getTime() ?? Infinity) - (b.follow_up_date?.getTime() ?? Infinity)
+  );
+  const overdueCount = openFollowUps.filter(r => getFollowUpStatus(r) === 'overdue').length;
+  const dueSoonCount = openFollowUps.filter(r => getFollowUpStatus(r) === 'due_soon').length;
+
+  const filteredRecords = records.filter(record => {
+    if (horseFilter !== 'all' && record.horse_id !== parseInt(horseFilter)) return false;
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return [horseName(record.horse_id), record.veterinarian, record.diagnosis, record.treatment, record.medications]
+      .some(value => value?.toLowerCase().includes(term));
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Veterinary</h1>
+          <p className="text-muted-foreground">
+            Examinations, treatments and follow-up worklist
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <LiveIndicator isLive={isLive} updatedAt={updatedAt} />
+          {can('vet:write') && (
+            <Button onClick={() => openNewExam()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Record Exam
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Examinations</CardTitle>
+            <Stethoscope className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{records.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Follow-ups</CardTitle>
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{openFollowUps.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Due This Week</CardTitle>
+            <Clock className="h-4 w-4 text-amber-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-amber-600">{dueSoonCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{overdueCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="worklist" className="w-full">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="worklist">Follow-up Worklist ({worklist.length})</TabsTrigger>
+          <TabsTrigger value="records">All Records</TabsTrigger>
+          <TabsTrigger value="medications">Medications</TabsTrigger>
+          <TabsTrigger value="withdrawal">Withdrawal Table</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="worklist">
+          <Card>
+            <CardHeader>
+              <CardTitle>Follow-up Worklist</CardTitle>
+              <CardDescription>Open follow-ups, overdue first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : worklist.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No open follow-ups.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Horse</TableHead>
+                      <TableHead>Examined</TableHead>
+                      <TableHead>Veterinarian</TableHead>
+                      <TableHead>Diagnosis</TableHead>
+                      <TableHead>Follow-up</TableHead>
+                      {can('vet:write') && <TableHead className="text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {worklist.map(record => (
+                      <TableRow key={record.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/horses/${record.horse_id}`} className="hover:underline">
+                            {horseName(record.horse_id)}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{format(record.examination_date, 'MMM d, yyyy')}</TableCell>
+                        <TableCell>{record.veterinarian}</TableCell>
+                        <TableCell className="text-muted-foreground">{record.diagnosis || '—'}</TableCell>
+                        <TableCell>{renderFollowUpBadge(record)}</TableCell>
+                        {can('vet:write') && (
+                          <TableCell className="text-right space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => openNewExam(record)}>
+                              <Stethoscope className="h-3 w-3 mr-1" />
+                              Record Follow-up
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => markFollowUpComplete(record)}>
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Complete
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="records">
+          <Card>
+            <CardHeader>
+              <CardTitle>Examination Records</CardTitle>
+              <div className="flex flex-col gap-2 pt-2 md:flex-row">
+                <Input
+                  placeholder="Search horse, veterinarian, diagnosis..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="md:max-w-sm"
+                />
+                <Select value={horseFilter} onValueChange={setHorseFilter}>
+                  <SelectTrigger className="md:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Horses</SelectItem>
+                    {horses.map(horse => (
+                      <SelectItem key={horse.id} value={horse.id!.toString()}>{horse.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {filteredRecords.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No examination records found.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Horse</TableHead>
+                      <TableHead>Veterinarian</TableHead>
+                      <TableHead>Diagnosis</TableHead>
+                      <TableHead>Treatment</TableHead>
+                      <TableHead>Medications</TableHead>
+                      <TableHead>Follow-up</TableHead>
+                      {can('vet:write') && <TableHead></TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredRecords.map(record => (
+                      <TableRow key={record.id}>
+                        <TableCell className="whitespace-nowrap">{format(record.examination_date, 'MMM d, yyyy')}</TableCell>
+                        <TableCell className="font-medium">
+                          <Link to={`/horses/${record.horse_id}`} className="hover:underline">
+                            {horseName(record.horse_id)}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{record.veterinarian}</TableCell>
+                        <TableCell>{record.diagnosis || '—'}</TableCell>
+                        <TableCell className="text-muted-foreground">{record.treatment || '—'}</TableCell>
+                        <TableCell className="text-muted-foreground">{record.medications || '—'}</TableCell>
+                        <TableCell>{renderFollowUpBadge(record)}</TableCell>
+                        {can('vet:write') && (
+                          <TableCell>
+                            <Button variant="ghost" size="sm" onClick={() => openEditExam(record)}>
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="medications">
+          <MedicationLog horses={horses} />
+        </TabsContent>
+
+        <TabsContent value="withdrawal">
+          <WithdrawalRulesTable />
+        </TabsContent>
+      </Tabs>
+
+      {/* Exam Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRecord ? 'Edit Examination' : followUpOf ? 'Record Follow-up Exam' : 'Record Examination'}</DialogTitle>
+            <DialogDescription>
+              {followUpOf
+                ? `Saving this exam completes the follow-up from ${format(followUpOf.examination_date, 'MMM d, yyyy')}.`
+                : 'Diagnosis, treatment and any follow-up that is required'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Horse *</Label>
+                <Select
+                  value={form.horse_id}
+                  onValueChange={(value) => setForm({ ...form, horse_id: value })}
+                  disabled={!!editingRecord || !!followUpOf}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select horse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {horses.map(horse => (
+                      <SelectItem key={horse.id} value={horse.id!.toString()}>{horse.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exam-date">Examination Date *</Label>
+                <Input
+                  id="exam-date"
+                  type="date"
+                  value={form.examination_date}
+                  onChange={(e) => setForm({ ...form, examination_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exam-vet">Veterinarian *</Label>
+              <Input
+                id="exam-vet"
+                value={form.veterinarian}
+                onChange={(e) => setForm({ ...form, veterinarian: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exam-diagnosis">Diagnosis</Label>
+              <Input
+                id="exam-diagnosis"
+                value={form.diagnosis}
+                onChange={(e) => setForm({ ...form, diagnosis: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exam-treatment">Treatment</Label>
+              <Textarea
+                id="exam-treatment"
+                value={form.treatment}
+                onChange={(e) => setForm({ ...form, treatment: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exam-medications">Medications</Label>
+              <Textarea
+                id="exam-medications"
+                value={form.medications}
+                onChange={(e) => setForm({ ...form, medications: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exam-notes">Notes</Label>
+              <Textarea
+                id="exam-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="exam-follow-up"
+                checked={form.follow_up_required}
+                onCheckedChange={(checked) => setForm({ ...form, follow_up_required: !!checked })}
+              />
+              <Label htmlFor="exam-follow-up">Follow-up required</Label>
+            </div>
+            {form.follow_up_required && (
+              <div className="space-y-2">
+                <Label htmlFor="exam-follow-up-date">Follow-up Due *</Label>
+                <Input
+                  id="exam-follow-up-date"
+                  type="date"
+                  value={form.follow_up_date}
+                  onChange={(e) => setForm({ ...form, follow_up_date: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveExam} disabled={isSaving}>
+              {editingRecord ? 'Save Changes' : 'Record Exam'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
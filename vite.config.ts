@@ -1,8 +1,23 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lists the built JS and CSS for public/sw.js to cache when it installs, so the app starts offline
+// after the first visit instead of the second
+function precacheManifest(): Plugin {
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith("assets/") && !fileName.endsWith(".map"))
+        .map((fileName) => `/${fileName}`);
+      this.emitFile({ type: "asset", fileName: "precache-manifest.json", source: JSON.stringify(files) });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +26,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    precacheManifest(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),